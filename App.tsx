@@ -1,41 +1,60 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import ImageUploader from './components/ImageUploader.tsx';
 import PromptInput from './components/PromptInput.tsx';
 import ResultDisplay from './components/ResultDisplay.tsx';
 import Loader from './components/Loader.tsx';
 import { SparklesIcon } from './components/icons/SparklesIcon.tsx';
 import { generatePanorama } from './services/geminiService.ts';
-import { createImageTemplate } from './utils/fileUtils.ts';
+import { createImageTemplate, DEFAULT_TEMPLATE_OPTIONS } from './utils/fileUtils.ts';
+import { Locale, LOCALE_KEY, LOCALE_NAMES, LOCALES, loadLocale, PROMPT_LOCALE_KEY, getActiveLocale, setActiveLocale, storeLocale, t } from './utils/i18n.ts';
 
 const App: React.FC = () => {
+  const [locale, setLocale] = useState<Locale>(getActiveLocale);
+  const [promptLocale, setPromptLocale] = useState<Locale>(() => loadLocale(PROMPT_LOCALE_KEY));
   const [apiKey, setApiKey] = useState<string>('');
   const [base64Image, setBase64Image] = useState<string | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [mimeType, setMimeType] = useState<string | null>(null);
-  const [prompt, setPrompt] = useState<string>('красивый солнечный день с пушистыми облаками');
+  const [prompt, setPrompt] = useState<string>(() => t('app.defaultPrompt'));
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
   const [generatedText, setGeneratedText] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [statusMessage, setStatusMessage] = useState<string>('');
 
+  useEffect(() => {
+    storeLocale(LOCALE_KEY, locale);
+    document.documentElement.lang = locale;
+    document.title = t('app.title');
+  }, [locale]);
+
+  useEffect(() => {
+    storeLocale(PROMPT_LOCALE_KEY, promptLocale);
+  }, [promptLocale]);
+
+  const handleLocaleChange = (next: Locale) => {
+    // The module-level locale must switch before the re-render so every t() call sees it.
+    setActiveLocale(next);
+    setLocale(next);
+  };
+
   const handleImageUpload = useCallback(async (file: File) => {
     try {
       setError(null);
       setGeneratedImage(null);
       setGeneratedText(null);
       
-      // Показываем пользователю оригинальное изображение
+      // Show the user the original image
       setImagePreview(URL.createObjectURL(file));
 
-      // Создаем шаблон 16:9 для отправки в модель
+      // Build the 16:9 template that is sent to the model
       const { base64, mimeType } = await createImageTemplate(file);
       setBase64Image(base64);
       setMimeType(mimeType);
 
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Не удалось обработать изображение.';
+      const errorMessage = err instanceof Error ? err.message : t('error.processImage');
       setError(errorMessage);
       console.error(err);
     }
@@ -43,7 +62,7 @@ const App: React.FC = () => {
   
   const handleGenerate = async () => {
     if (!base64Image || !mimeType || !prompt || !apiKey) {
-      setError('Пожалуйста, загрузите изображение, введите описание и укажите ваш API-ключ.');
+      setError(t('error.generateMissing'));
       return;
     }
     
@@ -51,19 +70,19 @@ const App: React.FC = () => {
     setError(null);
     setGeneratedImage(null);
     setGeneratedText(null);
-    setStatusMessage('Инициализация модели Nano Banana...');
+    setStatusMessage(t('status.initializing'));
 
     try {
-      setTimeout(() => setStatusMessage('Анализ изображения и подсказки...'), 1500);
-      setTimeout(() => setStatusMessage('Расширение сцены до 16:9...'), 4000);
+      setTimeout(() => setStatusMessage(t('status.analyzing')), 1500);
+      setTimeout(() => setStatusMessage(t('status.extending', { ratio: '16:9' })), 4000);
       
-      const result = await generatePanorama(base64Image, mimeType, prompt, apiKey);
+      const result = await generatePanorama(base64Image, mimeType, prompt, apiKey, DEFAULT_TEMPLATE_OPTIONS, promptLocale);
       
       setGeneratedImage(result.imageUrl);
       setGeneratedText(result.text);
-      setStatusMessage('Панорама успешно создана!');
+      setStatusMessage(t('status.success'));
     } catch (err) {
-      let errorMessage = 'Произошла неизвестная ошибка.';
+      let errorMessage = t('error.unknown');
       if (err instanceof Error) {
         errorMessage = err.message;
       }
@@ -80,23 +99,35 @@ const App: React.FC = () => {
     <div className="min-h-screen bg-slate-900 font-sans p-4 sm:p-6 lg:p-8">
       <div className="container mx-auto max-w-7xl">
         <header className="text-center mb-8">
+          <div className="flex justify-end mb-2">
+            <select
+              value={locale}
+              onChange={(e) => handleLocaleChange(e.target.value as Locale)}
+              aria-label={t('app.language')}
+              className="p-1.5 text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 transition-colors"
+            >
+              {LOCALES.map((code) => (
+                <option key={code} value={code}>{LOCALE_NAMES[code]}</option>
+              ))}
+            </select>
+          </div>
           <h1 className="text-4xl sm:text-5xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-500 pb-2">
-            Генератор Панорам Nano Banana
+            {t('app.title')}
           </h1>
           <p className="text-slate-400 mt-2 max-w-2xl mx-auto">
-            Загрузите изображение, и ИИ дорисует его до формата 16:9, создавая потрясающую панораму.
+            {t('app.subtitle')}
           </p>
         </header>
 
         <main className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           <div className="bg-slate-800/50 p-6 rounded-2xl shadow-lg border border-slate-700 flex flex-col gap-6">
-            <h2 className="text-2xl font-bold text-slate-100 border-b border-slate-700 pb-3">1. Настройка</h2>
+            <h2 className="text-2xl font-bold text-slate-100 border-b border-slate-700 pb-3">{t('app.setup')}</h2>
             <ImageUploader onImageUpload={handleImageUpload} previewUrl={imagePreview} />
             <PromptInput value={prompt} onChange={(e) => setPrompt(e.target.value)} disabled={isLoading} />
             
             <div>
               <label htmlFor="api-key" className="block mb-2 text-sm font-medium text-slate-300">
-                Ваш Gemini API Ключ
+                {t('provider.apiKey')}
               </label>
               <input
                 type="password"
@@ -105,13 +136,30 @@ const App: React.FC = () => {
                 onChange={(e) => setApiKey(e.target.value)}
                 disabled={isLoading}
                 className="block p-2.5 w-full text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 placeholder-slate-400 transition-colors"
-                placeholder="Вставьте ваш API ключ сюда"
+                placeholder={t('provider.apiKeyPlaceholder')}
               />
               <p className="text-xs text-slate-500 mt-1">
-                Ключ не сохраняется. Его можно получить в <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:underline">Google AI Studio</a>.
+                {t('provider.apiKeyHint')} <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:underline">Google AI Studio</a>.
               </p>
             </div>
 
+            <div>
+              <label htmlFor="prompt-locale" className="block mb-2 text-sm font-medium text-slate-300">
+                {t('app.promptLanguage')}
+              </label>
+              <select
+                id="prompt-locale"
+                value={promptLocale}
+                onChange={(e) => setPromptLocale(e.target.value as Locale)}
+                disabled={isLoading}
+                className="block p-2.5 w-full text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 transition-colors"
+              >
+                {LOCALES.map((code) => (
+                  <option key={code} value={code}>{LOCALE_NAMES[code]}</option>
+                ))}
+              </select>
+            </div>
+
             <button
               onClick={handleGenerate}
               disabled={isGenerateDisabled}
@@ -127,12 +175,12 @@ const App: React.FC = () => {
               {isLoading ? (
                 <>
                   <Loader />
-                  Генерация...
+                  {t('app.generating')}
                 </>
               ) : (
                 <>
                   <SparklesIcon />
-                  Создать Панораму
+                  {t('app.create')}
                 </>
               )}
             </button>
@@ -140,7 +188,7 @@ const App: React.FC = () => {
           </div>
 
           <div className="bg-slate-800/50 p-6 rounded-2xl shadow-lg border border-slate-700 flex flex-col">
-            <h2 className="text-2xl font-bold text-slate-100 border-b border-slate-700 pb-3 mb-6">2. Результат</h2>
+            <h2 className="text-2xl font-bold text-slate-100 border-b border-slate-700 pb-3 mb-6">{t('app.result')}</h2>
             <div className="flex-grow flex items-center justify-center">
               <ResultDisplay
                 imageUrl={generatedImage}
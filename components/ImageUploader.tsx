@@ -1,5 +1,6 @@
 
 import React, { useRef, useState } from 'react';
+import { t } from '../utils/i18n.ts';
 
 interface ImageUploaderProps {
   onImageUpload: (file: File) => void;
@@ -52,14 +53,14 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, previewUrl
         `}
       >
         {previewUrl ? (
-          <img src={previewUrl} alt="Предпросмотр" className="object-contain w-full h-full rounded-lg p-1" />
+          <img src={previewUrl} alt={t('upload.preview')} className="object-contain w-full h-full rounded-lg p-1" />
         ) : (
           <div className="flex flex-col items-center justify-center pt-5 pb-6 text-center">
             <svg className="w-10 h-10 mb-4 text-slate-400" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 20 16">
                 <path stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 13h3a3 3 0 0 0 0-6h-.025A5.56 5.56 0 0 0 16 6.5 5.5 5.5 0 0 0 5.207 5.021C5.137 5.017 5.071 5 5 5a4 4 0 0 0 0 8h2.167M10 15V6m0 0L8 8m2-2 2 2"/>
             </svg>
-            <p className="mb-2 text-sm text-slate-400"><span className="font-semibold">Нажмите для загрузки</span> или перетащите</p>
-            <p className="text-xs text-slate-500">PNG, JPG, WEBP (рекомендуется)</p>
+            <p className="mb-2 text-sm text-slate-400"><span className="font-semibold">{t('upload.click')}</span> {t('upload.orDrop')}</p>
+            <p className="text-xs text-slate-500">{t('upload.formats')}</p>
           </div>
         )}
         <input
@@ -73,7 +74,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, previewUrl
       </label>
       {previewUrl && (
          <button onClick={triggerFileSelect} className="w-full mt-2 text-sm text-center text-cyan-400 hover:text-cyan-300">
-           Выбрать другое изображение
+           {t('upload.change')}
          </button>
       )}
     </div>
@@ -1,5 +1,6 @@
 
 import React from 'react';
+import { t } from '../utils/i18n.ts';
 
 interface PromptInputProps {
   value: string;
@@ -11,7 +12,7 @@ const PromptInput: React.FC<PromptInputProps> = ({ value, onChange, disabled })
   return (
     <div>
       <label htmlFor="prompt" className="block mb-2 text-sm font-medium text-slate-300">
-        Опишите, как расширить изображение
+        {t('prompt.label')}
       </label>
       <textarea
         id="prompt"
@@ -20,7 +21,7 @@ const PromptInput: React.FC<PromptInputProps> = ({ value, onChange, disabled })
         onChange={onChange}
         disabled={disabled}
         className="block p-2.5 w-full text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 placeholder-slate-400 transition-colors"
-        placeholder="Например: 'преврати это в эпический фэнтезийный пейзаж с драконами в небе'"
+        placeholder={t('prompt.placeholder')}
       ></textarea>
     </div>
   );
@@ -1,29 +1,1661 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useId } from 'react';
 import ReactDOM from 'react-dom/client';
-import { GoogleGenAI, Modality, GenerateContentResponse } from "@google/genai";
+import { ApiError, GoogleGenAI, Modality, GenerateContentResponse } from "@google/genai";
 
 // --- TYPES ---
 
+/** How a stored image was produced; everything except 'generate' derives from a parent. */
+type HistoryOperation = 'generate' | 'extend' | 'enhance' | 'upscale' | 'tiled' | 'edit';
+
+/** A stored generation. Images are kept as Blobs in IndexedDB. */
 interface HistoryItem {
+  id: number;
+  createdAt: number;
+  prompt: string;
+  templateImage: Blob;
+  generatedImage: Blob;
+  /** Small JPEG preview for the history list. */
+  thumbnail: Blob;
+  /** SHA-256 of `generatedImage`, hex; missing on items stored before it was recorded. */
+  resultSha256?: string;
+  templateOptions?: TemplateOptions;
+  sourcePlacement?: SourcePlacement;
+  provider?: ProviderId;
+  model?: string;
+  /** SHA-256 of the uploaded source, hex; missing for items saved before it was recorded. */
+  sourceSha256?: string;
+  /** Item this one was derived from. Always points at a stored item. */
+  parentId?: number;
+  operation?: HistoryOperation;
+}
+
+/** A result as the app holds it before storing; also the format older versions kept in localStorage. */
+interface HistoryItemInput {
   id: number;
   prompt: string;
   templateImageBase64: string;
   templateImageMimeType: string;
   generatedImageUrl: string;
+  templateOptions?: TemplateOptions;
+  sourcePlacement?: SourcePlacement;
+  provider?: ProviderId;
+  model?: string;
+  sourceSha256?: string;
+  parentId?: number;
+  operation?: HistoryOperation;
+}
+
+interface HistoryQuery {
+  text: string;
+  /** Inclusive bounds on `createdAt`, in ms. */
+  from: number | null;
+  to: number | null;
+}
+
+/** One result of a multi-variant or prompt-matrix run. */
+interface GenerationVariant {
+  id: number;
+  prompt: string;
+  imageUrl: string | null;
+  text: string | null;
+  error: GenerationError | null;
+  provider: ProviderId;
+  /** Stored result the source was extended from, if any. */
+  parentId: number | null;
+  /** Seam check of the result; null when the source position is unknown or nothing was checked. */
+  quality: SeamQualityReport | null;
+  /** What produced the variant, embedded on export. */
+  metadata: GenerationMetadata;
+}
+
+type BatchItemStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+/** One source image in the batch queue. */
+interface BatchItem {
+  id: number;
+  file: File;
+  /** Per-item overrides; empty values fall back to the shared prompt and canvas. */
+  prompt: string;
+  templateOptions: TemplateOptions | null;
+  /** What the job actually ran with; the shared settings may change while the queue runs. */
+  appliedPrompt: string | null;
+  appliedTemplate: TemplateOptions | null;
+  status: BatchItemStatus;
+  resultUrl: string | null;
+  error: Error | null;
+  historyId: number | null;
+  startedAt: number | null;
+  finishedAt: number | null;
+}
+
+/** Everything undo/redo restores: the result on screen and the template it was made from. */
+interface WorkspaceSnapshot {
+  generatedImage: string | null;
+  generatedText: string | null;
+  resultMetadata: GenerationMetadata | null;
+  activeHistoryId: number | null;
+  variants: GenerationVariant[];
+  selectedVariantId: number | null;
+  resultSource: RecompositionSource | null;
+  base64Image: string | null;
+  mimeType: string | null;
+  imagePreview: string | null;
+  sourceFile: File | null;
+  stitchFiles: File[];
+  templateOptions: TemplateOptions;
+  activeTemplate: TemplateOptions;
+  activePlacement: SourcePlacement | null;
+  lineageParentId: number | null;
 }
 
+// --- I18N ---
+
+type Locale = 'en' | 'ru';
+
+const LOCALES: Locale[] = ['en', 'ru'];
+// Each language is named in itself, so the switcher stays readable whatever is selected.
+const LOCALE_NAMES: Record<Locale, string> = { en: 'English', ru: 'Русский' };
+// BCP 47 tags used for number and date formatting.
+const LOCALE_TAGS: Record<Locale, string> = { en: 'en-US', ru: 'ru-RU' };
+const LOCALE_KEY = 'nano-panorama-locale';
+const PROMPT_LOCALE_KEY = 'nano-panorama-prompt-locale';
+
+const EN_MESSAGES = {
+  'aspect.wide': '16:9 — wide',
+  'aspect.ultrawide': '21:9 — ultra-wide',
+  'aspect.panorama': '2:1 — panorama',
+  'aspect.longPanorama': '3:1 — long panorama',
+  'aspect.vertical': '9:16 — vertical',
+  'aspect.square': '1:1 — square',
+  'error.imageLoad': 'Failed to load the image',
+  'error.canvasContext': 'Could not get a canvas context',
+  'error.sourceOffCanvas': 'The source image lies entirely outside the canvas',
+  'error.templateDataUrl': 'Invalid data URL while building the template',
+  'generationError.invalidApiKey': 'The API key is invalid or has no access to the model.',
+  'generationError.quotaExceeded': 'The request limit was exceeded or the quota is used up.',
+  'generationError.safetyBlocked': 'The request was blocked by the model\'s safety filters.',
+  'generationError.noImage': 'The model returned no image in its response.',
+  'generationError.network': 'Could not reach the generation service.',
+  'generationError.timeout': 'The generation service did not respond in time.',
+  'generationError.inputTooLarge': 'The image is too large to send to the model.',
+  'generationError.server': 'The generation service returned an internal error.',
+  'generationError.cancelled': 'Generation cancelled.',
+  'generationError.rejected': 'The generation service rejected the request.',
+  'generationError.unknown': 'Generation failed.',
+  'generationError.sizeDetail': '{size} MB exceeds the {limit} MB limit',
+  'provider.gemini': 'Google Gemini',
+  'provider.mock': 'Local mock (offline)',
+  'provider.automatic1111': 'Own server (Automatic1111 API)',
+  'error.apiKeyMissing': 'No API key provided.',
+  'error.templateNoSource': 'The template does not contain the source image.',
+  'mock.outpaint': 'Mock provider: mirrored fill.',
+  'mock.enhance': 'Mock provider: sharpening.',
+  'mock.edit': 'Mock provider: tinting.',
+  'mock.inpaint': 'Mock provider: area blur.',
+  'a1111.networkDetail': '{url}: {message}. Check the address and the CORS settings (--cors-allow-origins).',
+  'a1111.emptyImages': '{url} returned an empty list of images.',
+  'request.timeoutDetail': 'No response within {seconds} s (attempt {attempt}).',
+  'tiled.alreadyWide': 'The image is already wider than {width} px.',
+  'tiled.tileFailed': 'Failed to generate tile {tile} of {total}: {reason}',
+  'inpaint.emptyMask': 'Paint over the area you want to regenerate.',
+  'presets.notJson': 'The preset file is corrupted: it is not JSON.',
+  'presets.wrongFormat': 'This is not a Nano Panorama preset file.',
+  'presets.newerVersion': 'The preset file was created by a newer version of the app ({version}).',
+  'error.transactionAborted': 'IndexedDB transaction aborted',
+  'error.thumbnail': 'Failed to create a thumbnail',
+  'zip.notZip': 'The file is not a ZIP archive.',
+  'zip.badDirectory': 'The ZIP central directory is corrupted.',
+  'zip.badLocalHeader': 'corrupted local header',
+  'zip.truncated': 'data is truncated',
+  'zip.unsupportedMethod': 'unsupported compression method {method}',
+  'zip.crcMismatch': 'CRC32 checksum mismatch',
+  'bundle.noManifest': 'The archive has no readable manifest.json, so it is not a project archive.',
+  'bundle.badManifest': 'manifest.json is corrupted.',
+  'bundle.unknownFormat': 'Unknown archive format.',
+  'bundle.newerVersion': 'The archive was created by a newer version of the app (format {version}).',
+  'bundle.entryPrompt': '"{prompt}"',
+  'bundle.entryNumber': 'Entry {index}',
+  'bundle.entryNoId': 'no id or prompt',
+  'bundle.entryNoImages': 'the archive has no images for the entry',
+  'bundle.entryBadTemplate': 'the template is unreadable: {reason}',
+  'bundle.entryBadResult': 'the result is unreadable: {reason}',
+  'bundle.entryHashMismatch': 'the result checksum does not match',
+  'upload.preview': 'Preview',
+  'upload.click': 'Click to upload',
+  'upload.orDrop': 'or drag and drop',
+  'upload.formats': 'PNG, JPG, WEBP (recommended)',
+  'upload.stitchHint': 'Up to {count} photos to stitch into a panorama',
+  'upload.change': 'Choose another image',
+  'upload.folder': 'Choose a folder',
+  'prompt.label': 'Describe how to extend the image',
+  'prompt.placeholder': 'For example: \'turn this into an epic fantasy landscape\'',
+  'presets.label': 'Style presets',
+  'presets.choose': 'Style preset…',
+  'presets.empty': 'No presets',
+  'presets.namePlaceholder': 'Preset name',
+  'presets.save': 'Save as preset',
+  'common.delete': 'Delete',
+  'common.export': 'Export',
+  'common.import': 'Import',
+  'variables.title': 'Prompt variables',
+  'systemPrompts.outpaint': 'Extend (flat panorama)',
+  'systemPrompts.outpaint360': 'Extend (360° sphere)',
+  'systemPrompts.enhance': 'Enhance quality',
+  'systemPrompts.inpaint': 'Regenerate area',
+  'systemPrompts.title': 'System prompts',
+  'systemPrompts.language': 'Prompt language',
+  'systemPrompts.operation': 'Operation',
+  'systemPrompts.version': 'Version',
+  'systemPrompts.builtIn': 'Built-in text',
+  'systemPrompts.versionLabel': 'Version {index} — {date}',
+  'systemPrompts.placeholders': 'Placeholders: {names}.',
+  'systemPrompts.noPlaceholders': 'No placeholders.',
+  'systemPrompts.scope': 'Templates apply to Gemini; the mock and Automatic1111 receive only your prompt.',
+  'systemPrompts.unknown': 'Unknown placeholders are left as they are: {names}.',
+  'systemPrompts.missingUserPrompt': 'The template has no {userPrompt}, so your prompt will not reach the request.',
+  'systemPrompts.saveVersion': 'Save version',
+  'systemPrompts.discard': 'Discard changes',
+  'systemPrompts.deleteVersion': 'Delete version',
+  'anchor.topLeft': 'Top left',
+  'anchor.top': 'Top',
+  'anchor.topRight': 'Top right',
+  'anchor.left': 'Left',
+  'anchor.center': 'Center',
+  'anchor.right': 'Right',
+  'anchor.bottomLeft': 'Bottom left',
+  'anchor.bottom': 'Bottom',
+  'anchor.bottomRight': 'Bottom right',
+  'template.projection': 'Panorama type',
+  'template.flat': 'Flat',
+  'template.sphere': '360° sphere',
+  'template.sphereHint': 'A 2:1 canvas in equirectangular projection with the source photo in the centre. Where the left and right edges meet, the colours are matched and a strip across the seam is redrawn automatically.',
+  'template.canvas': 'Canvas format',
+  'template.custom': 'Custom size',
+  'template.width': 'Width, px',
+  'template.height': 'Height, px',
+  'template.anchor': 'Source image position',
+  'template.manualLayout': 'Set by hand in the placement editor.',
+  'placement.centerX': 'Center X, %',
+  'placement.centerY': 'Center Y, %',
+  'placement.width': 'Width, %',
+  'placement.rotation': 'Rotation, °',
+  'placement.cropLeft': 'Left, %',
+  'placement.cropTop': 'Top, %',
+  'placement.cropRight': 'Right, %',
+  'placement.cropBottom': 'Bottom, %',
+  'placement.title': 'Placement editor',
+  'placement.scale': 'Scale',
+  'placement.rotate': 'Rotate (Shift snaps to 15°)',
+  'placement.crop': 'Crop',
+  'placement.hint': 'Drag the image with the mouse; the corner handle scales it and the top one rotates it. The centre and edges snap to the canvas guides.',
+  'placement.reset': 'Reset placement',
+  'stitch.title': 'Stitched photos ({count})',
+  'stitch.moveLeft': 'Move left',
+  'stitch.remove': 'Remove',
+  'stitch.moveRight': 'Move right',
+  'stitch.gap': 'Gap, % of height',
+  'stitch.align': 'Align overlaps',
+  'stitch.aligned': 'Aligned by overlap: {aligned} of {total}. The other photos are separated by a gap that the model fills in.',
+  'batch.status.pending': 'Queued',
+  'batch.status.running': 'Running',
+  'batch.status.done': 'Done',
+  'batch.status.failed': 'Failed',
+  'batch.status.cancelled': 'Cancelled',
+  'batch.tooMany': 'The queue holds at most {max} images; the extra files were skipped.',
+  'batch.archiveFailed': 'Failed to build the results archive.',
+  'batch.hint': 'Choose a folder or up to {max} files',
+  'batch.sharedHint': 'The prompt, canvas and provider below are shared by all images; override them for a single photo with the ⚙ button.',
+  'batch.concurrency': 'At once',
+  'batch.progress': 'Done {done} of {total}',
+  'batch.failedCount': 'failed {count}',
+  'batch.runningCount': 'running {count}',
+  'common.resume': 'Resume',
+  'common.start': 'Start',
+  'batch.pause': 'Pause',
+  'batch.stop': 'Stop',
+  'batch.retry': 'Retry failed',
+  'batch.archiving': 'Archiving...',
+  'batch.download': 'Download all (ZIP + report)',
+  'common.clear': 'Clear',
+  'batch.providerMissing': 'Configure the generation provider to start the queue.',
+  'batch.promptMissing': 'Enter the shared prompt below and fill in its variables.',
+  'batch.resultAlt': 'Result',
+  'batch.hasOverrides': 'custom settings',
+  'batch.overrides': 'Custom settings',
+  'batch.removeItem': 'Remove from queue',
+  'batch.itemPrompt': 'Custom prompt',
+  'batch.shared': 'Same as the rest',
+  'batch.canvas': 'Canvas',
+  'sphere.hint': 'Drag to look around, scroll to zoom',
+  'sphere.reset': 'Reset view',
+  'extend.left': 'Extend left',
+  'extend.up': 'Extend up',
+  'extend.down': 'Extend down',
+  'extend.right': 'Extend right',
+  'tiled.title': 'Ultra-wide panorama (tiled)',
+  'tiled.targetWidth': 'Final width, px',
+  'tiled.direction': 'Direction',
+  'tiled.right': 'Right',
+  'tiled.left': 'Left',
+  'tiled.both': 'Both ways',
+  'tiled.hint': 'The image grows through overlapping windows; each tile is a separate model request.',
+  'timer.elapsed': 'Elapsed: {time}',
+  'timer.timeout': 'Timeout: {time}',
+  'retry.title': 'Retries and timeout',
+  'retry.attempts': 'Retry attempts',
+  'retry.timeout': 'Attempt timeout, s',
+  'retry.hint': 'Only transient failures are retried: rate limits, server and network errors, timeouts. The pause between attempts grows exponentially.',
+  'variants.title': 'Variants and prompt matrix',
+  'variants.perPrompt': 'Variants per prompt',
+  'variants.matrix': 'Prompt matrix',
+  'variants.matrixPlaceholder': 'Additional descriptions, one per line:\nsunset over the sea\nwinter forest in fog',
+  'variants.total': 'Requests in total: {count}, at most {concurrency} at a time.',
+  'variants.totalMax': 'Requests in total: {count} (the maximum), at most {concurrency} at a time.',
+  'variants.compare': 'Comparison',
+  'common.close': 'Close',
+  'variants.select': 'Make primary',
+  'variants.alt': 'Variant {index}',
+  'variants.noImage': 'No image',
+  'variants.compareAction': 'Compare',
+  'variants.saved': 'In history',
+  'variants.save': 'Save to history',
+  'inpaint.imageAlt': 'Image to edit',
+  'inpaint.brush': 'Brush',
+  'inpaint.eraser': 'Eraser',
+  'inpaint.size': 'Size',
+  'inpaint.feather': 'Feather',
+  'inpaint.clearMask': 'Clear mask',
+  'inpaint.placeholder': 'What should appear in the painted area, for example: \'an empty sandy path\'',
+  'inpaint.apply': 'Regenerate area',
+  'common.cancel': 'Cancel',
+  'common.abort': 'Cancel',
+  'result.alt': 'Generated panorama',
+  'result.sphere': '360° sphere',
+  'result.flat': 'Flat view',
+  'result.restoreSource': 'Restore the original source pixels',
+  'result.seamFeather': 'Seam feathering',
+  'result.download': 'Download',
+  'result.enhance': 'Enhance quality',
+  'result.fixArea': 'Fix an area',
+  'result.extendMore': 'Extend further:',
+  'result.placeholder': 'Your generated panorama will appear here.',
+  'result.placeholderHint': 'Set the options on the left and press "Create panorama".',
+  'guidance.invalid_api_key.title': 'Invalid API key',
+  'guidance.invalid_api_key.action': 'Check the key in the settings or create a new one in Google AI Studio.',
+  'guidance.quota_exceeded.title': 'Request limit exceeded',
+  'guidance.quota_exceeded.action': 'Wait a minute and try again, or check the project\'s quotas and billing plan.',
+  'guidance.safety_blocked.title': 'Request blocked by safety filters',
+  'guidance.safety_blocked.action': 'Change the description or the source image and try again.',
+  'guidance.no_image.title': 'The model returned no image',
+  'guidance.no_image.action': 'Run the generation again; if that doesn\'t help, refine the description.',
+  'guidance.network.title': 'No connection to the generation service',
+  'guidance.network.action': 'Check your internet connection, VPN or the server address.',
+  'guidance.timeout.title': 'Request timed out',
+  'guidance.timeout.action': 'Try again; for large images, reduce the canvas size.',
+  'guidance.input_too_large.title': 'Image too large',
+  'guidance.input_too_large.action': 'Reduce the size of the canvas or of the source image.',
+  'guidance.server.title': 'The generation service is temporarily unavailable',
+  'guidance.server.action': 'Try again in a few minutes.',
+  'guidance.cancelled.title': 'Generation cancelled',
+  'guidance.cancelled.action': 'Start the generation again when you are ready.',
+  'guidance.unknown.title': 'Generation failed',
+  'guidance.unknown.action': 'Try again later.',
+  'error.details': 'Details',
+  'error.code': 'Code:',
+  'history.operation.generate': 'Generation',
+  'history.operation.extend': 'Extension',
+  'history.operation.enhance': 'Enhancement',
+  'history.operation.tiled': 'Tiled',
+  'history.operation.edit': 'Edit',
+  'history.loadFailed': 'Failed to load history.',
+  'history.selectForExport': 'Select for export',
+  'history.thumbnailAlt': 'Result thumbnail',
+  'history.reuse': 'Use',
+  'history.confirmClear': 'Are you sure you want to clear the entire history? This cannot be undone.',
+  'history.title': 'History',
+  'history.search': 'Search by prompt',
+  'history.from': 'From',
+  'history.to': 'To',
+  'history.exportSelected': 'Export selected ({count})',
+  'history.exportAll': 'Export entire history',
+  'history.exportFiltered': 'Export matching entries',
+  'common.wait': 'Please wait...',
+  'history.importArchive': 'Import archive',
+  'history.importReport': 'Imported: {imported}, duplicates skipped: {duplicates}.',
+  'history.importReportFailures': 'Imported: {imported}, duplicates skipped: {duplicates}, failed: {failed}.',
+  'history.noMatches': 'Nothing found.',
+  'history.empty': 'Your generation history is empty.',
+  'history.loadMore': 'Show more',
+  'app.defaultPrompt': 'a beautiful sunny day with fluffy clouds',
+  'app.defaultInitialPrompt': 'A robot holding a red skateboard',
+  'status.retryAttempt': 'Retry attempt {attempt} of {max}...',
+  'status.retryIn': '{reason}. Retrying in {seconds} s...',
+  'status.cancelling': 'Cancelling...',
+  'history.saveFailed': 'Failed to save the result to history. The browser storage may be full.',
+  'error.processImage': 'Failed to process the image.',
+  'error.stitch': 'Failed to stitch the photos.',
+  'error.prepareExtend': 'Failed to prepare the image for extension.',
+  'error.initialPromptMissing': 'Please enter a description to generate an image.',
+  'error.providerMissing': 'Please configure the generation provider.',
+  'error.initialFailed': 'Failed to generate the source image.',
+  'error.generateMissing': 'Please upload an image, enter a description and configure the generation provider.',
+  'error.variablesMissing': 'Fill in the prompt variables.',
+  'status.variants': 'Creating variants: {done} of {total}...',
+  'status.extending': 'Extending the scene to {ratio}...',
+  'status.variantsDone': 'Variants ready: {done} of {total}.',
+  'status.success': 'Panorama created successfully!',
+  'error.unknown': 'An unknown error occurred.',
+  'status.tile': 'Tile {tile} of {total}...',
+  'error.tiledMissing': 'An ultra-wide panorama needs a result, a description and a configured provider.',
+  'error.prepareImage': 'Failed to prepare the image.',
+  'error.enhanceNoImage': 'There is no image to enhance.',
+  'status.enhancing': 'Enhancing quality...',
+  'error.imageDataUrl': 'Invalid image data URL',
+  'error.enhanceUnknown': 'An unknown error occurred while enhancing.',
+  'status.inpainting': 'Regenerating the area...',
+  'status.inpainted': 'Area regenerated.',
+  'error.inpaint': 'Failed to regenerate the area.',
+  'history.openFailed': 'Failed to open the history entry.',
+  'history.deleteFailed': 'Failed to delete the history entry.',
+  'history.clearFailed': 'Failed to clear history.',
+  'presets.imported': 'Presets imported: {count}.',
+  'presets.nothingNew': 'The file has no new presets.',
+  'presets.importFailed': 'Failed to import presets.',
+  'history.exportEmpty': 'There are no history entries to export.',
+  'history.exportFailed': 'Failed to export history.',
+  'history.importFailed': 'Failed to import the archive.',
+  'app.title': 'Nano Banana Panorama Generator',
+  'app.language': 'Interface language',
+  'app.subtitle': 'Create or upload an image and the AI will extend it to the chosen format.',
+  'app.source': '1. Source',
+  'source.upload': 'Upload',
+  'source.generate': 'Generate',
+  'source.batch': 'Batch',
+  'source.describe': 'Describe the source image',
+  'source.placeholder': 'For example: \'a cute kitten in knight armour\'',
+  'source.generating': 'Generating...',
+  'provider.label': 'Generation provider',
+  'provider.mockHint': 'Works offline: the margins are filled with a mirrored copy. Handy for demos and for testing the interface.',
+  'provider.serverUrl': 'Server address',
+  'provider.serverHint': 'Start the server with the {api} and {cors} flags for the address of this page.',
+  'provider.apiKey': 'Your Gemini API key',
+  'provider.apiKeyPlaceholder': 'Paste your API key here',
+  'provider.apiKeyHint': 'The key stays in this tab unless you save it encrypted. You can get one in',
+  'app.generating': 'Generating...',
+  'app.create': 'Create panorama',
+  'tiled.resume': 'Resume from tile {tile} of {total}',
+  'app.result': '2. Result',
+  'app.undoShortcut': 'Undo (Ctrl+Z)',
+  'app.undo': 'Undo',
+  'app.redoShortcut': 'Redo (Ctrl+Shift+Z)',
+  'app.redo': 'Redo',
+  'error.rootMissing': 'Could not find the root element to mount to',
+  'export.title': 'Export image',
+  'export.format': 'Format',
+  'export.formatUnavailable': '{format} (not supported by this browser)',
+  'export.unsupported': 'This browser cannot save images as {format}.',
+  'export.quality': 'Quality',
+  'export.resize': 'Size',
+  'export.resizeOriginal': 'Original resolution',
+  'export.resizeWidth': 'Target width',
+  'export.resizePrint': 'Print size',
+  'export.width': 'Width, px',
+  'export.printWidth': 'Print width, cm',
+  'export.dpi': 'DPI',
+  'export.background': 'Background',
+  'export.fillTransparency': 'Fill transparent areas',
+  'export.backgroundColor': 'Background colour',
+  'export.jpegBackground': 'JPEG has no transparency, so it is always filled.',
+  'export.fileName': 'File name',
+  'export.fileNameHint': 'Available fields: {fields}',
+  'export.estimate': '{size} · {width}×{height} px',
+  'export.estimating': 'Estimating the file size...',
+  'export.sizeKb': '{size} KB',
+  'export.sizeMb': '{size} MB',
+  'export.save': 'Save',
+  'export.embedMetadata': 'Embed the prompt and generation settings',
+  'export.avifMetadata': 'AVIF files are saved without metadata.',
+  'metadata.tooLarge': 'The metadata does not fit into a JPEG segment; turn off embedding or shorten the prompt.',
+  'metadata.found': 'This image contains the settings it was generated with.',
+  'metadata.details': 'Canvas {ratio}, model: {model}',
+  'metadata.unknownModel': 'not recorded',
+  'metadata.restore': 'Restore prompt and settings',
+  'metadata.dismiss': 'Ignore',
+  'status.seamRetry': 'Seam score {score} is below the threshold; generating again ({attempt} of {max})...',
+  'seam.title': 'Seam quality check',
+  'seam.autoRetry': 'Regenerate automatically while the score is below the threshold',
+  'seam.threshold': 'Minimum score (0–100)',
+  'seam.maxRetries': 'Extra attempts',
+  'seam.hint': 'After generation the border of the original image is checked for brightness jumps, colour shifts and hard edges. 100 means no visible seam.',
+  'seam.score': 'Seam score: {score}/100',
+  'seam.showHeatmap': 'Show seam heatmap',
+  'seam.flatOnly': 'The heatmap is shown in the flat view.',
+  'inspector.before': 'Before',
+  'inspector.after': 'After',
+  'inspector.compare': 'Compare',
+  'inspector.outline': 'Source outline',
+  'inspector.fit': 'Fit',
+  'inspector.zoomIn': 'Zoom in',
+  'inspector.zoomOut': 'Zoom out',
+  'inspector.fullscreen': 'Fullscreen',
+  'inspector.exitFullscreen': 'Exit fullscreen',
+  'upscale.title': 'Upscale',
+  'upscale.mode': 'Mode',
+  'upscale.mode.local': 'Local (Lanczos)',
+  'upscale.mode.tiled': 'AI by tiles',
+  'upscale.factor': 'Scale',
+  'upscale.sharpen': 'Sharpening',
+  'upscale.localHint': 'Runs in the browser without any API request and gives the same result every time.',
+  'upscale.tiledHint': 'Enhances overlapping tiles one by one and blends them, so the result can be larger than the model returns.',
+  'upscale.estimate': 'Output {width}×{height}, about {memory} of memory',
+  'upscale.requests': '{count} requests',
+  'upscale.tooLarge': 'The result would exceed {side} px per side or the memory limit.',
+  'status.upscaling': 'Upscaling {factor}×...',
+  'status.enhanceTile': 'Enhancing tile {tile} of {total}...',
+  'history.operation.upscale': 'Upscale',
+  'input.title': 'Input image',
+  'input.alpha': 'Own transparency',
+  'input.alpha.flatten': 'Flatten onto a colour',
+  'input.alpha.outpaint': 'Fill like the padding',
+  'input.background': 'Background for transparent areas',
+  'input.maxSide': 'Max side, px',
+  'input.hint': 'Files up to {size} MB, at least {min} px per side. Larger images are downscaled to the max side. Applies to images added from now on.',
+  'input.fileTooLarge': 'The file is {size} MB; the limit is {limit} MB. Save it at a lower quality or resolution and try again.',
+  'input.unsupported': '"{name}" is not a supported image. Use PNG, JPEG, WebP, GIF, BMP or AVIF.',
+  'input.heic': 'HEIC/HEIF photos cannot be decoded by the browser. Export the photo as JPEG or PNG first.',
+  'input.corrupt': '"{name}" could not be decoded. The file may be damaged or truncated.',
+  'input.tooSmall': 'The image is {width}×{height} px; each side needs at least {min} px.',
+  'input.rotated': 'rotated according to its EXIF orientation',
+  'input.downscaled': 'downscaled from {from} to {to}',
+  'input.alphaFlattened': 'transparent areas flattened onto the background colour',
+  'input.alphaOutpaint': 'transparent areas will be filled together with the padding',
+  'input.adjusted': 'Prepared for generation: {changes}.',
+  'upload.pasteHint': 'You can also paste an image or its address with Ctrl+V, or drag one in from another tab.',
+  'urlImport.label': 'Image address',
+  'urlImport.placeholder': 'https://example.com/photo.jpg',
+  'urlImport.action': 'Import',
+  'urlImport.loading': 'Loading...',
+  'urlImport.invalid': 'Enter a full http(s) address of an image.',
+  'urlImport.timeout': 'The server did not send the image in time.',
+  'urlImport.blocked': '{host} does not allow other sites to read its images (CORS), or it could not be reached. Save the image and upload the file instead.',
+  'urlImport.status': 'The server answered with HTTP {status}.',
+  'urlImport.notImage': 'The address points to "{type}", not an image.',
+  'urlImport.failed': 'Failed to import the image.',
+  'camera.open': 'Take a photo',
+  'camera.capture': 'Capture',
+  'camera.unavailable': 'Camera access needs a secure (https) page and a browser that supports it.',
+  'camera.denied': 'Access to the camera was denied. Allow it in the browser settings and try again.',
+  'camera.notFound': 'No camera was found on this device.',
+  'camera.busy': 'The camera is being used by another application.',
+  'camera.failed': 'Could not take a photo from the camera.',
+  'apiKey.profile': 'Key profile',
+  'apiKey.noProfile': '— Unsaved key —',
+  'apiKey.passphrase': 'Passphrase',
+  'apiKey.unlock': 'Unlock',
+  'apiKey.unlocked': 'Profile "{name}" unlocked.',
+  'apiKey.wrongPassphrase': 'Wrong passphrase, or the saved profile is damaged.',
+  'apiKey.noCrypto': 'Encryption needs a secure (https or localhost) page.',
+  'apiKey.saveTitle': 'Save key encrypted',
+  'apiKey.profileName': 'Profile name, e.g. personal',
+  'apiKey.saveHint': 'The key is encrypted with your passphrase (PBKDF2 + AES-GCM) and stored in this browser. The passphrase itself is not saved and cannot be recovered.',
+  'apiKey.save': 'Save profile',
+  'apiKey.saved': 'Saved as "{name}".',
+  'apiKey.confirmDelete': 'Delete the key profile "{name}"?',
+  'apiKey.validate': 'Validate key',
+  'apiKey.valid': 'The key works and has access to {model}.',
+  'apiKey.invalid': 'The key check failed: {reason}',
+  'apiKey.envPlaceholder': 'Leave empty to use the key from .env',
+  'apiKey.envFallback': 'Using GEMINI_API_KEY from .env as a development fallback.',
+  'apiKey.productionWarning': 'This production build has GEMINI_API_KEY from .env embedded in the page. Anyone who opens it can read the key and spend its quota. Remove the key from .env and rebuild before publishing.',
+};
+
+type MessageKey = keyof typeof EN_MESSAGES;
+
+const RU_MESSAGES: Record<MessageKey, string> = {
+  'aspect.wide': '16:9 — широкий',
+  'aspect.ultrawide': '21:9 — ультраширокий',
+  'aspect.panorama': '2:1 — панорама',
+  'aspect.longPanorama': '3:1 — длинная панорама',
+  'aspect.vertical': '9:16 — вертикальный',
+  'aspect.square': '1:1 — квадрат',
+  'error.imageLoad': 'Не удалось загрузить изображение',
+  'error.canvasContext': 'Не удалось получить контекст холста',
+  'error.sourceOffCanvas': 'Исходное изображение целиком за пределами холста',
+  'error.templateDataUrl': 'Неверный формат Data URL при создании шаблона',
+  'generationError.invalidApiKey': 'API-ключ недействителен или не имеет доступа к модели.',
+  'generationError.quotaExceeded': 'Превышен лимит запросов или исчерпана квота.',
+  'generationError.safetyBlocked': 'Запрос заблокирован фильтрами безопасности модели.',
+  'generationError.noImage': 'Модель не вернула изображение в ответе.',
+  'generationError.network': 'Не удалось связаться с сервисом генерации.',
+  'generationError.timeout': 'Сервис генерации не ответил вовремя.',
+  'generationError.inputTooLarge': 'Изображение слишком большое для отправки в модель.',
+  'generationError.server': 'Сервис генерации вернул внутреннюю ошибку.',
+  'generationError.cancelled': 'Генерация отменена.',
+  'generationError.rejected': 'Сервис генерации отклонил запрос.',
+  'generationError.unknown': 'Не удалось выполнить генерацию.',
+  'generationError.sizeDetail': '{size} МБ при лимите {limit} МБ',
+  'provider.gemini': 'Google Gemini',
+  'provider.mock': 'Локальный мок (без сети)',
+  'provider.automatic1111': 'Свой сервер (Automatic1111 API)',
+  'error.apiKeyMissing': 'API-ключ не предоставлен.',
+  'error.templateNoSource': 'Шаблон не содержит исходного изображения.',
+  'mock.outpaint': 'Мок-провайдер: зеркальная заливка.',
+  'mock.enhance': 'Мок-провайдер: повышение резкости.',
+  'mock.edit': 'Мок-провайдер: тонирование.',
+  'mock.inpaint': 'Мок-провайдер: размытие области.',
+  'a1111.networkDetail': '{url}: {message}. Проверьте адрес и настройки CORS (--cors-allow-origins).',
+  'a1111.emptyImages': '{url} вернул пустой список изображений.',
+  'request.timeoutDetail': 'Нет ответа за {seconds} с (попытка {attempt}).',
+  'tiled.alreadyWide': 'Изображение уже шире {width} px.',
+  'tiled.tileFailed': 'Не удалось сгенерировать плитку {tile} из {total}: {reason}',
+  'inpaint.emptyMask': 'Закрасьте область, которую нужно перерисовать.',
+  'presets.notJson': 'Файл пресетов повреждён: это не JSON.',
+  'presets.wrongFormat': 'Это не файл пресетов Nano Panorama.',
+  'presets.newerVersion': 'Файл пресетов создан более новой версией приложения ({version}).',
+  'error.transactionAborted': 'Транзакция IndexedDB прервана',
+  'error.thumbnail': 'Не удалось создать миниатюру',
+  'zip.notZip': 'Файл не является ZIP-архивом.',
+  'zip.badDirectory': 'Оглавление ZIP-архива повреждено.',
+  'zip.badLocalHeader': 'повреждён локальный заголовок',
+  'zip.truncated': 'данные обрезаны',
+  'zip.unsupportedMethod': 'неподдерживаемый метод сжатия {method}',
+  'zip.crcMismatch': 'контрольная сумма CRC32 не совпадает',
+  'bundle.noManifest': 'В архиве нет читаемого manifest.json — это не архив проекта.',
+  'bundle.badManifest': 'manifest.json повреждён.',
+  'bundle.unknownFormat': 'Неизвестный формат архива.',
+  'bundle.newerVersion': 'Архив создан более новой версией приложения (формат {version}).',
+  'bundle.entryPrompt': '«{prompt}»',
+  'bundle.entryNumber': 'Запись {index}',
+  'bundle.entryNoId': 'нет id или описания',
+  'bundle.entryNoImages': 'в архиве нет изображений записи',
+  'bundle.entryBadTemplate': 'шаблон не читается: {reason}',
+  'bundle.entryBadResult': 'результат не читается: {reason}',
+  'bundle.entryHashMismatch': 'контрольная сумма результата не совпадает',
+  'upload.preview': 'Предпросмотр',
+  'upload.click': 'Нажмите для загрузки',
+  'upload.orDrop': 'или перетащите',
+  'upload.formats': 'PNG, JPG, WEBP (рекомендуется)',
+  'upload.stitchHint': 'До {count} снимков — для склейки в панораму',
+  'upload.change': 'Выбрать другое изображение',
+  'upload.folder': 'Выбрать папку',
+  'prompt.label': 'Опишите, как расширить изображение',
+  'prompt.placeholder': 'Например: \'преврати это в эпический фэнтезийный пейзаж\'',
+  'presets.label': 'Пресеты стиля',
+  'presets.choose': 'Пресет стиля…',
+  'presets.empty': 'Пресетов нет',
+  'presets.namePlaceholder': 'Название пресета',
+  'presets.save': 'Сохранить как пресет',
+  'common.delete': 'Удалить',
+  'common.export': 'Экспорт',
+  'common.import': 'Импорт',
+  'variables.title': 'Переменные промпта',
+  'systemPrompts.outpaint': 'Расширение (плоская панорама)',
+  'systemPrompts.outpaint360': 'Расширение (сферическая 360°)',
+  'systemPrompts.enhance': 'Улучшение качества',
+  'systemPrompts.inpaint': 'Перерисовка области',
+  'systemPrompts.title': 'Системные промпты',
+  'systemPrompts.language': 'Язык промптов',
+  'systemPrompts.operation': 'Операция',
+  'systemPrompts.version': 'Версия',
+  'systemPrompts.builtIn': 'Встроенный текст',
+  'systemPrompts.versionLabel': 'Версия {index} — {date}',
+  'systemPrompts.placeholders': 'Подстановки: {names}.',
+  'systemPrompts.noPlaceholders': 'Подстановок нет.',
+  'systemPrompts.scope': 'Шаблоны применяются к Gemini; мок и Automatic1111 получают только ваш промпт.',
+  'systemPrompts.unknown': 'Неизвестные подстановки останутся как есть: {names}.',
+  'systemPrompts.missingUserPrompt': 'В шаблоне нет {userPrompt} — ваш промпт не попадёт в запрос.',
+  'systemPrompts.saveVersion': 'Сохранить версию',
+  'systemPrompts.discard': 'Отменить правки',
+  'systemPrompts.deleteVersion': 'Удалить версию',
+  'anchor.topLeft': 'Слева сверху',
+  'anchor.top': 'Сверху',
+  'anchor.topRight': 'Справа сверху',
+  'anchor.left': 'Слева',
+  'anchor.center': 'По центру',
+  'anchor.right': 'Справа',
+  'anchor.bottomLeft': 'Слева снизу',
+  'anchor.bottom': 'Снизу',
+  'anchor.bottomRight': 'Справа снизу',
+  'template.projection': 'Тип панорамы',
+  'template.flat': 'Плоская',
+  'template.sphere': 'Сферическая 360°',
+  'template.sphereHint': 'Холст 2:1 в равнопромежуточной проекции, исходный снимок — по центру. Там, где сходятся левый и правый края, цвета выравниваются, а полоса через шов перерисовывается автоматически.',
+  'template.canvas': 'Формат холста',
+  'template.custom': 'Свой размер',
+  'template.width': 'Ширина, px',
+  'template.height': 'Высота, px',
+  'template.anchor': 'Положение исходного изображения',
+  'template.manualLayout': 'Задано вручную в редакторе размещения.',
+  'placement.centerX': 'Центр X, %',
+  'placement.centerY': 'Центр Y, %',
+  'placement.width': 'Ширина, %',
+  'placement.rotation': 'Поворот, °',
+  'placement.cropLeft': 'Слева, %',
+  'placement.cropTop': 'Сверху, %',
+  'placement.cropRight': 'Справа, %',
+  'placement.cropBottom': 'Снизу, %',
+  'placement.title': 'Редактор размещения',
+  'placement.scale': 'Масштаб',
+  'placement.rotate': 'Поворот (Shift — шаг 15°)',
+  'placement.crop': 'Обрезка',
+  'placement.hint': 'Перетаскивайте изображение мышью; угловой маркер меняет масштаб, верхний — поворачивает. Центр и края прилипают к направляющим холста.',
+  'placement.reset': 'Сбросить размещение',
+  'stitch.title': 'Склейка снимков ({count})',
+  'stitch.moveLeft': 'Левее',
+  'stitch.remove': 'Убрать',
+  'stitch.moveRight': 'Правее',
+  'stitch.gap': 'Промежуток, % высоты',
+  'stitch.align': 'Совмещать перекрытия',
+  'stitch.aligned': 'Совмещено по перекрытию: {aligned} из {total}. Остальные снимки разделены промежутком, его дорисует модель.',
+  'batch.status.pending': 'В очереди',
+  'batch.status.running': 'Выполняется',
+  'batch.status.done': 'Готово',
+  'batch.status.failed': 'Ошибка',
+  'batch.status.cancelled': 'Отменено',
+  'batch.tooMany': 'В очереди может быть не больше {max} изображений; лишние файлы пропущены.',
+  'batch.archiveFailed': 'Не удалось собрать архив с результатами.',
+  'batch.hint': 'Можно выбрать папку или до {max} файлов',
+  'batch.sharedHint': 'Промпт, холст и провайдер ниже общие для всех изображений; у отдельного снимка их можно переопределить кнопкой ⚙.',
+  'batch.concurrency': 'Одновременно',
+  'batch.progress': 'Готово {done} из {total}',
+  'batch.failedCount': 'ошибок {count}',
+  'batch.runningCount': 'в работе {count}',
+  'common.resume': 'Продолжить',
+  'common.start': 'Запустить',
+  'batch.pause': 'Пауза',
+  'batch.stop': 'Остановить',
+  'batch.retry': 'Повторить неудачные',
+  'batch.archiving': 'Архивация...',
+  'batch.download': 'Скачать всё (ZIP + отчёт)',
+  'common.clear': 'Очистить',
+  'batch.providerMissing': 'Настройте провайдера генерации, чтобы запустить очередь.',
+  'batch.promptMissing': 'Введите общий промпт ниже и заполните его переменные.',
+  'batch.resultAlt': 'Результат',
+  'batch.hasOverrides': 'свои настройки',
+  'batch.overrides': 'Свои настройки',
+  'batch.removeItem': 'Убрать из очереди',
+  'batch.itemPrompt': 'Свой промпт',
+  'batch.shared': 'Как у всех',
+  'batch.canvas': 'Холст',
+  'sphere.hint': 'Перетаскивайте для обзора, колесо — масштаб',
+  'sphere.reset': 'Сбросить вид',
+  'extend.left': 'Расширить влево',
+  'extend.up': 'Расширить вверх',
+  'extend.down': 'Расширить вниз',
+  'extend.right': 'Расширить вправо',
+  'tiled.title': 'Сверхширокая панорама (по плиткам)',
+  'tiled.targetWidth': 'Итоговая ширина, px',
+  'tiled.direction': 'Направление',
+  'tiled.right': 'Вправо',
+  'tiled.left': 'Влево',
+  'tiled.both': 'В обе стороны',
+  'tiled.hint': 'Изображение наращивается перекрывающимися окнами; каждая плитка — отдельный запрос к модели.',
+  'timer.elapsed': 'Прошло: {time}',
+  'timer.timeout': 'Таймаут: {time}',
+  'retry.title': 'Повторы и таймаут',
+  'retry.attempts': 'Повторных попыток',
+  'retry.timeout': 'Таймаут попытки, с',
+  'retry.hint': 'Повторяются только временные сбои: лимит запросов, ошибки сервера и сети, таймаут. Пауза между попытками растёт экспоненциально.',
+  'variants.title': 'Варианты и матрица подсказок',
+  'variants.perPrompt': 'Вариантов на подсказку',
+  'variants.matrix': 'Матрица подсказок',
+  'variants.matrixPlaceholder': 'Дополнительные описания, по одному на строку:\nзакат над морем\nзимний лес в тумане',
+  'variants.total': 'Всего запросов: {count}, одновременно не более {concurrency}.',
+  'variants.totalMax': 'Всего запросов: {count} (максимум), одновременно не более {concurrency}.',
+  'variants.compare': 'Сравнение',
+  'common.close': 'Закрыть',
+  'variants.select': 'Сделать основным',
+  'variants.alt': 'Вариант {index}',
+  'variants.noImage': 'Нет изображения',
+  'variants.compareAction': 'Сравнить',
+  'variants.saved': 'В истории',
+  'variants.save': 'В историю',
+  'inpaint.imageAlt': 'Изображение для правки',
+  'inpaint.brush': 'Кисть',
+  'inpaint.eraser': 'Ластик',
+  'inpaint.size': 'Размер',
+  'inpaint.feather': 'Растушёвка',
+  'inpaint.clearMask': 'Очистить маску',
+  'inpaint.placeholder': 'Что должно появиться в закрашенной области, например: \'пустая песчаная дорожка\'',
+  'inpaint.apply': 'Перерисовать область',
+  'common.cancel': 'Отмена',
+  'common.abort': 'Отменить',
+  'result.alt': 'Сгенерированная панорама',
+  'result.sphere': 'Сфера 360°',
+  'result.flat': 'Развёртка',
+  'result.restoreSource': 'Вернуть оригинальные пиксели исходника',
+  'result.seamFeather': 'Растушёвка шва',
+  'result.download': 'Скачать',
+  'result.enhance': 'Улучшить качество',
+  'result.fixArea': 'Исправить область',
+  'result.extendMore': 'Расширить ещё:',
+  'result.placeholder': 'Ваша сгенерированная панорама появится здесь.',
+  'result.placeholderHint': 'Настройте параметры слева и нажмите «Создать панораму».',
+  'guidance.invalid_api_key.title': 'Недействительный API-ключ',
+  'guidance.invalid_api_key.action': 'Проверьте ключ в настройках или создайте новый в Google AI Studio.',
+  'guidance.quota_exceeded.title': 'Превышен лимит запросов',
+  'guidance.quota_exceeded.action': 'Подождите минуту и повторите попытку либо проверьте квоты и тарифный план проекта.',
+  'guidance.safety_blocked.title': 'Запрос заблокирован фильтрами безопасности',
+  'guidance.safety_blocked.action': 'Измените описание или исходное изображение и попробуйте снова.',
+  'guidance.no_image.title': 'Модель не вернула изображение',
+  'guidance.no_image.action': 'Повторите генерацию; если не помогает — уточните описание.',
+  'guidance.network.title': 'Нет связи с сервисом генерации',
+  'guidance.network.action': 'Проверьте подключение к интернету, VPN или адрес сервера.',
+  'guidance.timeout.title': 'Превышено время ожидания',
+  'guidance.timeout.action': 'Повторите попытку; для больших изображений уменьшите размер холста.',
+  'guidance.input_too_large.title': 'Изображение слишком большое',
+  'guidance.input_too_large.action': 'Уменьшите размер холста или исходного изображения.',
+  'guidance.server.title': 'Сервис генерации временно недоступен',
+  'guidance.server.action': 'Повторите попытку через несколько минут.',
+  'guidance.cancelled.title': 'Генерация отменена',
+  'guidance.cancelled.action': 'Запустите генерацию снова, когда будете готовы.',
+  'guidance.unknown.title': 'Не удалось выполнить генерацию',
+  'guidance.unknown.action': 'Повторите попытку позже.',
+  'error.details': 'Подробности',
+  'error.code': 'Код:',
+  'history.operation.generate': 'Генерация',
+  'history.operation.extend': 'Расширение',
+  'history.operation.enhance': 'Улучшение',
+  'history.operation.tiled': 'По плиткам',
+  'history.operation.edit': 'Правка',
+  'history.loadFailed': 'Не удалось загрузить историю.',
+  'history.selectForExport': 'Выбрать для экспорта',
+  'history.thumbnailAlt': 'Миниатюра результата',
+  'history.reuse': 'Использовать',
+  'history.confirmClear': 'Вы уверены, что хотите очистить всю историю? Это действие необратимо.',
+  'history.title': 'История',
+  'history.search': 'Поиск по описанию',
+  'history.from': 'С',
+  'history.to': 'По',
+  'history.exportSelected': 'Экспорт выбранных ({count})',
+  'history.exportAll': 'Экспорт всей истории',
+  'history.exportFiltered': 'Экспорт найденных записей',
+  'common.wait': 'Подождите...',
+  'history.importArchive': 'Импорт архива',
+  'history.importReport': 'Импортировано: {imported}, дубликатов пропущено: {duplicates}.',
+  'history.importReportFailures': 'Импортировано: {imported}, дубликатов пропущено: {duplicates}, с ошибками: {failed}.',
+  'history.noMatches': 'Ничего не найдено.',
+  'history.empty': 'Ваша история генераций пуста.',
+  'history.loadMore': 'Показать ещё',
+  'app.defaultPrompt': 'красивый солнечный день с пушистыми облаками',
+  'app.defaultInitialPrompt': 'Робот держит красный скейтборд',
+  'status.retryAttempt': 'Повторная попытка {attempt} из {max}...',
+  'status.retryIn': '{reason}. Повтор через {seconds} с...',
+  'status.cancelling': 'Отмена...',
+  'history.saveFailed': 'Не удалось сохранить результат в историю. Возможно, в хранилище браузера закончилось место.',
+  'error.processImage': 'Не удалось обработать изображение.',
+  'error.stitch': 'Не удалось склеить снимки.',
+  'error.prepareExtend': 'Не удалось подготовить изображение для расширения.',
+  'error.initialPromptMissing': 'Пожалуйста, введите описание для генерации изображения.',
+  'error.providerMissing': 'Пожалуйста, настройте провайдера генерации.',
+  'error.initialFailed': 'Не удалось сгенерировать исходное изображение.',
+  'error.generateMissing': 'Пожалуйста, загрузите изображение, введите описание и настройте провайдера генерации.',
+  'error.variablesMissing': 'Заполните переменные промпта.',
+  'status.variants': 'Создание вариантов: {done} из {total}...',
+  'status.extending': 'Расширение сцены до {ratio}...',
+  'status.variantsDone': 'Готово вариантов: {done} из {total}.',
+  'status.success': 'Панорама успешно создана!',
+  'error.unknown': 'Произошла неизвестная ошибка.',
+  'status.tile': 'Плитка {tile} из {total}...',
+  'error.tiledMissing': 'Для сверхширокой панорамы нужны результат, описание и настроенный провайдер.',
+  'error.prepareImage': 'Не удалось подготовить изображение.',
+  'error.enhanceNoImage': 'Нет изображения для улучшения.',
+  'status.enhancing': 'Улучшение качества...',
+  'error.imageDataUrl': 'Неверный формат Data URL изображения',
+  'error.enhanceUnknown': 'Произошла неизвестная ошибка при улучшении.',
+  'status.inpainting': 'Перерисовка области...',
+  'status.inpainted': 'Область перерисована.',
+  'error.inpaint': 'Не удалось перерисовать область.',
+  'history.openFailed': 'Не удалось открыть запись истории.',
+  'history.deleteFailed': 'Не удалось удалить запись истории.',
+  'history.clearFailed': 'Не удалось очистить историю.',
+  'presets.imported': 'Импортировано пресетов: {count}.',
+  'presets.nothingNew': 'Новых пресетов в файле нет.',
+  'presets.importFailed': 'Не удалось импортировать пресеты.',
+  'history.exportEmpty': 'В истории нет записей для экспорта.',
+  'history.exportFailed': 'Не удалось экспортировать историю.',
+  'history.importFailed': 'Не удалось импортировать архив.',
+  'app.title': 'Генератор Панорам Nano Banana',
+  'app.language': 'Язык интерфейса',
+  'app.subtitle': 'Создайте или загрузите изображение, и ИИ дорисует его до выбранного формата.',
+  'app.source': '1. Источник',
+  'source.upload': 'Загрузить',
+  'source.generate': 'Сгенерировать',
+  'source.batch': 'Пакет',
+  'source.describe': 'Опишите исходное изображение',
+  'source.placeholder': 'Например: \'милый котенок в рыцарских доспехах\'',
+  'source.generating': 'Генерируется...',
+  'provider.label': 'Провайдер генерации',
+  'provider.mockHint': 'Работает без сети: поля дорисовываются зеркальной заливкой. Подходит для демонстраций и проверки интерфейса.',
+  'provider.serverUrl': 'Адрес сервера',
+  'provider.serverHint': 'Сервер должен быть запущен с флагами {api} и {cors} для адреса этой страницы.',
+  'provider.apiKey': 'Ваш Gemini API-ключ',
+  'provider.apiKeyPlaceholder': 'Вставьте ваш API-ключ сюда',
+  'provider.apiKeyHint': 'Ключ хранится только в этой вкладке, если не сохранить его в зашифрованном виде. Его можно получить в',
+  'app.generating': 'Генерация...',
+  'app.create': 'Создать панораму',
+  'tiled.resume': 'Продолжить с плитки {tile} из {total}',
+  'app.result': '2. Результат',
+  'app.undoShortcut': 'Отменить (Ctrl+Z)',
+  'app.undo': 'Отменить',
+  'app.redoShortcut': 'Повторить (Ctrl+Shift+Z)',
+  'app.redo': 'Повторить',
+  'error.rootMissing': 'Не удалось найти корневой элемент для монтирования',
+  'export.title': 'Экспорт изображения',
+  'export.format': 'Формат',
+  'export.formatUnavailable': '{format} (не поддерживается браузером)',
+  'export.unsupported': 'Этот браузер не умеет сохранять изображения в {format}.',
+  'export.quality': 'Качество',
+  'export.resize': 'Размер',
+  'export.resizeOriginal': 'Исходное разрешение',
+  'export.resizeWidth': 'Заданная ширина',
+  'export.resizePrint': 'Размер для печати',
+  'export.width': 'Ширина, px',
+  'export.printWidth': 'Ширина отпечатка, см',
+  'export.dpi': 'DPI',
+  'export.background': 'Фон',
+  'export.fillTransparency': 'Заливать прозрачные области',
+  'export.backgroundColor': 'Цвет фона',
+  'export.jpegBackground': 'JPEG не поддерживает прозрачность, поэтому фон заливается всегда.',
+  'export.fileName': 'Имя файла',
+  'export.fileNameHint': 'Доступные поля: {fields}',
+  'export.estimate': '{size} · {width}×{height} px',
+  'export.estimating': 'Оцениваем размер файла...',
+  'export.sizeKb': '{size} КБ',
+  'export.sizeMb': '{size} МБ',
+  'export.save': 'Сохранить',
+  'export.embedMetadata': 'Записать описание и настройки генерации в файл',
+  'export.avifMetadata': 'Файлы AVIF сохраняются без метаданных.',
+  'metadata.tooLarge': 'Метаданные не помещаются в сегмент JPEG: отключите их запись или сократите описание.',
+  'metadata.found': 'В этом изображении сохранены настройки, с которыми оно было создано.',
+  'metadata.details': 'Холст {ratio}, модель: {model}',
+  'metadata.unknownModel': 'не указана',
+  'metadata.restore': 'Восстановить описание и настройки',
+  'metadata.dismiss': 'Пропустить',
+  'status.seamRetry': 'Оценка шва {score} ниже порога, генерируем заново ({attempt} из {max})...',
+  'seam.title': 'Проверка качества шва',
+  'seam.autoRetry': 'Автоматически генерировать заново, пока оценка ниже порога',
+  'seam.threshold': 'Минимальная оценка (0–100)',
+  'seam.maxRetries': 'Дополнительных попыток',
+  'seam.hint': 'После генерации граница исходного изображения проверяется на скачки яркости, сдвиг цвета и резкие края. 100 — шов не виден.',
+  'seam.score': 'Оценка шва: {score}/100',
+  'seam.showHeatmap': 'Показать тепловую карту шва',
+  'seam.flatOnly': 'Тепловая карта показывается в развёртке.',
+  'inspector.before': 'До',
+  'inspector.after': 'После',
+  'inspector.compare': 'Сравнить',
+  'inspector.outline': 'Контур исходника',
+  'inspector.fit': 'Вписать',
+  'inspector.zoomIn': 'Приблизить',
+  'inspector.zoomOut': 'Отдалить',
+  'inspector.fullscreen': 'Во весь экран',
+  'inspector.exitFullscreen': 'Выйти из полноэкранного режима',
+  'upscale.title': 'Увеличение',
+  'upscale.mode': 'Режим',
+  'upscale.mode.local': 'Локально (Ланцош)',
+  'upscale.mode.tiled': 'ИИ по плиткам',
+  'upscale.factor': 'Масштаб',
+  'upscale.sharpen': 'Резкость',
+  'upscale.localHint': 'Работает в браузере без запросов к API и всегда даёт одинаковый результат.',
+  'upscale.tiledHint': 'Улучшает перекрывающиеся плитки по одной и сшивает их, поэтому результат может быть больше, чем возвращает модель.',
+  'upscale.estimate': 'Результат {width}×{height}, около {memory} памяти',
+  'upscale.requests': 'запросов: {count}',
+  'upscale.tooLarge': 'Результат превысит {side} px по стороне или лимит памяти.',
+  'status.upscaling': 'Увеличение в {factor} раза...',
+  'status.enhanceTile': 'Улучшение плитки {tile} из {total}...',
+  'history.operation.upscale': 'Увеличение',
+  'input.title': 'Исходное изображение',
+  'input.alpha': 'Собственная прозрачность',
+  'input.alpha.flatten': 'Залить цветом',
+  'input.alpha.outpaint': 'Дорисовать как поля',
+  'input.background': 'Фон для прозрачных областей',
+  'input.maxSide': 'Макс. сторона, px',
+  'input.hint': 'Файлы до {size} МБ, не меньше {min} px по каждой стороне. Большие изображения уменьшаются до максимальной стороны. Действует для изображений, добавленных после изменения.',
+  'input.fileTooLarge': 'Файл весит {size} МБ при лимите {limit} МБ. Сохраните его с меньшим качеством или разрешением и попробуйте снова.',
+  'input.unsupported': '«{name}» — неподдерживаемое изображение. Используйте PNG, JPEG, WebP, GIF, BMP или AVIF.',
+  'input.heic': 'Браузер не умеет декодировать фото HEIC/HEIF. Сначала экспортируйте его в JPEG или PNG.',
+  'input.corrupt': 'Не удалось декодировать «{name}». Возможно, файл повреждён или обрезан.',
+  'input.tooSmall': 'Изображение {width}×{height} px; каждая сторона должна быть не меньше {min} px.',
+  'input.rotated': 'повёрнуто по EXIF-ориентации',
+  'input.downscaled': 'уменьшено с {from} до {to}',
+  'input.alphaFlattened': 'прозрачные области залиты цветом фона',
+  'input.alphaOutpaint': 'прозрачные области будут дорисованы вместе с полями',
+  'input.adjusted': 'Подготовлено к генерации: {changes}.',
+  'upload.pasteHint': 'Изображение или его адрес можно вставить через Ctrl+V или перетащить из другой вкладки.',
+  'urlImport.label': 'Адрес изображения',
+  'urlImport.placeholder': 'https://example.com/photo.jpg',
+  'urlImport.action': 'Загрузить',
+  'urlImport.loading': 'Загрузка...',
+  'urlImport.invalid': 'Введите полный http(s)-адрес изображения.',
+  'urlImport.timeout': 'Сервер не прислал изображение вовремя.',
+  'urlImport.blocked': '{host} не разрешает другим сайтам читать свои изображения (CORS) или недоступен. Сохраните изображение и загрузите файл.',
+  'urlImport.status': 'Сервер ответил HTTP {status}.',
+  'urlImport.notImage': 'По адресу находится «{type}», а не изображение.',
+  'urlImport.failed': 'Не удалось импортировать изображение.',
+  'camera.open': 'Сделать фото',
+  'camera.capture': 'Снять',
+  'camera.unavailable': 'Для доступа к камере нужна защищённая (https) страница и браузер с её поддержкой.',
+  'camera.denied': 'Доступ к камере запрещён. Разрешите его в настройках браузера и попробуйте снова.',
+  'camera.notFound': 'На устройстве не найдена камера.',
+  'camera.busy': 'Камера занята другим приложением.',
+  'camera.failed': 'Не удалось сделать снимок с камеры.',
+  'apiKey.profile': 'Профиль ключа',
+  'apiKey.noProfile': '— Несохранённый ключ —',
+  'apiKey.passphrase': 'Парольная фраза',
+  'apiKey.unlock': 'Разблокировать',
+  'apiKey.unlocked': 'Профиль «{name}» разблокирован.',
+  'apiKey.wrongPassphrase': 'Неверная парольная фраза или сохранённый профиль повреждён.',
+  'apiKey.noCrypto': 'Для шифрования нужна защищённая страница (https или localhost).',
+  'apiKey.saveTitle': 'Сохранить ключ в зашифрованном виде',
+  'apiKey.profileName': 'Имя профиля, например «личный»',
+  'apiKey.saveHint': 'Ключ шифруется вашей парольной фразой (PBKDF2 + AES-GCM) и хранится в этом браузере. Сама фраза не сохраняется, и восстановить её нельзя.',
+  'apiKey.save': 'Сохранить профиль',
+  'apiKey.saved': 'Сохранено как «{name}».',
+  'apiKey.confirmDelete': 'Удалить профиль ключа «{name}»?',
+  'apiKey.validate': 'Проверить ключ',
+  'apiKey.valid': 'Ключ работает и имеет доступ к {model}.',
+  'apiKey.invalid': 'Проверка ключа не прошла: {reason}',
+  'apiKey.envPlaceholder': 'Оставьте пустым, чтобы использовать ключ из .env',
+  'apiKey.envFallback': 'Используется GEMINI_API_KEY из .env как запасной ключ для разработки.',
+  'apiKey.productionWarning': 'В эту production-сборку встроен GEMINI_API_KEY из .env. Любой, кто откроет страницу, сможет прочитать ключ и расходовать его квоту. Уберите ключ из .env и пересоберите проект перед публикацией.',
+};
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = { en: EN_MESSAGES, ru: RU_MESSAGES };
+
+const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+/** The stored choice, otherwise the browser language; anything but Russian falls back to English. */
+const loadLocale = (key: string): Locale => {
+  try {
+    const stored = localStorage.getItem(key);
+    if (isLocale(stored)) return stored;
+  } catch (e) {
+    console.error(`Failed to read ${key} from localStorage`, e);
+  }
+  return navigator.language.toLowerCase().startsWith('ru') ? 'ru' : 'en';
+};
+
+const storeLocale = (key: string, locale: Locale) => {
+  try {
+    localStorage.setItem(key, locale);
+  } catch (e) {
+    console.error(`Failed to write ${key} to localStorage`, e);
+  }
+};
+
+// Module-level so that errors thrown outside React are translated too; the app re-renders on change.
+let activeLocale: Locale = loadLocale(LOCALE_KEY);
+
+const setActiveLocale = (locale: Locale) => {
+  activeLocale = locale;
+};
+
+const formatNumber = (value: number, options?: Intl.NumberFormatOptions): string =>
+  new Intl.NumberFormat(LOCALE_TAGS[activeLocale], options).format(value);
+
+const formatDateTime = (value: number): string =>
+  new Intl.DateTimeFormat(LOCALE_TAGS[activeLocale], { dateStyle: 'medium', timeStyle: 'short' }).format(value);
+
+/** Looks up a message in the active locale and fills its `{name}` placeholders; numbers follow the locale. */
+const t = (key: MessageKey, params?: Record<string, string | number>): string => {
+  const text = MESSAGES[activeLocale][key];
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(value) : value;
+  });
+};
+
 // --- UTILS ---
 
+/** Where the source was drawn on the template, as fractions of the canvas size. */
+interface SourcePlacement {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 interface FileConversionResult {
   base64: string;
   mimeType: string;
+  placement: SourcePlacement;
+}
+
+type TemplateAnchor =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+type ExtendDirection = 'left' | 'right' | 'up' | 'down';
+
+type PanoramaProjection = 'flat' | 'equirectangular';
+
+/** Source layer placed by hand in the placement editor; all sizes are fractions. */
+interface SourceLayout {
+  /** Centre of the layer relative to the canvas. */
+  centerX: number;
+  centerY: number;
+  /** Width of the cropped layer relative to the canvas width; height follows its aspect ratio. */
+  width: number;
+  /** Clockwise rotation in degrees. */
+  rotation: number;
+  /** Share of the source trimmed from each side. */
+  crop: { left: number; top: number; right: number; bottom: number };
+}
+
+interface TemplateOptions {
+  width: number;
+  height: number;
+  anchor: TemplateAnchor;
+  projection: PanoramaProjection;
+  /** Manual placement; overrides `anchor` and the fit-to-canvas scaling on flat templates. */
+  layout?: SourceLayout;
+  /** How many photos were stitched into the source; with more than one the model also fills the gaps between them. */
+  sourceCount?: number;
+}
+
+interface StitchOptions {
+  /** Empty space left between neighbouring photos, as a fraction of the strip height. */
+  gap: number;
+  /** Look for overlaps between neighbours and merge them instead of leaving a gap. */
+  align: boolean;
+}
+
+interface AspectRatioPreset {
+  id: string;
+  labelKey: MessageKey;
+  width: number;
+  height: number;
+}
+
+const ASPECT_RATIO_PRESETS: AspectRatioPreset[] = [
+  { id: '16:9', labelKey: 'aspect.wide', width: 1280, height: 720 },
+  { id: '21:9', labelKey: 'aspect.ultrawide', width: 1680, height: 720 },
+  { id: '2:1', labelKey: 'aspect.panorama', width: 1440, height: 720 },
+  { id: '3:1', labelKey: 'aspect.longPanorama', width: 2160, height: 720 },
+  { id: '9:16', labelKey: 'aspect.vertical', width: 720, height: 1280 },
+  { id: '1:1', labelKey: 'aspect.square', width: 1024, height: 1024 },
+];
+
+const TEMPLATE_ANCHORS: TemplateAnchor[] = [
+  'top-left', 'top', 'top-right',
+  'left', 'center', 'right',
+  'bottom-left', 'bottom', 'bottom-right',
+];
+
+const DEFAULT_TEMPLATE_OPTIONS: TemplateOptions = { width: 1280, height: 720, anchor: 'center', projection: 'flat' };
+const EQUIRECTANGULAR_TEMPLATE_OPTIONS: TemplateOptions = { width: 2048, height: 1024, anchor: 'center', projection: 'equirectangular' };
+// Assumed horizontal field of view of an ordinary photo placed into a 360° template.
+const EQUIRECT_SOURCE_FOV_DEGREES = 90;
+// Width of the band on each side of the wrap seam that absorbs the colour correction.
+const SEAM_BLEND_RATIO = 0.08;
+// Width of the strip across the wrap seam that the model redraws.
+const SEAM_REPAINT_RATIO = 0.06;
+
+const MIN_TEMPLATE_SIDE = 256;
+const MAX_TEMPLATE_SIDE = 4096;
+// Longest side of a template built by "Extend again"; larger canvases gain nothing from the model.
+const EXTEND_MAX_SIDE = 2048;
+// How much of the current result's size is added in the chosen direction.
+const EXTEND_FACTOR = 0.5;
+
+const clampTemplateSide = (value: number): number =>
+  Math.min(MAX_TEMPLATE_SIDE, Math.max(MIN_TEMPLATE_SIDE, Math.round(value)));
+
+const greatestCommonDivisor = (a: number, b: number): number => (b === 0 ? a : greatestCommonDivisor(b, a % b));
+
+/**
+ * Formats a canvas size as a human-readable ratio: "21:9" for presets,
+ * "2.35:1" for custom sizes that don't reduce to small integers.
+ */
+const formatAspectRatio = (width: number, height: number): string => {
+  const preset = ASPECT_RATIO_PRESETS.find(p => p.width * height === p.height * width);
+  if (preset) return preset.id;
+  const divisor = greatestCommonDivisor(width, height);
+  if (width / divisor <= 32 && height / divisor <= 32) {
+    return `${width / divisor}:${height / divisor}`;
+  }
+  return width >= height
+    ? `${(width / height).toFixed(2)}:1`
+    : `1:${(height / width).toFixed(2)}`;
+};
+
+/**
+ * Computes the top-left offset of a `drawWidth`×`drawHeight` box anchored inside the canvas.
+ */
+const getAnchorOffset = (
+  anchor: TemplateAnchor,
+  canvasWidth: number,
+  canvasHeight: number,
+  drawWidth: number,
+  drawHeight: number
+): { x: number; y: number } => {
+  const freeX = canvasWidth - drawWidth;
+  const freeY = canvasHeight - drawHeight;
+  const x = anchor.endsWith('left') ? 0 : anchor.endsWith('right') ? freeX : freeX / 2;
+  const y = anchor.startsWith('top') ? 0 : anchor.startsWith('bottom') ? freeY : freeY / 2;
+  return { x, y };
+};
+
+// Smallest share of the source that cropping may leave on each axis.
+const MIN_LAYOUT_CROP_REMAINDER = 0.1;
+const MIN_LAYOUT_WIDTH = 0.05;
+const MAX_LAYOUT_WIDTH = 4;
+
+/**
+ * Size of the source on the template when it is placed automatically: fitted to the canvas,
+ * or a 90° slice of the sphere for equirectangular templates.
+ */
+const fitSourceSize = (
+  projection: PanoramaProjection,
+  canvasWidth: number,
+  canvasHeight: number,
+  imageWidth: number,
+  imageHeight: number
+): { width: number; height: number } => {
+  const imageAspectRatio = imageWidth / imageHeight;
+  if (projection === 'equirectangular') {
+    // A regular photo covers only a slice of the full 360° sphere.
+    const width = canvasWidth * (EQUIRECT_SOURCE_FOV_DEGREES / 360);
+    const height = width / imageAspectRatio;
+    return height > canvasHeight
+      ? { width: canvasHeight * imageAspectRatio, height: canvasHeight }
+      : { width, height };
+  }
+  return imageAspectRatio > canvasWidth / canvasHeight
+    ? { width: canvasWidth, height: canvasWidth / imageAspectRatio }
+    : { width: canvasHeight * imageAspectRatio, height: canvasHeight };
+};
+
+/** The layout that reproduces the automatic anchored placement; the editor starts from it. */
+const getDefaultLayout = (options: TemplateOptions, imageWidth: number, imageHeight: number): SourceLayout => {
+  const size = fitSourceSize('flat', options.width, options.height, imageWidth, imageHeight);
+  const offset = getAnchorOffset(options.anchor, options.width, options.height, size.width, size.height);
+  return {
+    centerX: (offset.x + size.width / 2) / options.width,
+    centerY: (offset.y + size.height / 2) / options.height,
+    width: size.width / options.width,
+    rotation: 0,
+    crop: { left: 0, top: 0, right: 0, bottom: 0 },
+  };
+};
+
+/**
+ * Resolves a layout into pixels: the source rectangle to copy, the drawn size, the centre
+ * and the axis-aligned bounds of the rotated layer.
+ */
+const getLayoutGeometry = (
+  layout: SourceLayout,
+  canvasWidth: number,
+  canvasHeight: number,
+  imageWidth: number,
+  imageHeight: number
+) => {
+  const { crop } = layout;
+  const sx = crop.left * imageWidth;
+  const sy = crop.top * imageHeight;
+  const sw = Math.max(1, imageWidth * (1 - crop.left - crop.right));
+  const sh = Math.max(1, imageHeight * (1 - crop.top - crop.bottom));
+  const drawWidth = layout.width * canvasWidth;
+  const drawHeight = drawWidth * sh / sw;
+  const angle = layout.rotation * Math.PI / 180;
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  return {
+    sx, sy, sw, sh,
+    drawWidth,
+    drawHeight,
+    centerX: layout.centerX * canvasWidth,
+    centerY: layout.centerY * canvasHeight,
+    angle,
+    boundsWidth: drawWidth * cos + drawHeight * sin,
+    boundsHeight: drawWidth * sin + drawHeight * cos,
+  };
+};
+
+/** The anchor closest to a hand-placed layer, so the prompt can still say where the source sits. */
+const getLayoutAnchor = (layout: SourceLayout): TemplateAnchor => {
+  const column = layout.centerX < 1 / 3 ? 'left' : layout.centerX > 2 / 3 ? 'right' : '';
+  const row = layout.centerY < 1 / 3 ? 'top' : layout.centerY > 2 / 3 ? 'bottom' : '';
+  if (row && column) return `${row}-${column}` as TemplateAnchor;
+  return (row || column || 'center') as TemplateAnchor;
+};
+
+/**
+ * Builds template options for "Extend again": the canvas grows by EXTEND_FACTOR in the
+ * chosen direction and the current image is anchored to the opposite edge.
+ */
+const getExtendTemplateOptions = (
+  imageWidth: number,
+  imageHeight: number,
+  direction: ExtendDirection
+): TemplateOptions => {
+  const horizontal = direction === 'left' || direction === 'right';
+  let width = horizontal ? imageWidth * (1 + EXTEND_FACTOR) : imageWidth;
+  let height = horizontal ? imageHeight : imageHeight * (1 + EXTEND_FACTOR);
+  const scale = Math.min(1, EXTEND_MAX_SIDE / Math.max(width, height));
+  width = clampTemplateSide(width * scale);
+  height = clampTemplateSide(height * scale);
+  const anchorByDirection: Record<ExtendDirection, TemplateAnchor> = {
+    left: 'right',
+    right: 'left',
+    up: 'bottom',
+    down: 'top',
+  };
+  return { width, height, anchor: anchorByDirection[direction], projection: 'flat' };
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(t('error.imageLoad')));
+    img.src = src;
+  });
+};
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const res = await fetch(dataUrl);
+  return res.blob();
+};
+
+const dataUrlToFile = async (dataUrl: string, fileName: string): Promise<File> => {
+  const blob = await dataUrlToBlob(dataUrl);
+  return new File([blob], fileName, { type: blob.type || 'image/png' });
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const readFileEntry = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+const readDirectoryEntries = async (entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = entry.createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries returns the listing in chunks until it yields an empty one.
+  for (;;) {
+    const chunk = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (chunk.length === 0) return entries;
+    entries.push(...chunk);
+  }
+};
+
+/**
+ * Collects the files from a drop, descending into dropped folders. Folder contents are
+ * sorted by name so numbered shots keep their order.
+ */
+const readDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  // Entries must be taken synchronously: the DataTransfer is emptied once the event returns.
+  const entries = Array.from(dataTransfer.items ?? [])
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) return Array.from(dataTransfer.files ?? []);
+  const files: File[] = [];
+  const walk = async (entry: FileSystemEntry) => {
+    if (entry.isFile) {
+      files.push(await readFileEntry(entry as FileSystemFileEntry));
+    } else if (entry.isDirectory) {
+      const children = await readDirectoryEntries(entry as FileSystemDirectoryEntry);
+      children.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+      for (const child of children) await walk(child);
+    }
+  };
+  for (const entry of entries) await walk(entry);
+  return files;
+};
+
+/**
+ * Address of an image dragged in from another tab. The dragged <img> wins over the link
+ * list, which holds the surrounding link's target when the image sits inside one.
+ */
+const getDroppedImageUrl = (dataTransfer: DataTransfer): string | null => {
+  const html = dataTransfer.getData('text/html');
+  const src = html ? new DOMParser().parseFromString(html, 'text/html').querySelector('img')?.getAttribute('src') : null;
+  const link = dataTransfer.getData('text/uri-list').split(/\r?\n/).find(line => line && !line.startsWith('#'));
+  return src || link || null;
+};
+
+const URL_IMPORT_TIMEOUT_MS = 30000;
+
+/**
+ * Downloads an image for use as the source. Only servers that allow cross-origin reads can
+ * be used: the pixels have to stay readable for templates and export, so there is no
+ * no-cors fallback that would hand back an opaque response.
+ */
+const fetchImageFile = async (address: string): Promise<File> => {
+  let url: URL;
+  try {
+    url = new URL(address.trim());
+  } catch {
+    throw new Error(t('urlImport.invalid'));
+  }
+  if (!['http:', 'https:', 'data:', 'blob:'].includes(url.protocol)) {
+    throw new Error(t('urlImport.invalid'));
+  }
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), URL_IMPORT_TIMEOUT_MS);
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url.href, { mode: 'cors', credentials: 'omit', signal: controller.signal });
+    } catch (err) {
+      if (controller.signal.aborted) throw new Error(t('urlImport.timeout'));
+      // fetch does not say why; for a host that exists it is nearly always a missing CORS header.
+      console.error(`Failed to fetch ${url.href}`, err);
+      throw new Error(t('urlImport.blocked', { host: url.host || url.protocol }));
+    }
+    if (!response.ok) {
+      throw new Error(t('urlImport.status', { status: response.status }));
+    }
+    const type = response.headers.get('content-type')?.split(';')[0].trim() ?? '';
+    // Some hosts label every download as a byte stream; the input pipeline sniffs those.
+    if (type && !type.startsWith('image/') && type !== 'application/octet-stream') {
+      throw new Error(t('urlImport.notImage', { type }));
+    }
+    const length = Number(response.headers.get('content-length'));
+    if (length > MAX_SOURCE_FILE_MB * 1024 * 1024) {
+      throw new Error(t('input.fileTooLarge', { size: Math.round(length / 1024 / 1024), limit: MAX_SOURCE_FILE_MB }));
+    }
+    const blob = await response.blob();
+    const isNamed = url.protocol === 'http:' || url.protocol === 'https:';
+    const name = (isNamed && url.pathname.split('/').pop()) || 'image';
+    return new File([blob], name, { type: blob.type || type });
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/** What to do with transparency the uploaded image has of its own. */
+type SourceAlphaMode = 'flatten' | 'outpaint';
+
+interface InputSettings {
+  /** `flatten` puts it on `background`; `outpaint` leaves it transparent, so the model fills it like the padding. */
+  alpha: SourceAlphaMode;
+  background: string;
+  /** Longer side of the source; larger images are downscaled to it. */
+  maxSide: number;
+}
+
+const DEFAULT_INPUT_SETTINGS: InputSettings = { alpha: 'flatten', background: '#ffffff', maxSide: 4096 };
+const MAX_SOURCE_FILE_MB = 50;
+// Bounds of the maxSide setting; the template is at most MAX_TEMPLATE_SIDE anyway, stitching wants more.
+const MIN_SOURCE_MAX_SIDE = 512;
+const MAX_SOURCE_MAX_SIDE = 8192;
+// Below this the model has next to nothing to continue.
+const MIN_SOURCE_SIDE = 32;
+
+type SourceFormat = 'png' | 'jpeg' | 'webp' | 'gif' | 'bmp' | 'avif' | 'heic';
+
+const hasAscii = (bytes: Uint8Array, offset: number, text: string): boolean =>
+  Array.from(text).every((char, i) => bytes[offset + i] === char.charCodeAt(0));
+
+/** Identifies the file by its signature; the extension and MIME type of a file are often wrong. */
+const detectSourceFormat = (bytes: Uint8Array): SourceFormat | null => {
+  if (bytes[0] === 0x89 && hasAscii(bytes, 1, 'PNG')) return 'png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (hasAscii(bytes, 0, 'RIFF') && hasAscii(bytes, 8, 'WEBP')) return 'webp';
+  if (hasAscii(bytes, 0, 'GIF8')) return 'gif';
+  if (hasAscii(bytes, 0, 'BM')) return 'bmp';
+  if (hasAscii(bytes, 4, 'ftyp')) {
+    const brand = String.fromCharCode(...bytes.subarray(8, 12));
+    if (brand === 'avif' || brand === 'avis') return 'avif';
+    if (['heic', 'heix', 'hevc', 'mif1', 'msf1'].includes(brand)) return 'heic';
+  }
+  return null;
+};
+
+/** Orientation tag (1–8) of a TIFF structure such as an Exif block, or 1 if there is none. */
+const readTiffOrientation = (view: DataView, start: number): number => {
+  if (start + 8 > view.byteLength) return 1;
+  const little = view.getUint16(start) === 0x4949;
+  const ifd = start + view.getUint32(start + 4, little);
+  if (ifd + 2 > view.byteLength) return 1;
+  const count = view.getUint16(ifd, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    if (view.getUint16(entry, little) === 0x0112) {
+      const value = view.getUint16(entry + 8, little);
+      return value >= 1 && value <= 8 ? value : 1;
+    }
+  }
+  return 1;
+};
+
+/** Finds the Exif block in a JPEG APP1 segment, a PNG eXIf chunk or a WebP EXIF chunk. */
+const readExifOrientation = (bytes: Uint8Array, format: SourceFormat): number => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (format === 'jpeg') {
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      // Start of scan: the metadata segments are all behind us.
+      if (marker === 0xda) break;
+      const length = view.getUint16(offset + 2);
+      if (marker === 0xe1 && hasAscii(bytes, offset + 4, 'Exif')) return readTiffOrientation(view, offset + 10);
+      offset += 2 + length;
+    }
+  } else if (format === 'png') {
+    let offset = 8;
+    while (offset + 8 <= bytes.length) {
+      const length = view.getUint32(offset);
+      if (hasAscii(bytes, offset + 4, 'eXIf')) return readTiffOrientation(view, offset + 8);
+      if (hasAscii(bytes, offset + 4, 'IDAT')) break;
+      offset += 12 + length;
+    }
+  } else if (format === 'webp') {
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+      const length = view.getUint32(offset + 4, true);
+      if (hasAscii(bytes, offset, 'EXIF')) {
+        // Some writers keep the JPEG "Exif\0\0" prefix in the chunk.
+        const start = hasAscii(bytes, offset + 8, 'Exif') ? offset + 14 : offset + 8;
+        return readTiffOrientation(view, start);
+      }
+      offset += 8 + length + (length % 2);
+    }
+  }
+  return 1;
+};
+
+// Browsers that know `image-orientation` default it to from-image and rotate while decoding;
+// only older ones hand us the pixels as stored.
+const BROWSER_APPLIES_ORIENTATION = typeof CSS !== 'undefined' && CSS.supports('image-orientation', 'from-image');
+
+/** Maps stored pixels to the upright image for Exif orientations 2–8, drawn at `width`×`height` upright. */
+const setOrientationTransform = (ctx: CanvasRenderingContext2D, orientation: number, width: number, height: number) => {
+  switch (orientation) {
+    case 2: ctx.setTransform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.setTransform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.setTransform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.setTransform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.setTransform(0, 1, -1, 0, width, 0); break;
+    case 7: ctx.setTransform(0, -1, -1, 0, width, height); break;
+    case 8: ctx.setTransform(0, -1, 1, 0, 0, height); break;
+  }
+};
+
+interface PreparedSource {
+  /** The upload itself when nothing had to change, otherwise a PNG with the changes applied. */
+  file: File;
+  /** Human-readable list of what was changed, for the notice under the uploader. */
+  adjustments: string[];
 }
 
 /**
- * Creates a 16:9 canvas, places the uploaded image in the center (scaled to fit),
- * and returns the result as a base64 PNG string.
+ * Validates an upload and normalises it before it reaches the template: rejects unknown,
+ * corrupt, tiny and oversized files with a message that says why, applies the Exif
+ * orientation, downscales to `settings.maxSide` and deals with the image's own alpha.
+ */
+const prepareSourceImage = async (file: File, settings: InputSettings = DEFAULT_INPUT_SETTINGS): Promise<PreparedSource> => {
+  if (file.size > MAX_SOURCE_FILE_MB * 1024 * 1024) {
+    throw new Error(t('input.fileTooLarge', { size: Math.round(file.size / 1024 / 1024), limit: MAX_SOURCE_FILE_MB }));
+  }
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const format = detectSourceFormat(bytes);
+  if (format === 'heic') {
+    throw new Error(t('input.heic'));
+  }
+  if (!format) {
+    throw new Error(t('input.unsupported', { name: file.name }));
+  }
+  const url = URL.createObjectURL(file);
+  let img: HTMLImageElement;
+  try {
+    img = await loadImage(url);
+  } catch {
+    throw new Error(t('input.corrupt', { name: file.name }));
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+  const orientation = BROWSER_APPLIES_ORIENTATION ? 1 : readExifOrientation(bytes, format);
+  const swapsAxes = orientation >= 5;
+  const width = swapsAxes ? img.naturalHeight : img.naturalWidth;
+  const height = swapsAxes ? img.naturalWidth : img.naturalHeight;
+  if (width === 0 || height === 0) {
+    throw new Error(t('input.corrupt', { name: file.name }));
+  }
+  if (Math.min(width, height) < MIN_SOURCE_SIDE) {
+    throw new Error(t('input.tooSmall', { width, height, min: MIN_SOURCE_SIDE }));
+  }
+  const scale = Math.min(1, settings.maxSide / Math.max(width, height));
+  const targetWidth = Math.max(1, Math.round(width * scale));
+  const targetHeight = Math.max(1, Math.round(height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = targetWidth;
+  canvas.height = targetHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error(t('error.canvasContext'));
+  }
+  setOrientationTransform(ctx, orientation, targetWidth, targetHeight);
+  ctx.drawImage(img, 0, 0, swapsAxes ? targetHeight : targetWidth, swapsAxes ? targetWidth : targetHeight);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+  const adjustments: string[] = [];
+  if (orientation > 1) adjustments.push(t('input.rotated'));
+  if (scale < 1) adjustments.push(t('input.downscaled', { from: `${width}×${height}`, to: `${targetWidth}×${targetHeight}` }));
+  // JPEG has no alpha channel, so only the other formats are worth a scan.
+  let hasAlpha = false;
+  if (format !== 'jpeg') {
+    const data = ctx.getImageData(0, 0, targetWidth, targetHeight).data;
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] < 255) {
+        hasAlpha = true;
+        break;
+      }
+    }
+  }
+  if (hasAlpha && settings.alpha === 'flatten') {
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = settings.background;
+    ctx.fillRect(0, 0, targetWidth, targetHeight);
+    ctx.globalCompositeOperation = 'source-over';
+    adjustments.push(t('input.alphaFlattened'));
+  } else if (hasAlpha) {
+    adjustments.push(t('input.alphaOutpaint'));
+  }
+
+  // Transparency left for the model needs no new pixels either.
+  const isChanged = orientation > 1 || scale < 1 || (hasAlpha && settings.alpha === 'flatten');
+  if (!isChanged) return { file, adjustments };
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) {
+    throw new Error(t('error.processImage'));
+  }
+  const baseName = file.name.replace(/\.[^.]+$/, '') || 'image';
+  return { file: new File([blob], `${baseName}.png`, { type: 'image/png' }), adjustments };
+};
+
+/**
+ * Creates a canvas of the requested size, places the uploaded image at the requested
+ * anchor (scaled to fit) or by its manual layout, and returns the result as a base64 PNG string.
  */
-const createImageTemplate = (file: File): Promise<FileConversionResult> => {
+const createImageTemplate = (
+  file: Blob,
+  options: TemplateOptions = DEFAULT_TEMPLATE_OPTIONS
+): Promise<FileConversionResult> => {
   return new Promise((resolve, reject) => {
     const img = new Image();
     img.src = URL.createObjectURL(file);
@@ -32,408 +1664,6400 @@ const createImageTemplate = (file: File): Promise<FileConversionResult> => {
       const canvas = document.createElement('canvas');
       const ctx = canvas.getContext('2d');
       if (!ctx) {
-        return reject(new Error('Не удалось получить контекст холста'));
+        return reject(new Error(t('error.canvasContext')));
       }
-      const TARGET_WIDTH = 1280;
-      const TARGET_HEIGHT = 720;
-      const TARGET_ASPECT_RATIO = TARGET_WIDTH / TARGET_HEIGHT;
+      const TARGET_WIDTH = clampTemplateSide(options.width);
+      const TARGET_HEIGHT = clampTemplateSide(options.height);
       canvas.width = TARGET_WIDTH;
       canvas.height = TARGET_HEIGHT;
-      const originalWidth = img.width;
-      const originalHeight = img.height;
-      const originalAspectRatio = originalWidth / originalHeight;
-      let drawWidth = originalWidth;
-      let drawHeight = originalHeight;
-      if (originalAspectRatio > TARGET_ASPECT_RATIO) {
-        drawWidth = TARGET_WIDTH;
-        drawHeight = TARGET_WIDTH / originalAspectRatio;
+      let placement: SourcePlacement;
+      if (options.layout && options.projection === 'flat') {
+        const geometry = getLayoutGeometry(options.layout, TARGET_WIDTH, TARGET_HEIGHT, img.width, img.height);
+        ctx.translate(geometry.centerX, geometry.centerY);
+        ctx.rotate(geometry.angle);
+        ctx.drawImage(
+          img,
+          geometry.sx, geometry.sy, geometry.sw, geometry.sh,
+          -geometry.drawWidth / 2, -geometry.drawHeight / 2, geometry.drawWidth, geometry.drawHeight
+        );
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        // Recomposition works on rectangles, so a rotated layer is described by its bounds.
+        const left = Math.max(0, geometry.centerX - geometry.boundsWidth / 2);
+        const top = Math.max(0, geometry.centerY - geometry.boundsHeight / 2);
+        const right = Math.min(TARGET_WIDTH, geometry.centerX + geometry.boundsWidth / 2);
+        const bottom = Math.min(TARGET_HEIGHT, geometry.centerY + geometry.boundsHeight / 2);
+        if (right - left < 1 || bottom - top < 1) {
+          return reject(new Error(t('error.sourceOffCanvas')));
+        }
+        placement = {
+          x: left / TARGET_WIDTH,
+          y: top / TARGET_HEIGHT,
+          width: (right - left) / TARGET_WIDTH,
+          height: (bottom - top) / TARGET_HEIGHT,
+        };
       } else {
-        drawHeight = TARGET_HEIGHT;
-        drawWidth = TARGET_HEIGHT * originalAspectRatio;
+        const { width: drawWidth, height: drawHeight } = fitSourceSize(options.projection, TARGET_WIDTH, TARGET_HEIGHT, img.width, img.height);
+        const anchor = options.projection === 'equirectangular' ? 'center' : options.anchor;
+        const { x: offsetX, y: offsetY } = getAnchorOffset(anchor, TARGET_WIDTH, TARGET_HEIGHT, drawWidth, drawHeight);
+        ctx.drawImage(img, offsetX, offsetY, drawWidth, drawHeight);
+        placement = {
+          x: offsetX / TARGET_WIDTH,
+          y: offsetY / TARGET_HEIGHT,
+          width: drawWidth / TARGET_WIDTH,
+          height: drawHeight / TARGET_HEIGHT,
+        };
       }
-      const offsetX = (TARGET_WIDTH - drawWidth) / 2;
-      const offsetY = (TARGET_HEIGHT - drawHeight) / 2;
-      ctx.drawImage(img, offsetX, offsetY, drawWidth, drawHeight);
       const dataUrl = canvas.toDataURL('image/png');
       const parts = dataUrl.split(',');
       if (parts.length !== 2) {
-        return reject(new Error('Неверный формат Data URL при создании шаблона'));
+        return reject(new Error(t('error.templateDataUrl')));
       }
-      resolve({ base64: parts[1], mimeType: 'image/png' });
+      resolve({ base64: parts[1], mimeType: 'image/png', placement });
     };
-    img.onerror = (error) => {
+    img.onerror = () => {
       URL.revokeObjectURL(img.src);
-      reject(error);
+      reject(new Error(t('error.imageLoad')));
     };
   });
 };
 
-// --- SERVICES ---
+const MAX_STITCH_SOURCES = 5;
+const DEFAULT_STITCH_OPTIONS: StitchOptions = { gap: 0.25, align: true };
+// Stitched strips are an intermediate source; the template they go into is much smaller.
+const MAX_STRIP_HEIGHT = 2048;
+const MAX_STRIP_SIDE = 8192;
+// Overlap search runs on small gradient maps; these bound it relative to the narrower photo.
+const ALIGN_SAMPLE_HEIGHT = 96;
+const ALIGN_MIN_OVERLAP = 0.1;
+const ALIGN_MAX_OVERLAP = 0.6;
+const ALIGN_MAX_SHIFT = 0.1;
+// Correlation below this is treated as "no overlap": the photos get a gap instead.
+const ALIGN_MIN_SCORE = 0.6;
 
-interface PanoramaResult {
-  imageUrl: string | null;
-  text: string | null;
+interface GradientMap {
+  data: Float32Array;
+  width: number;
+  height: number;
 }
 
-const generateSourceImage = async (prompt: string, apiKey: string): Promise<string> => {
-  if (!apiKey) {
-    throw new Error("API ключ не предоставлен.");
+/**
+ * Downscales an image to a greyscale gradient-magnitude map. Edges survive exposure
+ * differences between handheld shots far better than raw brightness does.
+ */
+const getGradientMap = (img: HTMLImageElement, height: number): GradientMap => {
+  const width = Math.max(2, Math.round(img.naturalWidth * height / img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error(t('error.canvasContext'));
   }
-  const ai = new GoogleGenAI({ apiKey: apiKey });
-  try {
-    const response = await ai.models.generateImages({
-        model: 'imagen-4.0-generate-001',
-        prompt: prompt,
-        config: {
-          numberOfImages: 1,
-          outputMimeType: 'image/png',
-          aspectRatio: '1:1', // A square image is a good starting point to fit into the 16:9 canvas
-        },
-    });
+  ctx.drawImage(img, 0, 0, width, height);
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2];
+  }
+  const data = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const right = x + 1 < width ? gray[i + 1] : gray[i];
+      const below = y + 1 < height ? gray[i + width] : gray[i];
+      data[i] = Math.abs(right - gray[i]) + Math.abs(below - gray[i]);
+    }
+  }
+  return { data, width, height };
+};
 
-    if (!response.generatedImages || response.generatedImages.length === 0 || !response.generatedImages[0].image.imageBytes) {
-        throw new Error("Не удалось сгенерировать изображение. Модель не вернула данные изображения.");
+/**
+ * Searches for the overlap between the right edge of `left` and the left edge of `right`
+ * by correlating their gradient maps. Returns the overlap width and the vertical shift of
+ * `right`, both in units of the photo height, or null when nothing matches well enough.
+ */
+const findOverlap = (left: GradientMap, right: GradientMap): { overlap: number; shift: number } | null => {
+  const height = left.height;
+  const narrower = Math.min(left.width, right.width);
+  const minOverlap = Math.max(4, Math.round(narrower * ALIGN_MIN_OVERLAP));
+  const maxOverlap = Math.round(narrower * ALIGN_MAX_OVERLAP);
+  const maxShift = Math.round(height * ALIGN_MAX_SHIFT);
+  let best: { overlap: number; shift: number } | null = null;
+  let bestScore = ALIGN_MIN_SCORE;
+  for (let overlap = minOverlap; overlap <= maxOverlap; overlap++) {
+    for (let shift = -maxShift; shift <= maxShift; shift++) {
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0, count = 0;
+      for (let y = Math.max(0, shift); y < Math.min(height, height + shift); y++) {
+        const rowA = y * left.width + left.width - overlap;
+        const rowB = (y - shift) * right.width;
+        for (let x = 0; x < overlap; x++) {
+          const a = left.data[rowA + x];
+          const b = right.data[rowB + x];
+          sumA += a;
+          sumB += b;
+          sumAA += a * a;
+          sumBB += b * b;
+          sumAB += a * b;
+          count++;
+        }
+      }
+      const varianceA = sumAA - sumA * sumA / count;
+      const varianceB = sumBB - sumB * sumB / count;
+      if (varianceA <= 0 || varianceB <= 0) continue;
+      const score = (sumAB - sumA * sumB / count) / Math.sqrt(varianceA * varianceB);
+      if (score > bestScore) {
+        bestScore = score;
+        best = { overlap, shift };
+      }
     }
-    
-    return response.generatedImages[0].image.imageBytes; // This is a base64 string
+  }
+  return best && { overlap: best.overlap / height, shift: best.shift / height };
+};
 
-  } catch (error) {
-    console.error("Ошибка при вызове Gemini API для генерации изображения:", error);
-    if (error instanceof Error && (error.message.includes('API_KEY') || error.message.includes('permission denied'))) {
-        throw new Error("Произошла ошибка конфигурации. Проверьте ваш API ключ.");
+/**
+ * Lays several photos out left to right on one transparent strip at a common height.
+ * Neighbours that overlap are aligned and cross-faded; the rest are separated by a gap
+ * that the model fills along with the rest of the template.
+ */
+const createStitchedStrip = async (
+  files: Blob[],
+  options: StitchOptions
+): Promise<{ file: File; alignedPairs: number }> => {
+  const images: HTMLImageElement[] = [];
+  for (const file of files) {
+    const url = URL.createObjectURL(file);
+    try {
+      images.push(await loadImage(url));
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+  const maps = options.align ? images.map(img => getGradientMap(img, ALIGN_SAMPLE_HEIGHT)) : [];
+  // Positions and widths are in units of the common height until the final scale is known.
+  const aspects = images.map(img => img.naturalWidth / img.naturalHeight);
+  const positions: { x: number; y: number; overlap: number }[] = [];
+  let alignedPairs = 0;
+  images.forEach((_, index) => {
+    if (index === 0) {
+      positions.push({ x: 0, y: 0, overlap: 0 });
+      return;
+    }
+    const previous = positions[index - 1];
+    const match = options.align ? findOverlap(maps[index - 1], maps[index]) : null;
+    if (match) alignedPairs++;
+    positions.push(match
+      ? { x: previous.x + aspects[index - 1] - match.overlap, y: previous.y + match.shift, overlap: match.overlap }
+      : { x: previous.x + aspects[index - 1] + options.gap, y: previous.y, overlap: 0 });
+  });
+  const minY = Math.min(...positions.map(p => p.y));
+  const stripWidth = Math.max(...positions.map((p, i) => p.x + aspects[i]));
+  const stripHeight = Math.max(...positions.map(p => p.y)) + 1 - minY;
+  const unit = Math.min(
+    MAX_STRIP_HEIGHT,
+    ...images.map(img => img.naturalHeight),
+    MAX_STRIP_SIDE / stripWidth,
+    MAX_STRIP_SIDE / stripHeight
+  );
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(stripWidth * unit);
+  canvas.height = Math.ceil(stripHeight * unit);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error(t('error.canvasContext'));
+  }
+  ctx.imageSmoothingQuality = 'high';
+  images.forEach((img, index) => {
+    const { x, y, overlap } = positions[index];
+    const width = Math.round(aspects[index] * unit);
+    const height = Math.round(unit);
+    const layer = document.createElement('canvas');
+    layer.width = width;
+    layer.height = height;
+    const layerCtx = layer.getContext('2d');
+    if (!layerCtx) {
+      throw new Error(t('error.canvasContext'));
+    }
+    layerCtx.imageSmoothingQuality = 'high';
+    layerCtx.drawImage(img, 0, 0, width, height);
+    if (overlap > 0) {
+      // Cross-fade across the shared region so the join doesn't show as a hard line.
+      const gradient = layerCtx.createLinearGradient(0, 0, overlap * unit, 0);
+      gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+      gradient.addColorStop(1, 'rgba(0, 0, 0, 1)');
+      layerCtx.globalCompositeOperation = 'destination-in';
+      layerCtx.fillStyle = gradient;
+      layerCtx.fillRect(0, 0, width, height);
     }
-    throw new Error("Не удалось сгенерировать исходное изображение. Пожалуйста, попробуйте еще раз позже.");
+    ctx.drawImage(layer, Math.round(x * unit), Math.round((y - minY) * unit));
+  });
+  return { file: await dataUrlToFile(canvas.toDataURL('image/png'), 'stitched.png'), alignedPairs };
+};
+
+// Upper bound for the recomposed image; keeps the canvas within browser memory limits.
+const MAX_RECOMPOSE_SIDE = 8192;
+
+interface RecompositionSource {
+  image: Blob;
+  placement: SourcePlacement;
+}
+
+interface RecompositionSettings {
+  enabled: boolean;
+  /** Feather width as a fraction of the smaller side of the source region. */
+  feather: number;
+}
+
+/**
+ * Cuts the source region back out of a template; used when the original upload is gone
+ * (e.g. an item reused from history) and the template is the best copy left.
+ */
+const cropTemplateSource = async (templateUrl: string, placement: SourcePlacement): Promise<Blob> => {
+  const img = await loadImage(templateUrl);
+  const sx = Math.round(placement.x * img.naturalWidth);
+  const sy = Math.round(placement.y * img.naturalHeight);
+  const sw = Math.max(1, Math.round(placement.width * img.naturalWidth));
+  const sh = Math.max(1, Math.round(placement.height * img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = sw;
+  canvas.height = sh;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error(t('error.canvasContext'));
+  }
+  ctx.drawImage(img, sx, sy, sw, sh, 0, 0, sw, sh);
+  return dataUrlToFile(canvas.toDataURL('image/png'), 'source.png');
+};
+
+/**
+ * Pastes the original source pixels back over the generated result at the position the
+ * template put them. The result is upscaled so the source keeps its native resolution,
+ * and the source edges that border generated content fade out over the feather width.
+ */
+const recomposeSource = async (
+  resultUrl: string,
+  source: RecompositionSource,
+  feather: number
+): Promise<string> => {
+  const result = await loadImage(resultUrl);
+  const sourceUrl = URL.createObjectURL(source.image);
+  let sourceImg: HTMLImageElement;
+  try {
+    sourceImg = await loadImage(sourceUrl);
+  } finally {
+    URL.revokeObjectURL(sourceUrl);
+  }
+  const { placement } = source;
+  const regionWidth = placement.width * result.naturalWidth;
+  const nativeScale = sourceImg.naturalWidth / regionWidth;
+  const maxScale = MAX_RECOMPOSE_SIDE / Math.max(result.naturalWidth, result.naturalHeight);
+  const scale = Math.max(1, Math.min(nativeScale, maxScale));
+
+  const width = Math.round(result.naturalWidth * scale);
+  const height = Math.round(result.naturalHeight * scale);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error(t('error.canvasContext'));
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(result, 0, 0, width, height);
+
+  const dx = Math.round(placement.x * width);
+  const dy = Math.round(placement.y * height);
+  const dw = Math.round(placement.width * width);
+  const dh = Math.round(placement.height * height);
+  const layer = document.createElement('canvas');
+  layer.width = dw;
+  layer.height = dh;
+  const layerCtx = layer.getContext('2d');
+  if (!layerCtx) {
+    throw new Error(t('error.canvasContext'));
+  }
+  layerCtx.imageSmoothingQuality = 'high';
+  layerCtx.drawImage(sourceImg, 0, 0, dw, dh);
+
+  // Edges lying on the canvas border have nothing to blend with and stay hard.
+  const featherPx = Math.min(dw, dh) * feather;
+  if (featherPx >= 1) {
+    const fadeLeft = dx > 1;
+    const fadeRight = dx + dw < width - 1;
+    const fadeTop = dy > 1;
+    const fadeBottom = dy + dh < height - 1;
+    layerCtx.globalCompositeOperation = 'destination-in';
+    const horizontal = layerCtx.createLinearGradient(0, 0, dw, 0);
+    horizontal.addColorStop(0, `rgba(0, 0, 0, ${fadeLeft ? 0 : 1})`);
+    horizontal.addColorStop(Math.min(0.5, featherPx / dw), 'rgba(0, 0, 0, 1)');
+    horizontal.addColorStop(Math.max(0.5, 1 - featherPx / dw), 'rgba(0, 0, 0, 1)');
+    horizontal.addColorStop(1, `rgba(0, 0, 0, ${fadeRight ? 0 : 1})`);
+    layerCtx.fillStyle = horizontal;
+    layerCtx.fillRect(0, 0, dw, dh);
+    const vertical = layerCtx.createLinearGradient(0, 0, 0, dh);
+    vertical.addColorStop(0, `rgba(0, 0, 0, ${fadeTop ? 0 : 1})`);
+    vertical.addColorStop(Math.min(0.5, featherPx / dh), 'rgba(0, 0, 0, 1)');
+    vertical.addColorStop(Math.max(0.5, 1 - featherPx / dh), 'rgba(0, 0, 0, 1)');
+    vertical.addColorStop(1, `rgba(0, 0, 0, ${fadeBottom ? 0 : 1})`);
+    layerCtx.fillStyle = vertical;
+    layerCtx.fillRect(0, 0, dw, dh);
   }
+  ctx.drawImage(layer, dx, dy);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Resamples an equirectangular result to exactly 2:1 and removes the colour jump where
+ * the left and right edges meet. For every row the difference between the edge columns
+ * is measured, smoothed vertically, and split between both sides with a linear falloff,
+ * so the two edges converge to the same value and the correction fades out inward.
+ */
+const fixEquirectangularSeam = async (imageUrl: string): Promise<string> => {
+  const img = await loadImage(imageUrl);
+  const height = img.naturalHeight;
+  const width = height * 2;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error(t('error.canvasContext'));
+  }
+  ctx.drawImage(img, 0, 0, width, height);
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const data = imageData.data;
+
+  const sampleColumns = 3;
+  const rowDiffs = new Float32Array(height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let c = 0; c < 3; c++) {
+      let left = 0;
+      let right = 0;
+      for (let k = 0; k < sampleColumns; k++) {
+        left += data[(y * width + k) * 4 + c];
+        right += data[(y * width + width - 1 - k) * 4 + c];
+      }
+      rowDiffs[y * 3 + c] = (right - left) / sampleColumns;
+    }
+  }
+
+  const smoothRadius = Math.max(1, Math.round(height / 128));
+  const smoothed = new Float32Array(height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let c = 0; c < 3; c++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -smoothRadius; dy <= smoothRadius; dy++) {
+        const yy = y + dy;
+        if (yy < 0 || yy >= height) continue;
+        sum += rowDiffs[yy * 3 + c];
+        count++;
+      }
+      smoothed[y * 3 + c] = sum / count;
+    }
+  }
+
+  const band = Math.max(1, Math.round(width * SEAM_BLEND_RATIO));
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < band; x++) {
+      const weight = 1 - x / band;
+      const leftIndex = (y * width + x) * 4;
+      const rightIndex = (y * width + width - 1 - x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const half = smoothed[y * 3 + c] / 2 * weight;
+        data[leftIndex + c] = Math.min(255, Math.max(0, data[leftIndex + c] + half));
+        data[rightIndex + c] = Math.min(255, Math.max(0, data[rightIndex + c] - half));
+      }
+    }
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+interface SeamQualityReport {
+  /** 0–100; 100 means the boundary of the source can't be told from the generated content. */
+  score: number;
+  /** Transparent PNG the size of the analysed image, coloured from green (smooth) to red. */
+  heatmapUrl: string;
+}
+
+// Longest side the result is scaled to before measuring; enough to see a seam, cheap to scan.
+const SEAM_ANALYSIS_SIDE = 768;
+// Pixels averaged on each side of the boundary.
+const SEAM_BAND = 3;
+// Samples smoothed along the boundary, so texture noise doesn't read as a seam.
+const SEAM_SMOOTHING_RADIUS = 4;
+// Differences, on the 0–255 scale, at which a sample counts as a full discontinuity.
+const SEAM_LUMA_LIMIT = 24;
+const SEAM_CHROMA_LIMIT = 18;
+const SEAM_EDGE_LIMIT = 40;
+
+const smoothSamples = (values: number[], radius: number): number[] => values.map((_, i) => {
+  const from = Math.max(0, i - radius);
+  const to = Math.min(values.length - 1, i + radius);
+  let sum = 0;
+  for (let j = from; j <= to; j++) sum += values[j];
+  return sum / (to - from + 1);
+});
+
+/**
+ * Scores how visible the boundary of the source region is in a result. Along every side of
+ * the region that borders generated content, the bands just inside and outside are compared
+ * for a brightness jump, a colour shift and an edge stronger than the texture around it.
+ * Returns null when the source fills the whole canvas and there is no boundary to check.
+ */
+const analyzeSeamQuality = async (imageUrl: string, placement: SourcePlacement): Promise<SeamQualityReport | null> => {
+  const img = await loadImage(imageUrl);
+  const scale = Math.min(1, SEAM_ANALYSIS_SIDE / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.max(1, Math.round(img.naturalWidth * scale));
+  const height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error(t('error.canvasContext'));
+  }
+  ctx.drawImage(img, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const pixel = (x: number, y: number) => {
+    const i = (Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))) * 4;
+    const [r, g, b] = [data[i], data[i + 1], data[i + 2]];
+    return { luma: 0.299 * r + 0.587 * g + 0.114 * b, cb: -0.169 * r - 0.331 * g + 0.5 * b, cr: 0.5 * r - 0.419 * g - 0.081 * b };
+  };
+
+  const x0 = Math.round(placement.x * width);
+  const y0 = Math.round(placement.y * height);
+  const x1 = Math.round((placement.x + placement.width) * width) - 1;
+  const y1 = Math.round((placement.y + placement.height) * height) - 1;
+  const margin = SEAM_BAND * 2;
+  // Each side starts at its first pixel inside the source; the normal points out into generated content.
+  const sides = [
+    { interior: x0 > margin, start: { x: x0, y: y0 }, step: { x: 0, y: 1 }, normal: { x: -1, y: 0 }, length: y1 - y0 + 1 },
+    { interior: x1 < width - 1 - margin, start: { x: x1, y: y0 }, step: { x: 0, y: 1 }, normal: { x: 1, y: 0 }, length: y1 - y0 + 1 },
+    { interior: y0 > margin, start: { x: x0, y: y0 }, step: { x: 1, y: 0 }, normal: { x: 0, y: -1 }, length: x1 - x0 + 1 },
+    { interior: y1 < height - 1 - margin, start: { x: x0, y: y1 }, step: { x: 1, y: 0 }, normal: { x: 0, y: 1 }, length: x1 - x0 + 1 },
+  ].filter(side => side.interior && side.length > 0);
+  if (sides.length === 0) return null;
+
+  const heatmap = document.createElement('canvas');
+  heatmap.width = width;
+  heatmap.height = height;
+  const heatCtx = heatmap.getContext('2d');
+  if (!heatCtx) {
+    throw new Error(t('error.canvasContext'));
+  }
+  const samples: number[] = [];
+  for (const { start, step, normal, length } of sides) {
+    const raw: number[] = [];
+    for (let i = 0; i < length; i++) {
+      const bx = start.x + step.x * i;
+      const by = start.y + step.y * i;
+      const at = (k: number) => pixel(bx + normal.x * k, by + normal.y * k);
+      let inside = { luma: 0, cb: 0, cr: 0 };
+      let outside = { luma: 0, cb: 0, cr: 0 };
+      let texture = 0;
+      for (let k = 0; k < SEAM_BAND; k++) {
+        const a = at(-k);
+        const b = at(k + 1);
+        inside = { luma: inside.luma + a.luma, cb: inside.cb + a.cb, cr: inside.cr + a.cr };
+        outside = { luma: outside.luma + b.luma, cb: outside.cb + b.cb, cr: outside.cr + b.cr };
+        texture += Math.abs(a.luma - at(-k - 1).luma) + Math.abs(b.luma - at(k + 2).luma);
+      }
+      const lumaJump = Math.abs(outside.luma - inside.luma) / SEAM_BAND;
+      const colourShift = Math.hypot(outside.cb - inside.cb, outside.cr - inside.cr) / SEAM_BAND;
+      const edgeExcess = Math.max(0, Math.abs(at(1).luma - at(0).luma) - texture / (SEAM_BAND * 2));
+      raw.push(Math.min(1, Math.max(lumaJump / SEAM_LUMA_LIMIT, colourShift / SEAM_CHROMA_LIMIT, edgeExcess / SEAM_EDGE_LIMIT)));
+    }
+    smoothSamples(raw, SEAM_SMOOTHING_RADIUS).forEach((value, i) => {
+      samples.push(value);
+      const bx = start.x + step.x * i;
+      const by = start.y + step.y * i;
+      heatCtx.fillStyle = `hsla(${Math.round((1 - value) * 120)}, 90%, 50%, ${0.35 + 0.6 * value})`;
+      // A strip across the boundary, one pixel long along it.
+      const across = SEAM_BAND * 2;
+      heatCtx.fillRect(normal.x === 0 ? bx : bx - across, normal.y === 0 ? by : by - across, normal.x === 0 ? 1 : across * 2, normal.y === 0 ? 1 : across * 2);
+    });
+  }
+  // The mean alone hides a short, very visible seam, so the worst tenth weighs in as much.
+  const sorted = [...samples].sort((a, b) => a - b);
+  const mean = samples.reduce((sum, value) => sum + value, 0) / samples.length;
+  const worst = sorted[Math.floor(sorted.length * 0.9)];
+  return {
+    score: Math.round(100 * (1 - (mean + worst) / 2)),
+    heatmapUrl: heatmap.toDataURL('image/png'),
+  };
+};
+
+const LANCZOS_LOBES = 3;
+// Limits of the local upscaler's output; larger buffers outgrow what a browser tab gets.
+const MAX_UPSCALE_SIDE = 16384;
+const MAX_UPSCALE_PIXELS = 64 * 1024 * 1024;
+// Rows resampled between yields, so the page keeps repainting during long runs.
+const UPSCALE_ROWS_PER_YIELD = 64;
+
+const lanczosKernel = (x: number): number => {
+  if (x === 0) return 1;
+  if (Math.abs(x) >= LANCZOS_LOBES) return 0;
+  const px = Math.PI * x;
+  return LANCZOS_LOBES * Math.sin(px) * Math.sin(px / LANCZOS_LOBES) / (px * px);
+};
+
+/** Source indices and normalised weights of every output position along one axis. */
+const getLanczosWeights = (srcSize: number, dstSize: number) => {
+  const taps = LANCZOS_LOBES * 2;
+  const indices = new Int32Array(dstSize * taps);
+  const weights = new Float32Array(dstSize * taps);
+  const ratio = srcSize / dstSize;
+  for (let i = 0; i < dstSize; i++) {
+    const center = (i + 0.5) * ratio - 0.5;
+    const first = Math.floor(center) - LANCZOS_LOBES + 1;
+    let sum = 0;
+    for (let k = 0; k < taps; k++) {
+      const weight = lanczosKernel(center - (first + k));
+      indices[i * taps + k] = Math.min(srcSize - 1, Math.max(0, first + k));
+      weights[i * taps + k] = weight;
+      sum += weight;
+    }
+    for (let k = 0; k < taps; k++) weights[i * taps + k] /= sum;
+  }
+  return { indices, weights, taps };
+};
+
+/** Blurs the RGB channels in place with a box filter, horizontally and then vertically. */
+const boxBlur = (pixels: Uint8ClampedArray, width: number, height: number, radius: number) => {
+  const span = radius * 2 + 1;
+  const line = new Uint8ClampedArray(Math.max(width, height) * 4);
+  const pass = (lines: number, length: number, offset: (line: number, i: number) => number) => {
+    for (let l = 0; l < lines; l++) {
+      for (let i = 0; i < length; i++) line.set(pixels.subarray(offset(l, i), offset(l, i) + 4), i * 4);
+      for (let c = 0; c < 3; c++) {
+        let sum = 0;
+        for (let i = -radius; i <= radius; i++) sum += line[Math.min(length - 1, Math.max(0, i)) * 4 + c];
+        for (let i = 0; i < length; i++) {
+          pixels[offset(l, i) + c] = sum / span;
+          sum += line[Math.min(length - 1, i + radius + 1) * 4 + c] - line[Math.max(0, i - radius) * 4 + c];
+        }
+      }
+    }
+  };
+  pass(height, width, (y, x) => (y * width + x) * 4);
+  pass(width, height, (x, y) => (y * width + x) * 4);
+};
+
+/** Adds `amount` × (image − blurred image); two box passes come close to a Gaussian blur. */
+const applyUnsharpMask = (image: ImageData, radius: number, amount: number) => {
+  const { data, width, height } = image;
+  const blurred = new Uint8ClampedArray(data);
+  boxBlur(blurred, width, height, radius);
+  boxBlur(blurred, width, height, radius);
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = 0; c < 3; c++) data[i + c] = data[i + c] + amount * (data[i + c] - blurred[i + c]);
+  }
+};
+
+/** Output size of the local upscaler, or null when it would exceed its limits. */
+const getUpscaleSize = (width: number, height: number, factor: number): { width: number; height: number } | null => {
+  const size = { width: Math.round(width * factor), height: Math.round(height * factor) };
+  return Math.max(size.width, size.height) <= MAX_UPSCALE_SIDE && size.width * size.height <= MAX_UPSCALE_PIXELS ? size : null;
+};
+
+/**
+ * Upscales with separable Lanczos-3 resampling and then sharpens with an unsharp mask.
+ * Runs entirely in the browser and gives the same pixels for the same input every time.
+ */
+const upscaleImage = async (imageUrl: string, factor: number, sharpen: number): Promise<string> => {
+  const img = await loadImage(imageUrl);
+  const srcWidth = img.naturalWidth;
+  const srcHeight = img.naturalHeight;
+  const size = getUpscaleSize(srcWidth, srcHeight, factor);
+  if (!size) {
+    throw new Error(t('upscale.tooLarge', { side: MAX_UPSCALE_SIDE }));
+  }
+  const { width, height } = size;
+  const canvas = document.createElement('canvas');
+  canvas.width = srcWidth;
+  canvas.height = srcHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error(t('error.canvasContext'));
+  }
+  ctx.drawImage(img, 0, 0);
+  const src = ctx.getImageData(0, 0, srcWidth, srcHeight).data;
+
+  // Horizontal pass into a float buffer at the output width and the source height.
+  const horizontal = getLanczosWeights(srcWidth, width);
+  const rows = new Float32Array(width * srcHeight * 4);
+  for (let y = 0; y < srcHeight; y++) {
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      for (let k = 0; k < horizontal.taps; k++) {
+        const weight = horizontal.weights[x * horizontal.taps + k];
+        const i = (y * srcWidth + horizontal.indices[x * horizontal.taps + k]) * 4;
+        rows[out] += src[i] * weight;
+        rows[out + 1] += src[i + 1] * weight;
+        rows[out + 2] += src[i + 2] * weight;
+        rows[out + 3] += src[i + 3] * weight;
+      }
+    }
+    if (y % UPSCALE_ROWS_PER_YIELD === 0) await delay(0);
+  }
+
+  const vertical = getLanczosWeights(srcHeight, height);
+  const output = new ImageData(width, height);
+  const data = output.data;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < vertical.taps; k++) {
+        const weight = vertical.weights[y * vertical.taps + k];
+        const i = (vertical.indices[y * vertical.taps + k] * width + x) * 4;
+        r += rows[i] * weight;
+        g += rows[i + 1] * weight;
+        b += rows[i + 2] * weight;
+        a += rows[i + 3] * weight;
+      }
+      const out = (y * width + x) * 4;
+      data[out] = r;
+      data[out + 1] = g;
+      data[out + 2] = b;
+      data[out + 3] = a;
+    }
+    if (y % UPSCALE_ROWS_PER_YIELD === 0) await delay(0);
+  }
+  if (sharpen > 0) {
+    // Detail gets wider with the factor, so does the blur it is measured against.
+    applyUnsharpMask(output, Math.max(1, Math.round(factor / 2)), sharpen);
+  }
+  canvas.width = width;
+  canvas.height = height;
+  ctx.putImageData(output, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+// --- ERRORS ---
+
+type GenerationErrorCode =
+  | 'invalid_api_key'
+  | 'quota_exceeded'
+  | 'safety_blocked'
+  | 'no_image'
+  | 'network'
+  | 'timeout'
+  | 'input_too_large'
+  | 'server'
+  | 'cancelled'
+  | 'unknown';
+
+/** Base class for every failure of an image-generation backend. */
+class GenerationError extends Error {
+  code: GenerationErrorCode;
+  /** Raw backend information, shown in the expandable details panel. */
+  detail: string;
+
+  constructor(code: GenerationErrorCode, message: string, detail = '') {
+    super(message);
+    this.name = 'GenerationError';
+    this.code = code;
+    this.detail = detail;
+  }
+}
+
+class InvalidApiKeyError extends GenerationError {
+  constructor(detail = '') {
+    super('invalid_api_key', t('generationError.invalidApiKey'), detail);
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+class QuotaExceededError extends GenerationError {
+  constructor(detail = '') {
+    super('quota_exceeded', t('generationError.quotaExceeded'), detail);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+class SafetyBlockError extends GenerationError {
+  finishReason: string | null;
+  blockReason: string | null;
+
+  constructor(finishReason: string | null, blockReason: string | null, detail = '') {
+    super('safety_blocked', t('generationError.safetyBlocked'), detail);
+    this.name = 'SafetyBlockError';
+    this.finishReason = finishReason;
+    this.blockReason = blockReason;
+  }
+}
+
+class NoImageError extends GenerationError {
+  constructor(detail = '') {
+    super('no_image', t('generationError.noImage'), detail);
+    this.name = 'NoImageError';
+  }
+}
+
+class NetworkError extends GenerationError {
+  constructor(detail = '') {
+    super('network', t('generationError.network'), detail);
+    this.name = 'NetworkError';
+  }
+}
+
+class RequestTimeoutError extends GenerationError {
+  constructor(detail = '') {
+    super('timeout', t('generationError.timeout'), detail);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+class InputTooLargeError extends GenerationError {
+  constructor(detail = '') {
+    super('input_too_large', t('generationError.inputTooLarge'), detail);
+    this.name = 'InputTooLargeError';
+  }
+}
+
+class ServerError extends GenerationError {
+  constructor(detail = '') {
+    super('server', t('generationError.server'), detail);
+    this.name = 'ServerError';
+  }
+}
+
+class GenerationCancelledError extends GenerationError {
+  constructor() {
+    super('cancelled', t('generationError.cancelled'));
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+// Gemini rejects requests whose inline data exceeds 20 MB.
+const MAX_INLINE_IMAGE_BYTES = 20 * 1024 * 1024;
+
+const assertInlineImageSize = (base64ImageData: string) => {
+  const bytes = Math.floor(base64ImageData.length * 3 / 4);
+  if (bytes > MAX_INLINE_IMAGE_BYTES) {
+    const megabytes = (value: number) => formatNumber(value / 1024 / 1024, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+    throw new InputTooLargeError(t('generationError.sizeDetail', { size: megabytes(bytes), limit: megabytes(MAX_INLINE_IMAGE_BYTES) }));
+  }
+};
+
+const errorFromHttpStatus = (status: number, detail: string): GenerationError => {
+  const lowered = detail.toLowerCase();
+  if (status === 401 || status === 403 || lowered.includes('api key not valid') || lowered.includes('api_key_invalid')) {
+    return new InvalidApiKeyError(detail);
+  }
+  if (status === 429 || lowered.includes('resource_exhausted')) {
+    return new QuotaExceededError(detail);
+  }
+  if (status === 413 || lowered.includes('payload size exceeds')) {
+    return new InputTooLargeError(detail);
+  }
+  if (status === 408 || status === 504) {
+    return new RequestTimeoutError(detail);
+  }
+  if (status >= 500) {
+    return new ServerError(detail);
+  }
+  return new GenerationError('unknown', t('generationError.rejected'), detail);
+};
+
+/** Maps anything thrown by a backend call onto the GenerationError taxonomy. */
+const toGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) {
+    return error;
+  }
+  if (error instanceof ApiError) {
+    return errorFromHttpStatus(error.status, `${error.status}: ${error.message}`);
+  }
+  if (error instanceof Error) {
+    if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+      return new RequestTimeoutError(error.message);
+    }
+    // fetch() rejects with a TypeError when the network fails, but so does any bug in our own code;
+    // only the browsers' fetch failure messages count (Safari's "Load failed" among them).
+    if (/failed to fetch|networkerror|network request failed/i.test(error.message) || (error instanceof TypeError && error.message === 'Load failed')) {
+      return new NetworkError(error.message);
+    }
+    if (error.message.includes('API_KEY') || error.message.includes('permission denied')) {
+      return new InvalidApiKeyError(error.message);
+    }
+    return new GenerationError('unknown', t('generationError.unknown'), error.message);
+  }
+  return new GenerationError('unknown', t('generationError.unknown'), String(error));
+};
+
+// --- SERVICES ---
+
+interface PanoramaResult {
+  imageUrl: string | null;
+  text: string | null;
+}
+
+const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+
+/** Collects the image and text parts of a Gemini response. */
+const parseImageResponse = (response: GenerateContentResponse): PanoramaResult => {
+  let imageUrl: string | null = null;
+  let text: string | null = null;
+  if (response.candidates && response.candidates.length > 0) {
+    for (const part of response.candidates[0].content?.parts ?? []) {
+      if (part.inlineData && part.inlineData.data) {
+        const base64Bytes = part.inlineData.data;
+        const imageMimeType = part.inlineData.mimeType;
+        imageUrl = `data:${imageMimeType};base64,${base64Bytes}`;
+      } else if (part.text) {
+        text = part.text;
+      }
+    }
+  }
+  return { imageUrl, text };
+};
+
+const SAFETY_FINISH_REASONS = [
+  'SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION',
+  'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT', 'IMAGE_RECITATION',
+];
+
+/**
+ * Like parseImageResponse, but turns a response without an image into a SafetyBlockError
+ * or NoImageError carrying the finish reason and prompt feedback.
+ */
+const requireImageResponse = (response: GenerateContentResponse): PanoramaResult => {
+  const result = parseImageResponse(response);
+  if (result.imageUrl) {
+    return result;
+  }
+  const candidate = response.candidates?.[0];
+  const finishReason = candidate?.finishReason ?? null;
+  const blockReason = response.promptFeedback?.blockReason ?? null;
+  const detail = JSON.stringify({
+    finishReason,
+    finishMessage: candidate?.finishMessage,
+    promptFeedback: response.promptFeedback,
+    safetyRatings: candidate?.safetyRatings,
+    text: result.text,
+  }, null, 2);
+  if (blockReason || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason))) {
+    throw new SafetyBlockError(finishReason, blockReason, detail);
+  }
+  throw new NoImageError(detail);
+};
+
+const generateSourceImage = async (ai: GoogleGenAI, prompt: string, signal?: AbortSignal): Promise<string> => {
+  try {
+    const response = await ai.models.generateImages({
+        model: 'imagen-4.0-generate-001',
+        prompt: prompt,
+        config: {
+          numberOfImages: 1,
+          outputMimeType: 'image/png',
+          aspectRatio: '1:1', // A square image is a good starting point to fit into the 16:9 canvas
+          abortSignal: signal,
+        },
+    });
+
+    const generated = response.generatedImages?.[0];
+    if (!generated?.image?.imageBytes) {
+        if (generated?.raiFilteredReason) {
+            throw new SafetyBlockError(null, generated.raiFilteredReason, generated.raiFilteredReason);
+        }
+        throw new NoImageError(JSON.stringify(response.positivePromptSafetyAttributes ?? null));
+    }
+    
+    return generated.image.imageBytes; // This is a base64 string
+
+  } catch (error) {
+    console.error("Gemini API call for image generation failed:", error);
+    throw toGenerationError(error);
+  }
+};
+
+
+const ANCHOR_DESCRIPTIONS: Record<Locale, Record<TemplateAnchor, string>> = {
+  en: {
+    'center': 'The existing image is the centre of the scene; extend it in every direction.',
+    'left': 'The existing image sits against the left edge of the canvas; continue the scene to the right.',
+    'right': 'The existing image sits against the right edge of the canvas; continue the scene to the left.',
+    'top': 'The existing image sits against the top edge of the canvas; continue the scene downwards.',
+    'bottom': 'The existing image sits against the bottom edge of the canvas; continue the scene upwards.',
+    'top-left': 'The existing image is in the top-left corner of the canvas; continue the scene to the right and downwards.',
+    'top-right': 'The existing image is in the top-right corner of the canvas; continue the scene to the left and downwards.',
+    'bottom-left': 'The existing image is in the bottom-left corner of the canvas; continue the scene to the right and upwards.',
+    'bottom-right': 'The existing image is in the bottom-right corner of the canvas; continue the scene to the left and upwards.',
+  },
+  ru: {
+    'center': 'Существующее изображение — это центр сцены, расширьте её во все стороны.',
+    'left': 'Существующее изображение прижато к левому краю холста, продолжите сцену вправо.',
+    'right': 'Существующее изображение прижато к правому краю холста, продолжите сцену влево.',
+    'top': 'Существующее изображение прижато к верхнему краю холста, продолжите сцену вниз.',
+    'bottom': 'Существующее изображение прижато к нижнему краю холста, продолжите сцену вверх.',
+    'top-left': 'Существующее изображение находится в левом верхнем углу холста, продолжите сцену вправо и вниз.',
+    'top-right': 'Существующее изображение находится в правом верхнем углу холста, продолжите сцену влево и вниз.',
+    'bottom-left': 'Существующее изображение находится в левом нижнем углу холста, продолжите сцену вправо и вверх.',
+    'bottom-right': 'Существующее изображение находится в правом нижнем углу холста, продолжите сцену влево и вверх.',
+  },
+};
+
+const STITCH_DESCRIPTIONS: Record<Locale, string> = {
+  en: 'The canvas holds several separate photos of the same scene, placed in order from left to right. Fill the gaps between them and the space around them so that they form one continuous scene: match the perspective, horizon line, lighting and colour without changing the photos themselves.',
+  ru: 'На холсте несколько отдельных снимков одной сцены, расположенных по порядку слева направо. Заполните промежутки между ними и пространство вокруг так, чтобы получилась одна цельная сцена: согласуйте перспективу, линию горизонта, освещение и цвет, не изменяя сами снимки.',
+};
+
+/** Operations whose instruction text can be edited in the system prompt editor. */
+type PromptTemplateId = 'outpaint' | 'outpaint360' | 'enhance' | 'inpaint';
+type PromptTemplateSet = Record<PromptTemplateId, string>;
+
+// Built-in instructions per prompt language, which is chosen separately from the UI language.
+const DEFAULT_PROMPT_TEMPLATES: Record<Locale, PromptTemplateSet> = {
+  en: {
+    outpaint: 'Extend this image so that it fills the whole {aspectRatio} canvas. {placement}{stitch} Create a seamless, natural continuation of the scene that matches the style, lighting and content of the original shot. The final image must look like a single, coherent picture without black bars or frames. Creative direction from the user: {userPrompt}',
+    outpaint360: 'Turn this image into a full 360°×180° spherical panorama in equirectangular projection with a 2:1 aspect ratio. The existing image is the view straight ahead in the centre of the canvas.{stitch} Paint the surroundings in every direction: the top edge of the canvas is the zenith, the bottom edge is the nadir, and the horizon runs along the horizontal middle. The left and right edges of the canvas face the same direction and must join seamlessly, with no breaks in colour, lighting or geometry. Keep the style and lighting of the original shot, without black bars or frames. Creative direction from the user: {userPrompt}',
+    enhance: 'Significantly improve the quality and detail of this image. Make it sharper, high-resolution and photorealistic while keeping the original composition and subject. Do not add any new objects or elements; just improve the existing image.',
+    inpaint: 'The first image is part of a picture, the second is a mask of the same size. Repaint only the area that is white on the mask: {userPrompt}. The new content must match its surroundings in style, lighting, perspective and grain and blend into them seamlessly. Leave everything that is black on the mask unchanged. Return an image of the same size, without the mask and without frames.',
+  },
+  ru: {
+    outpaint: 'Расширьте это изображение, чтобы оно заполнило весь холст {aspectRatio}. {placement}{stitch} Создайте бесшовное, естественное продолжение сцены, соответствующее стилю, освещению и содержанию оригинального кадра. Итоговое изображение должно выглядеть как единая, цельная картина без черных полей или рамок. Творческое направление от пользователя: {userPrompt}',
+    outpaint360: 'Превратите это изображение в полную сферическую панораму 360°×180° в равнопромежуточной (equirectangular) проекции с соотношением сторон 2:1. Существующее изображение — это вид прямо вперёд в центре холста.{stitch} Дорисуйте окружение во всех направлениях: верхний край холста — это зенит, нижний — надир, а горизонт проходит по горизонтальной середине. Левый и правый края холста соответствуют одному и тому же направлению взгляда и должны бесшовно стыковаться друг с другом без разрывов в цвете, освещении и геометрии. Сохраните стиль и освещение оригинального кадра, без черных полей или рамок. Творческое направление от пользователя: {userPrompt}',
+    enhance: 'Значительно улучши качество и детализацию этого изображения. Сделай его более четким, с высоким разрешением и фотореалистичным, сохраняя при этом исходную композицию и тематику. Не добавляй никаких новых объектов или элементов, просто улучши существующее изображение.',
+    inpaint: 'Первое изображение — фрагмент картины, второе — маска того же размера. Перерисуйте только область, отмеченную на маске белым: {userPrompt}. Новое содержимое должно совпадать с окружением по стилю, освещению, перспективе и зерну и бесшовно в него переходить. Всё, что на маске чёрное, оставьте без изменений. Верните изображение того же размера, без маски и без рамок.',
+  },
+};
+
+/** Placeholders each template receives; `stitch` is empty or a sentence with a leading space. */
+const PROMPT_TEMPLATE_VARIABLES: Record<PromptTemplateId, string[]> = {
+  outpaint: ['aspectRatio', 'placement', 'stitch', 'userPrompt'],
+  outpaint360: ['stitch', 'userPrompt'],
+  enhance: [],
+  inpaint: ['userPrompt'],
+};
+
+// `{name}` placeholders, shared by the system templates and the user's own prompts.
+const PROMPT_VARIABLE_PATTERN = /\{([^{}\n]{1,40})\}/g;
+
+/** Replaces known `{name}` placeholders; unknown ones stay as they are. Values are not re-scanned. */
+const fillPromptTemplate = (text: string, values: Record<string, string>): string =>
+  text.replace(PROMPT_VARIABLE_PATTERN, (match, name: string) => values[name.trim()] ?? match);
+
+/** Distinct placeholder names in order of first appearance. */
+const getPromptVariables = (text: string): string[] =>
+  [...new Set(Array.from(text.matchAll(PROMPT_VARIABLE_PATTERN), match => match[1].trim()))];
+
+const buildOutpaintPrompt = (
+  userPrompt: string,
+  template: TemplateOptions,
+  locale: Locale = activeLocale,
+  prompts: PromptTemplateSet = DEFAULT_PROMPT_TEMPLATES[locale]
+): string => fillPromptTemplate(
+  template.projection === 'equirectangular' ? prompts.outpaint360 : prompts.outpaint,
+  {
+    aspectRatio: formatAspectRatio(template.width, template.height),
+    placement: ANCHOR_DESCRIPTIONS[locale][template.layout ? getLayoutAnchor(template.layout) : template.anchor],
+    stitch: (template.sourceCount ?? 1) > 1 ? ` ${STITCH_DESCRIPTIONS[locale]}` : '',
+    userPrompt,
+  }
+);
+
+const generatePanorama = async (
+  ai: GoogleGenAI,
+  base64ImageData: string,
+  mimeType: string,
+  userPrompt: string,
+  template: TemplateOptions = DEFAULT_TEMPLATE_OPTIONS,
+  signal?: AbortSignal,
+  locale: Locale = activeLocale,
+  prompts: PromptTemplateSet = DEFAULT_PROMPT_TEMPLATES[locale]
+): Promise<PanoramaResult> => {
+  try {
+    assertInlineImageSize(base64ImageData);
+    const fullPrompt = buildOutpaintPrompt(userPrompt, template, locale, prompts);
+    const response: GenerateContentResponse = await ai.models.generateContent({
+      model: GEMINI_IMAGE_MODEL,
+      contents: {
+        parts: [
+          { inlineData: { data: base64ImageData, mimeType: mimeType } },
+          { text: fullPrompt },
+        ],
+      },
+      config: {
+        responseModalities: [Modality.IMAGE, Modality.TEXT],
+        abortSignal: signal,
+      },
+    });
+    return requireImageResponse(response);
+  } catch (error) {
+    console.error("Gemini API call failed:", error);
+    throw toGenerationError(error);
+  }
+};
+
+const enhanceImage = async (
+  ai: GoogleGenAI,
+  base64ImageData: string,
+  mimeType: string,
+  signal?: AbortSignal,
+  instruction: string = DEFAULT_PROMPT_TEMPLATES[activeLocale].enhance
+): Promise<PanoramaResult> => {
+  try {
+    assertInlineImageSize(base64ImageData);
+    const response: GenerateContentResponse = await ai.models.generateContent({
+      model: GEMINI_IMAGE_MODEL,
+      contents: {
+        parts: [
+          { inlineData: { data: base64ImageData, mimeType: mimeType } },
+          { text: instruction },
+        ],
+      },
+      config: {
+        responseModalities: [Modality.IMAGE, Modality.TEXT],
+        abortSignal: signal,
+      },
+    });
+    return requireImageResponse(response);
+  } catch (error) {
+    console.error("Gemini API call for enhancement failed:", error);
+    throw toGenerationError(error);
+  }
+};
+
+const editImage = async (
+  ai: GoogleGenAI,
+  base64ImageData: string,
+  mimeType: string,
+  instruction: string,
+  signal?: AbortSignal
+): Promise<PanoramaResult> => {
+  try {
+    assertInlineImageSize(base64ImageData);
+    const response: GenerateContentResponse = await ai.models.generateContent({
+      model: GEMINI_IMAGE_MODEL,
+      contents: {
+        parts: [
+          { inlineData: { data: base64ImageData, mimeType: mimeType } },
+          { text: instruction },
+        ],
+      },
+      config: {
+        responseModalities: [Modality.IMAGE, Modality.TEXT],
+        abortSignal: signal,
+      },
+    });
+    return requireImageResponse(response);
+  } catch (error) {
+    console.error("Gemini API call for editing failed:", error);
+    throw toGenerationError(error);
+  }
+};
+
+const buildInpaintPrompt = (userPrompt: string, prompts: PromptTemplateSet = DEFAULT_PROMPT_TEMPLATES[activeLocale]): string =>
+  fillPromptTemplate(prompts.inpaint, { userPrompt });
+
+/** Gemini has no mask parameter, so the mask goes along as a second image. */
+const inpaintImage = async (
+  ai: GoogleGenAI,
+  base64ImageData: string,
+  mimeType: string,
+  maskBase64: string,
+  userPrompt: string,
+  signal?: AbortSignal,
+  prompts: PromptTemplateSet = DEFAULT_PROMPT_TEMPLATES[activeLocale]
+): Promise<PanoramaResult> => {
+  try {
+    assertInlineImageSize(base64ImageData + maskBase64);
+    const response: GenerateContentResponse = await ai.models.generateContent({
+      model: GEMINI_IMAGE_MODEL,
+      contents: {
+        parts: [
+          { inlineData: { data: base64ImageData, mimeType: mimeType } },
+          { inlineData: { data: maskBase64, mimeType: 'image/png' } },
+          { text: buildInpaintPrompt(userPrompt, prompts) },
+        ],
+      },
+      config: {
+        responseModalities: [Modality.IMAGE, Modality.TEXT],
+        abortSignal: signal,
+      },
+    });
+    return requireImageResponse(response);
+  } catch (error) {
+    console.error("Gemini API call for inpainting failed:", error);
+    throw toGenerationError(error);
+  }
+};
+
+// --- PROVIDERS ---
+
+type ProviderId = 'gemini' | 'mock' | 'automatic1111';
+
+/**
+ * Common surface of every image-generation backend. Images travel as raw base64 plus a
+ * MIME type; results come back as data URLs, like the Gemini functions above.
+ */
+interface ImageProvider {
+  id: ProviderId;
+  outpaint: (base64ImageData: string, mimeType: string, userPrompt: string, template: TemplateOptions, signal?: AbortSignal) => Promise<PanoramaResult>;
+  enhance: (base64ImageData: string, mimeType: string, signal?: AbortSignal) => Promise<PanoramaResult>;
+  /** Returns a base64 PNG, without the data URL prefix. */
+  textToImage: (prompt: string, signal?: AbortSignal) => Promise<string>;
+  edit: (base64ImageData: string, mimeType: string, instruction: string, signal?: AbortSignal) => Promise<PanoramaResult>;
+  /** Regenerates the area that is white in `maskBase64` (a PNG of the same size). */
+  inpaint: (base64ImageData: string, mimeType: string, maskBase64: string, userPrompt: string, signal?: AbortSignal) => Promise<PanoramaResult>;
+}
+
+interface ProviderSettings {
+  id: ProviderId;
+  apiKey: string;
+  /** Base URL of a self-hosted Automatic1111-compatible server. */
+  serverUrl: string;
+  /** Language of the instruction templates; the UI language when omitted. */
+  promptLocale?: Locale;
+  /** Edited instruction templates; the built-in ones for `promptLocale` are used when omitted. */
+  prompts?: PromptTemplateSet;
+}
+
+const PROVIDER_OPTIONS: { id: ProviderId; labelKey: MessageKey }[] = [
+  { id: 'gemini', labelKey: 'provider.gemini' },
+  { id: 'mock', labelKey: 'provider.mock' },
+  { id: 'automatic1111', labelKey: 'provider.automatic1111' },
+];
+
+const DEFAULT_A1111_URL = 'http://127.0.0.1:7860';
+
+/** Model recorded with saved results; a self-hosted server doesn't report its checkpoint. */
+const getProviderModel = (id: ProviderId): string | undefined => id === 'gemini' ? GEMINI_IMAGE_MODEL : undefined;
+
+const isProviderConfigured = (settings: ProviderSettings): boolean => {
+  switch (settings.id) {
+    case 'gemini':
+      return !!settings.apiKey;
+    case 'automatic1111':
+      return !!settings.serverUrl;
+    case 'mock':
+      return true;
+  }
+};
+
+const createGeminiProvider = (
+  apiKey: string,
+  locale: Locale = activeLocale,
+  prompts: PromptTemplateSet = DEFAULT_PROMPT_TEMPLATES[locale]
+): ImageProvider => {
+  if (!apiKey) {
+    throw new InvalidApiKeyError(t('error.apiKeyMissing'));
+  }
+  const ai = new GoogleGenAI({ apiKey: apiKey });
+  return {
+    id: 'gemini',
+    outpaint: (base64ImageData, mimeType, userPrompt, template, signal) => generatePanorama(ai, base64ImageData, mimeType, userPrompt, template, signal, locale, prompts),
+    enhance: (base64ImageData, mimeType, signal) => enhanceImage(ai, base64ImageData, mimeType, signal, prompts.enhance),
+    textToImage: (prompt, signal) => generateSourceImage(ai, prompt, signal),
+    edit: (base64ImageData, mimeType, instruction, signal) => editImage(ai, base64ImageData, mimeType, instruction, signal),
+    inpaint: (base64ImageData, mimeType, maskBase64, userPrompt, signal) => inpaintImage(ai, base64ImageData, mimeType, maskBase64, userPrompt, signal, prompts),
+  };
+};
+
+// Simulated latency so the mock exercises the same loading states as a real backend.
+const MOCK_LATENCY_MS = 800;
+
+/** Resolves after `ms`, or rejects with GenerationCancelledError as soon as the signal aborts. */
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new GenerationCancelledError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new GenerationCancelledError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const hashString = (value: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const createCanvasContext = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error(t('error.canvasContext'));
+  }
+  return { canvas, ctx };
+};
+
+/**
+ * Offline outpaint: transparent pixels are filled by mirroring the opaque region across
+ * its edges, then softened with a blurred copy so the fill reads as background.
+ */
+const mockOutpaint = async (base64ImageData: string, mimeType: string): Promise<PanoramaResult> => {
+  const img = await loadImage(`data:${mimeType};base64,${base64ImageData}`);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const { canvas, ctx } = createCanvasContext(width, height);
+  ctx.drawImage(img, 0, 0);
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const data = imageData.data;
+
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] > 0) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  if (maxX < 0) {
+    throw new Error(t('error.templateNoSource'));
+  }
+  const reflect = (value: number, min: number, max: number): number => {
+    const span = max - min;
+    if (span === 0) return min;
+    const period = span * 2;
+    let offset = (value - min) % period;
+    if (offset < 0) offset += period;
+    return min + (offset <= span ? offset : period - offset);
+  };
+  const filled = new Uint8ClampedArray(data.length);
+  const isFill = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = (y * width + x) * 4;
+      if (data[index + 3] === 255) {
+        filled.set(data.subarray(index, index + 4), index);
+        continue;
+      }
+      isFill[y * width + x] = 1;
+      const sourceIndex = (reflect(y, minY, maxY) * width + reflect(x, minX, maxX)) * 4;
+      filled[index] = data[sourceIndex];
+      filled[index + 1] = data[sourceIndex + 1];
+      filled[index + 2] = data[sourceIndex + 2];
+      filled[index + 3] = 255;
+    }
+  }
+  ctx.putImageData(new ImageData(filled, width, height), 0, 0);
+
+  // Downscale-and-upscale is a cheap, deterministic blur.
+  const blurScale = 16;
+  const small = createCanvasContext(Math.max(1, Math.round(width / blurScale)), Math.max(1, Math.round(height / blurScale)));
+  small.ctx.drawImage(canvas, 0, 0, small.canvas.width, small.canvas.height);
+  const blurred = createCanvasContext(width, height);
+  blurred.ctx.imageSmoothingQuality = 'high';
+  blurred.ctx.drawImage(small.canvas, 0, 0, width, height);
+  const blurredData = blurred.ctx.getImageData(0, 0, width, height).data;
+  for (let i = 0; i < isFill.length; i++) {
+    if (!isFill[i]) continue;
+    const index = i * 4;
+    for (let c = 0; c < 3; c++) {
+      filled[index + c] = (filled[index + c] + blurredData[index + c] * 3) / 4;
+    }
+  }
+  ctx.putImageData(new ImageData(filled, width, height), 0, 0);
+  return { imageUrl: canvas.toDataURL('image/png'), text: t('mock.outpaint') };
+};
+
+/** Offline enhance: a 3×3 sharpening kernel. */
+const mockEnhance = async (base64ImageData: string, mimeType: string): Promise<PanoramaResult> => {
+  const img = await loadImage(`data:${mimeType};base64,${base64ImageData}`);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const { canvas, ctx } = createCanvasContext(width, height);
+  ctx.drawImage(img, 0, 0);
+  const source = ctx.getImageData(0, 0, width, height).data;
+  const output = new Uint8ClampedArray(source);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const index = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        output[index + c] = 5 * source[index + c]
+          - source[index - 4 + c] - source[index + 4 + c]
+          - source[index - width * 4 + c] - source[index + width * 4 + c];
+      }
+    }
+  }
+  ctx.putImageData(new ImageData(output, width, height), 0, 0);
+  return { imageUrl: canvas.toDataURL('image/png'), text: t('mock.enhance') };
+};
+
+/** Offline text-to-image: a gradient whose colours are derived from the prompt. */
+const mockTextToImage = async (prompt: string): Promise<string> => {
+  const size = 1024;
+  const { canvas, ctx } = createCanvasContext(size, size);
+  const hash = hashString(prompt);
+  const gradient = ctx.createLinearGradient(0, 0, size, size);
+  gradient.addColorStop(0, `hsl(${hash % 360}, 60%, 45%)`);
+  gradient.addColorStop(1, `hsl(${(hash >>> 9) % 360}, 60%, 25%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, size, size);
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+  ctx.font = '48px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.fillText(prompt.slice(0, 40), size / 2, size / 2);
+  return canvas.toDataURL('image/png').split(',')[1];
+};
+
+/** Offline edit: a tint whose hue is derived from the instruction. */
+const mockEdit = async (base64ImageData: string, mimeType: string, instruction: string): Promise<PanoramaResult> => {
+  const img = await loadImage(`data:${mimeType};base64,${base64ImageData}`);
+  const { canvas, ctx } = createCanvasContext(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  ctx.globalCompositeOperation = 'soft-light';
+  ctx.fillStyle = `hsl(${hashString(instruction) % 360}, 70%, 50%)`;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return { imageUrl: canvas.toDataURL('image/png'), text: t('mock.edit') };
+};
+
+/** Offline inpaint: the masked area is replaced with a heavily blurred copy of the image. */
+const mockInpaint = async (base64ImageData: string, mimeType: string, maskBase64: string): Promise<PanoramaResult> => {
+  const img = await loadImage(`data:${mimeType};base64,${base64ImageData}`);
+  const mask = await loadImage(`data:image/png;base64,${maskBase64}`);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const { canvas, ctx } = createCanvasContext(width, height);
+  ctx.drawImage(img, 0, 0);
+  const small = createCanvasContext(Math.max(1, Math.round(width / 32)), Math.max(1, Math.round(height / 32)));
+  small.ctx.drawImage(img, 0, 0, small.canvas.width, small.canvas.height);
+  const blurred = createCanvasContext(width, height);
+  blurred.ctx.imageSmoothingQuality = 'high';
+  blurred.ctx.drawImage(small.canvas, 0, 0, width, height);
+  const maskLayer = createCanvasContext(width, height);
+  maskLayer.ctx.drawImage(mask, 0, 0, width, height);
+  const output = ctx.getImageData(0, 0, width, height);
+  const blurredData = blurred.ctx.getImageData(0, 0, width, height).data;
+  const maskData = maskLayer.ctx.getImageData(0, 0, width, height).data;
+  for (let i = 0; i < output.data.length; i += 4) {
+    if (maskData[i] < 128) continue;
+    output.data[i] = blurredData[i];
+    output.data[i + 1] = blurredData[i + 1];
+    output.data[i + 2] = blurredData[i + 2];
+  }
+  ctx.putImageData(output, 0, 0);
+  return { imageUrl: canvas.toDataURL('image/png'), text: t('mock.inpaint') };
+};
+
+const createMockProvider = (): ImageProvider => ({
+  id: 'mock',
+  outpaint: async (base64ImageData, mimeType, _userPrompt, _template, signal) => {
+    await delay(MOCK_LATENCY_MS, signal);
+    return mockOutpaint(base64ImageData, mimeType);
+  },
+  enhance: async (base64ImageData, mimeType, signal) => {
+    await delay(MOCK_LATENCY_MS, signal);
+    return mockEnhance(base64ImageData, mimeType);
+  },
+  textToImage: async (prompt, signal) => {
+    await delay(MOCK_LATENCY_MS, signal);
+    return mockTextToImage(prompt);
+  },
+  edit: async (base64ImageData, mimeType, instruction, signal) => {
+    await delay(MOCK_LATENCY_MS, signal);
+    return mockEdit(base64ImageData, mimeType, instruction);
+  },
+  inpaint: async (base64ImageData, mimeType, maskBase64, _userPrompt, signal) => {
+    await delay(MOCK_LATENCY_MS, signal);
+    return mockInpaint(base64ImageData, mimeType, maskBase64);
+  },
+});
+
+/**
+ * Builds an inpainting mask from the template's alpha channel: white where the
+ * template is transparent (to be generated), black where the source is.
+ */
+const createOutpaintMask = async (base64ImageData: string, mimeType: string): Promise<string> => {
+  const img = await loadImage(`data:${mimeType};base64,${base64ImageData}`);
+  const { canvas, ctx } = createCanvasContext(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const data = imageData.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const value = data[i + 3] === 255 ? 0 : 255;
+    data[i] = value;
+    data[i + 1] = value;
+    data[i + 2] = value;
+    data[i + 3] = 255;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png').split(',')[1];
+};
+
+/**
+ * Adapter for a self-hosted Automatic1111-style server (`/sdapi/v1/*`). Outpainting is
+ * img2img with a mask derived from the template's transparent area.
+ */
+const createAutomatic1111Provider = (serverUrl: string): ImageProvider => {
+  const baseUrl = serverUrl.replace(/\/+$/, '');
+  const post = async <T,>(path: string, body: unknown, signal?: AbortSignal): Promise<T> => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error("Generation server request failed:", error);
+      throw new NetworkError(t('a1111.networkDetail', { url: baseUrl, message: error instanceof Error ? error.message : String(error) }));
+    }
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw errorFromHttpStatus(response.status, `${response.status}: ${body}`);
+    }
+    return response.json() as Promise<T>;
+  };
+  const toResult = (images: string[] | undefined): PanoramaResult => {
+    if (!images || images.length === 0) {
+      throw new NoImageError(t('a1111.emptyImages', { url: baseUrl }));
+    }
+    return { imageUrl: `data:image/png;base64,${images[0]}`, text: null };
+  };
+  const getSize = async (base64ImageData: string, mimeType: string) => {
+    const img = await loadImage(`data:${mimeType};base64,${base64ImageData}`);
+    // Stable Diffusion works in multiples of 8.
+    return { width: Math.round(img.naturalWidth / 8) * 8, height: Math.round(img.naturalHeight / 8) * 8 };
+  };
+
+  return {
+    id: 'automatic1111',
+    outpaint: async (base64ImageData, mimeType, userPrompt, template, signal) => {
+      const mask = await createOutpaintMask(base64ImageData, mimeType);
+      const size = await getSize(base64ImageData, mimeType);
+      const data = await post<{ images?: string[] }>('/sdapi/v1/img2img', {
+        init_images: [base64ImageData],
+        mask,
+        prompt: template.projection === 'equirectangular'
+          ? `equirectangular 360 panorama, seamless horizontal wrap, ${userPrompt}`
+          : userPrompt,
+        denoising_strength: 1,
+        inpainting_fill: 2, // latent noise: the transparent area has no usable content
+        inpaint_full_res: false,
+        mask_blur: 8,
+        ...size,
+      }, signal);
+      return toResult(data.images);
+    },
+    enhance: async (base64ImageData, _mimeType, signal) => {
+      const data = await post<{ image?: string }>('/sdapi/v1/extra-single-image', {
+        image: base64ImageData,
+        upscaling_resize: 2,
+        upscaler_1: 'R-ESRGAN 4x+',
+      }, signal);
+      return toResult(data.image ? [data.image] : undefined);
+    },
+    textToImage: async (prompt, signal) => {
+      const data = await post<{ images?: string[] }>('/sdapi/v1/txt2img', { prompt, width: 1024, height: 1024 }, signal);
+      return toResult(data.images).imageUrl.split(',')[1];
+    },
+    edit: async (base64ImageData, mimeType, instruction, signal) => {
+      const size = await getSize(base64ImageData, mimeType);
+      const data = await post<{ images?: string[] }>('/sdapi/v1/img2img', {
+        init_images: [base64ImageData],
+        prompt: instruction,
+        denoising_strength: 0.5,
+        ...size,
+      }, signal);
+      return toResult(data.images);
+    },
+    inpaint: async (base64ImageData, mimeType, maskBase64, userPrompt, signal) => {
+      const size = await getSize(base64ImageData, mimeType);
+      const data = await post<{ images?: string[] }>('/sdapi/v1/img2img', {
+        init_images: [base64ImageData],
+        mask: maskBase64,
+        prompt: userPrompt,
+        denoising_strength: 0.75,
+        inpainting_fill: 1, // start from the original pixels under the mask
+        inpaint_full_res: false,
+        mask_blur: 4,
+        ...size,
+      }, signal);
+      return toResult(data.images);
+    },
+  };
+};
+
+const createImageProvider = (settings: ProviderSettings): ImageProvider => {
+  switch (settings.id) {
+    case 'gemini':
+      return createGeminiProvider(settings.apiKey, settings.promptLocale, settings.prompts);
+    case 'mock':
+      return createMockProvider();
+    case 'automatic1111':
+      return createAutomatic1111Provider(settings.serverUrl);
+  }
+};
+
+interface RequestSettings {
+  /** Extra attempts after the first one, for transient errors only. */
+  maxRetries: number;
+  baseDelayMs: number;
+  /** Limit for a single attempt. */
+  timeoutMs: number;
+}
+
+const DEFAULT_REQUEST_SETTINGS: RequestSettings = { maxRetries: 3, baseDelayMs: 1000, timeoutMs: 120000 };
+const MAX_RETRY_DELAY_MS = 30000;
+const TRANSIENT_ERROR_CODES: GenerationErrorCode[] = ['quota_exceeded', 'server', 'network', 'timeout'];
+
+type RequestPhase =
+  | { kind: 'sending'; attempt: number; maxAttempts: number }
+  | { kind: 'waiting-retry'; attempt: number; delayMs: number; error: GenerationError };
+
+interface RequestOptions {
+  signal?: AbortSignal;
+  settings?: RequestSettings;
+  onPhase?: (phase: RequestPhase) => void;
+}
+
+/** Exponential backoff with "equal jitter": half of the delay is fixed, half is random. */
+const getRetryDelay = (attempt: number, baseDelayMs: number): number => {
+  const exponential = Math.min(MAX_RETRY_DELAY_MS, baseDelayMs * 2 ** (attempt - 1));
+  return exponential / 2 + Math.random() * exponential / 2;
+};
+
+/**
+ * Runs a provider call with a per-attempt timeout, retrying transient failures with
+ * backoff. Aborting `options.signal` cancels the current attempt and any pending wait.
+ */
+const runWithRetry = async <T,>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  options: RequestOptions = {}
+): Promise<T> => {
+  const settings = options.settings ?? DEFAULT_REQUEST_SETTINGS;
+  const maxAttempts = settings.maxRetries + 1;
+  for (let attempt = 1; ; attempt++) {
+    if (options.signal?.aborted) {
+      throw new GenerationCancelledError();
+    }
+    options.onPhase?.({ kind: 'sending', attempt, maxAttempts });
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, settings.timeoutMs);
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    let failure: GenerationError;
+    try {
+      return await operation(controller.signal);
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw new GenerationCancelledError();
+      }
+      failure = timedOut
+        ? new RequestTimeoutError(t('request.timeoutDetail', { seconds: Math.round(settings.timeoutMs / 1000), attempt }))
+        : toGenerationError(error);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+    if (attempt >= maxAttempts || !TRANSIENT_ERROR_CODES.includes(failure.code)) {
+      throw failure;
+    }
+    const delayMs = getRetryDelay(attempt, settings.baseDelayMs);
+    options.onPhase?.({ kind: 'waiting-retry', attempt, delayMs, error: failure });
+    await delay(delayMs, options.signal);
+  }
+};
+
+interface SeamCheckSettings {
+  /** Generate again while the seam score stays below the threshold. */
+  autoRetry: boolean;
+  maxRetries: number;
+  /** Lowest acceptable score, 0–100. */
+  threshold: number;
+}
+
+const DEFAULT_SEAM_CHECK_SETTINGS: SeamCheckSettings = { autoRetry: false, maxRetries: 2, threshold: 70 };
+const MAX_SEAM_RETRIES = 5;
+// Seam retries one run may spend across all of its variants; otherwise retries × variants multiply.
+const MAX_SEAM_RETRY_BUDGET = 6;
+
+/** Seam retries left for a run, shared by all of its variants. */
+interface SeamRetryBudget {
+  remaining: number;
+}
+
+/**
+ * Runs a generation and scores its seam; with auto-retry on, generates again until the
+ * score reaches the threshold or the retries run out, then returns the best-scoring result.
+ * A failed analysis is logged and treated as "no score" rather than failing the result,
+ * and a failed retry ends the loop with the best result so far.
+ */
+const runWithSeamCheck = async (
+  generate: (attempt: number) => Promise<PanoramaResult>,
+  placement: SourcePlacement | null,
+  settings: SeamCheckSettings,
+  budget: SeamRetryBudget,
+  onRetry?: (attempt: number, score: number) => void
+): Promise<{ result: PanoramaResult; quality: SeamQualityReport | null }> => {
+  let best: { result: PanoramaResult; quality: SeamQualityReport | null } | null = null;
+  for (let attempt = 0; ; attempt++) {
+    let result: PanoramaResult;
+    try {
+      result = await generate(attempt);
+    } catch (error) {
+      if (!best || error instanceof GenerationCancelledError) throw error;
+      console.error('Seam-check retry failed, keeping the best result so far:', error);
+      return best;
+    }
+    let quality: SeamQualityReport | null = null;
+    if (result.imageUrl && placement) {
+      try {
+        quality = await analyzeSeamQuality(result.imageUrl, placement);
+      } catch (e) {
+        console.error('Failed to analyse the seam:', e);
+      }
+    }
+    if (!best || (quality && (!best.quality || quality.score > best.quality.score))) {
+      best = { result, quality };
+    }
+    if (!quality || quality.score >= settings.threshold || !settings.autoRetry || attempt >= settings.maxRetries || budget.remaining <= 0) {
+      return best;
+    }
+    budget.remaining--;
+    onRetry?.(attempt + 1, quality.score);
+  }
+};
+
+interface VariantOptions {
+  /** Images requested per prompt. */
+  count: number;
+  matrixEnabled: boolean;
+  /** Extra prompts for the matrix, one per line; the main prompt is always included. */
+  matrixPrompts: string;
+}
+
+const DEFAULT_VARIANT_OPTIONS: VariantOptions = { count: 1, matrixEnabled: false, matrixPrompts: '' };
+const MAX_VARIANTS = 4;
+const MAX_VARIANT_JOBS = 12;
+const VARIANT_CONCURRENCY = 2;
+
+/** Expands the options into the list of prompts to run, one entry per requested image. */
+const getVariantPrompts = (prompt: string, options: VariantOptions): string[] => {
+  const extra = options.matrixEnabled
+    ? options.matrixPrompts.split('\n').map(line => line.trim()).filter(Boolean)
+    : [];
+  const prompts = Array.from(new Set([prompt.trim(), ...extra]));
+  return prompts.flatMap(p => Array<string>(options.count).fill(p)).slice(0, MAX_VARIANT_JOBS);
+};
+
+/** Runs tasks with at most `limit` in flight. Results keep the order of `tasks`. */
+const runWithConcurrency = async <T,>(tasks: (() => Promise<T>)[], limit: number): Promise<PromiseSettledResult<T>[]> => {
+  const results: PromiseSettledResult<T>[] = new Array(tasks.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await tasks[index]() };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+  return results;
+};
+
+type TiledDirection = 'left' | 'right' | 'both';
+
+interface TiledOutpaintOptions {
+  targetWidth: number;
+  direction: TiledDirection;
+}
+
+/** Snapshot of a tiled job; enough to resume it from the next tile. */
+interface TiledOutpaintState {
+  imageUrl: string;
+  completedTiles: number;
+  totalTiles: number;
+  options: TiledOutpaintOptions;
+}
+
+class TileGenerationError extends Error {
+  state: TiledOutpaintState;
+  /** Why the last attempt at the tile failed. */
+  reason: GenerationError;
+
+  constructor(message: string, state: TiledOutpaintState, reason: GenerationError) {
+    super(message);
+    this.name = 'TileGenerationError';
+    this.state = state;
+    this.reason = reason;
+  }
+}
+
+// Each window sent to the model has this shape; it is what the model handles best.
+const TILE_WINDOW_ASPECT_RATIO = 16 / 9;
+// Share of every window filled with already existing pixels, giving the model context.
+const TILE_CONTEXT_RATIO = 0.5;
+// Share of every window over which the new tile is cross-faded into existing pixels.
+const TILE_FEATHER_RATIO = 0.15;
+// Taller canvases are downscaled first, otherwise each window becomes too large to send.
+const TILE_MAX_HEIGHT = 1024;
+const TILED_MAX_TARGET_WIDTH = 16384;
+
+const getTileWindow = (height: number) => {
+  const width = Math.round(height * TILE_WINDOW_ASPECT_RATIO);
+  const context = Math.round(width * TILE_CONTEXT_RATIO);
+  const feather = Math.round(width * TILE_FEATHER_RATIO);
+  return { width, context, feather, step: width - context };
+};
+
+/**
+ * Prepares a tiled job for the given image: normalises its height and works out how many
+ * tiles are needed to reach the target width.
+ */
+const planTiledOutpaint = async (imageUrl: string, options: TiledOutpaintOptions): Promise<TiledOutpaintState> => {
+  const img = await loadImage(imageUrl);
+  let normalizedUrl = imageUrl;
+  let width = img.naturalWidth;
+  let height = img.naturalHeight;
+  if (height > TILE_MAX_HEIGHT) {
+    width = Math.round(width * TILE_MAX_HEIGHT / height);
+    height = TILE_MAX_HEIGHT;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error(t('error.canvasContext'));
+    }
+    ctx.drawImage(img, 0, 0, width, height);
+    normalizedUrl = canvas.toDataURL('image/png');
+  }
+  const targetWidth = Math.min(TILED_MAX_TARGET_WIDTH, options.targetWidth);
+  if (targetWidth <= width) {
+    throw new Error(t('tiled.alreadyWide', { width: targetWidth }));
+  }
+  const { step } = getTileWindow(height);
+  return {
+    imageUrl: normalizedUrl,
+    completedTiles: 0,
+    totalTiles: Math.ceil((targetWidth - width) / step),
+    options: { ...options, targetWidth },
+  };
+};
+
+/**
+ * Grows the canvas by one tile on the given side: the edge of the current canvas is sent
+ * as the context part of a window, and the model's output is feathered back in.
+ */
+const outpaintTile = async (
+  imageUrl: string,
+  side: 'left' | 'right',
+  targetWidth: number,
+  userPrompt: string,
+  provider: ImageProvider,
+  request: RequestOptions
+): Promise<string> => {
+  const img = await loadImage(imageUrl);
+  const height = img.naturalHeight;
+  const tile = getTileWindow(height);
+
+  const windowCanvas = document.createElement('canvas');
+  windowCanvas.width = tile.width;
+  windowCanvas.height = height;
+  const windowCtx = windowCanvas.getContext('2d');
+  if (!windowCtx) {
+    throw new Error(t('error.canvasContext'));
+  }
+  if (side === 'right') {
+    windowCtx.drawImage(img, img.naturalWidth - tile.context, 0, tile.context, height, 0, 0, tile.context, height);
+  } else {
+    windowCtx.drawImage(img, 0, 0, tile.context, height, tile.width - tile.context, 0, tile.context, height);
+  }
+  const windowBase64 = windowCanvas.toDataURL('image/png').split(',')[1];
+  const windowTemplate: TemplateOptions = {
+    width: tile.width,
+    height,
+    anchor: side === 'right' ? 'left' : 'right',
+    projection: 'flat',
+  };
+  const result = await runWithRetry(signal => provider.outpaint(windowBase64, 'image/png', userPrompt, windowTemplate, signal), request);
+  if (!result.imageUrl) throw new NoImageError();
+  const generated = await loadImage(result.imageUrl);
+
+  // Mask the generated window so it fades in across the feather zone at the context boundary.
+  windowCtx.clearRect(0, 0, tile.width, height);
+  windowCtx.drawImage(generated, 0, 0, tile.width, height);
+  const boundary = side === 'right' ? tile.context : tile.width - tile.context;
+  const fadeStart = side === 'right' ? boundary - tile.feather : boundary + tile.feather;
+  const gradient = windowCtx.createLinearGradient(fadeStart, 0, boundary, 0);
+  gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+  gradient.addColorStop(1, 'rgba(0, 0, 0, 1)');
+  windowCtx.globalCompositeOperation = 'destination-in';
+  windowCtx.fillStyle = gradient;
+  windowCtx.fillRect(0, 0, tile.width, height);
+  windowCtx.globalCompositeOperation = 'source-over';
+
+  const newPixels = Math.min(tile.step, targetWidth - img.naturalWidth);
+  const output = document.createElement('canvas');
+  output.width = img.naturalWidth + newPixels;
+  output.height = height;
+  const outputCtx = output.getContext('2d');
+  if (!outputCtx) {
+    throw new Error(t('error.canvasContext'));
+  }
+  if (side === 'right') {
+    outputCtx.drawImage(img, 0, 0);
+    outputCtx.drawImage(windowCanvas, img.naturalWidth - tile.context, 0);
+  } else {
+    outputCtx.drawImage(img, newPixels, 0);
+    outputCtx.drawImage(windowCanvas, newPixels + tile.context - tile.width, 0);
+  }
+  return output.toDataURL('image/png');
+};
+
+/**
+ * Runs (or resumes) a tiled job. Each tile is retried as the request settings allow; if it
+ * still fails, a TileGenerationError carries the progress made so far.
+ */
+const generateTiledPanorama = async (
+  initialState: TiledOutpaintState,
+  userPrompt: string,
+  provider: ImageProvider,
+  request: RequestOptions,
+  onProgress: (tile: number, totalTiles: number) => void
+): Promise<string> => {
+  let state = initialState;
+  const { targetWidth, direction } = state.options;
+  while (state.completedTiles < state.totalTiles) {
+    const tileNumber = state.completedTiles + 1;
+    const side = direction === 'both' ? (state.completedTiles % 2 === 0 ? 'right' : 'left') : direction;
+    onProgress(tileNumber, state.totalTiles);
+    let imageUrl: string;
+    try {
+      imageUrl = await outpaintTile(state.imageUrl, side, targetWidth, userPrompt, provider, request);
+    } catch (error) {
+      if (error instanceof GenerationCancelledError) throw error;
+      console.error(`Tile ${tileNumber} failed:`, error);
+      const reason = toGenerationError(error);
+      throw new TileGenerationError(t('tiled.tileFailed', { tile: tileNumber, total: state.totalTiles, reason: reason.message }), state, reason);
+    }
+    state = { ...state, imageUrl, completedTiles: tileNumber };
+  }
+  return state.imageUrl;
+};
+
+// Edge of every enhanced tile in output pixels; about what the model returns at full detail.
+const ENHANCE_TILE_SIZE = 1024;
+// Output pixels shared by neighbouring tiles, across which they are cross-faded.
+const ENHANCE_TILE_OVERLAP = 128;
+
+/** Evenly spaced tile offsets along one axis, overlapping by at least ENHANCE_TILE_OVERLAP. */
+const getEnhanceTileStarts = (size: number): number[] => {
+  if (size <= ENHANCE_TILE_SIZE) return [0];
+  const count = Math.ceil((size - ENHANCE_TILE_OVERLAP) / (ENHANCE_TILE_SIZE - ENHANCE_TILE_OVERLAP));
+  const step = (size - ENHANCE_TILE_SIZE) / (count - 1);
+  return Array.from({ length: count }, (_, i) => Math.round(i * step));
+};
+
+/**
+ * Enhances an image tile by tile. It is first upscaled locally to the output size; then
+ * every tile is enhanced by the model on its own and faded into the tiles above and to
+ * the left, so the result is no longer limited to the model's output resolution.
+ */
+const enhanceImageTiled = async (
+  imageUrl: string,
+  factor: number,
+  provider: ImageProvider,
+  request: RequestOptions,
+  onProgress: (tile: number, totalTiles: number) => void
+): Promise<string> => {
+  const baseUrl = factor > 1 ? await upscaleImage(imageUrl, factor, 0) : imageUrl;
+  const base = await loadImage(baseUrl);
+  const width = base.naturalWidth;
+  const height = base.naturalHeight;
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const outputCtx = output.getContext('2d');
+  const tileCanvas = document.createElement('canvas');
+  const tileCtx = tileCanvas.getContext('2d');
+  if (!outputCtx || !tileCtx) {
+    throw new Error(t('error.canvasContext'));
+  }
+  const xs = getEnhanceTileStarts(width);
+  const ys = getEnhanceTileStarts(height);
+  const totalTiles = xs.length * ys.length;
+  let tileNumber = 0;
+  for (const y of ys) {
+    for (const x of xs) {
+      onProgress(++tileNumber, totalTiles);
+      const tileWidth = Math.min(ENHANCE_TILE_SIZE, width - x);
+      const tileHeight = Math.min(ENHANCE_TILE_SIZE, height - y);
+      tileCanvas.width = tileWidth;
+      tileCanvas.height = tileHeight;
+      tileCtx.drawImage(base, x, y, tileWidth, tileHeight, 0, 0, tileWidth, tileHeight);
+      const tileBase64 = tileCanvas.toDataURL('image/png').split(',')[1];
+      const result = await runWithRetry(signal => provider.enhance(tileBase64, 'image/png', signal), request);
+      if (!result.imageUrl) throw new NoImageError();
+      const enhanced = await loadImage(result.imageUrl);
+      tileCtx.clearRect(0, 0, tileWidth, tileHeight);
+      tileCtx.drawImage(enhanced, 0, 0, tileWidth, tileHeight);
+      tileCtx.globalCompositeOperation = 'destination-in';
+      if (x > 0) {
+        const gradient = tileCtx.createLinearGradient(0, 0, ENHANCE_TILE_OVERLAP, 0);
+        gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+        gradient.addColorStop(1, 'rgba(0, 0, 0, 1)');
+        tileCtx.fillStyle = gradient;
+        tileCtx.fillRect(0, 0, tileWidth, tileHeight);
+      }
+      if (y > 0) {
+        const gradient = tileCtx.createLinearGradient(0, 0, 0, ENHANCE_TILE_OVERLAP);
+        gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+        gradient.addColorStop(1, 'rgba(0, 0, 0, 1)');
+        tileCtx.fillStyle = gradient;
+        tileCtx.fillRect(0, 0, tileWidth, tileHeight);
+      }
+      tileCtx.globalCompositeOperation = 'source-over';
+      outputCtx.drawImage(tileCanvas, x, y);
+    }
+  }
+  return output.toDataURL('image/png');
+};
+
+type EnhanceMode = 'ai' | 'local' | 'tiled';
+
+interface EnhanceOptions {
+  mode: EnhanceMode;
+  /** Output size relative to the input; the whole-image AI mode keeps what the model returns. */
+  factor: number;
+  /** Unsharp mask strength of the local upscaler; 0 turns it off. */
+  sharpen: number;
+}
+
+interface EnhanceEstimate {
+  width: number;
+  height: number;
+  /** Rough peak of the pixel buffers the run allocates. */
+  memoryBytes: number;
+  requests: number;
+}
+
+/** What a run will produce and cost, or null when the output exceeds the upscaler's limits. */
+const estimateEnhance = (options: EnhanceOptions, width: number, height: number): EnhanceEstimate | null => {
+  if (options.mode === 'ai') {
+    return { width, height, memoryBytes: width * height * 4 * 2, requests: 1 };
+  }
+  const size = getUpscaleSize(width, height, options.factor);
+  if (!size) return null;
+  const outputBytes = size.width * size.height * 4;
+  // Source pixels, the float buffer of the horizontal pass and the output canvas with its ImageData.
+  const upscaleBytes = width * height * 4 * 2 + size.width * height * 16 + outputBytes * 2;
+  if (options.mode === 'local') {
+    return { ...size, memoryBytes: upscaleBytes + (options.sharpen > 0 ? outputBytes : 0), requests: 0 };
+  }
+  return {
+    ...size,
+    memoryBytes: (options.factor > 1 ? upscaleBytes : 0) + outputBytes * 2,
+    requests: getEnhanceTileStarts(size.width).length * getEnhanceTileStarts(size.height).length,
+  };
+};
+
+/** Context around the masked area sent to the model, as a fraction of the mask's larger side. */
+const INPAINT_CONTEXT_RATIO = 0.5;
+const INPAINT_MIN_CONTEXT = 64;
+
+/**
+ * Regenerates the painted area of an image. Only a crop around the mask (plus some
+ * context) is sent to the provider; the returned pixels are pasted back through the
+ * mask, with the feather fading inward so nothing outside the mask changes.
+ *
+ * `mask` is a canvas of the image's size whose non-transparent pixels mark the area.
+ */
+const inpaintRegion = async (
+  imageUrl: string,
+  mask: HTMLCanvasElement,
+  userPrompt: string,
+  featherPx: number,
+  provider: ImageProvider,
+  request: RequestOptions
+): Promise<string> => {
+  const img = await loadImage(imageUrl);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const maskLayer = createCanvasContext(width, height);
+  maskLayer.ctx.drawImage(mask, 0, 0, width, height);
+  const maskAlpha = maskLayer.ctx.getImageData(0, 0, width, height).data;
+
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (maskAlpha[(y * width + x) * 4 + 3] > 0) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  if (maxX < 0) {
+    throw new Error(t('inpaint.emptyMask'));
+  }
+  // A feather wider than the stroke would fade the patch out completely.
+  featherPx = Math.min(featherPx, Math.min(maxX - minX + 1, maxY - minY + 1) / 4);
+  const context = Math.max(INPAINT_MIN_CONTEXT, Math.round(Math.max(maxX - minX, maxY - minY) * INPAINT_CONTEXT_RATIO));
+  const cropX = Math.max(0, minX - context);
+  const cropY = Math.max(0, minY - context);
+  const cropWidth = Math.min(width, maxX + 1 + context) - cropX;
+  const cropHeight = Math.min(height, maxY + 1 + context) - cropY;
+
+  const crop = createCanvasContext(cropWidth, cropHeight);
+  crop.ctx.drawImage(img, cropX, cropY, cropWidth, cropHeight, 0, 0, cropWidth, cropHeight);
+  // Binary mask for the model: white = regenerate.
+  const hardMask = createCanvasContext(cropWidth, cropHeight);
+  const hardData = hardMask.ctx.createImageData(cropWidth, cropHeight);
+  for (let y = 0; y < cropHeight; y++) {
+    for (let x = 0; x < cropWidth; x++) {
+      const value = maskAlpha[((y + cropY) * width + x + cropX) * 4 + 3] > 0 ? 255 : 0;
+      const index = (y * cropWidth + x) * 4;
+      hardData.data[index] = value;
+      hardData.data[index + 1] = value;
+      hardData.data[index + 2] = value;
+      hardData.data[index + 3] = 255;
+    }
+  }
+  hardMask.ctx.putImageData(hardData, 0, 0);
+
+  const result = await runWithRetry(signal => provider.inpaint(
+    crop.canvas.toDataURL('image/png').split(',')[1],
+    'image/png',
+    hardMask.canvas.toDataURL('image/png').split(',')[1],
+    userPrompt,
+    signal
+  ), request);
+  if (!result.imageUrl) throw new NoImageError();
+  const patchImg = await loadImage(result.imageUrl);
+
+  // Feather inward: blur the mask (downscale-and-upscale), then keep only the part of
+  // the ramp that lies inside it, so the alpha reaches zero exactly at the mask edge.
+  const feather = createCanvasContext(cropWidth, cropHeight);
+  if (featherPx >= 1) {
+    const small = createCanvasContext(Math.max(1, Math.round(cropWidth / featherPx)), Math.max(1, Math.round(cropHeight / featherPx)));
+    small.ctx.imageSmoothingQuality = 'high';
+    small.ctx.drawImage(hardMask.canvas, 0, 0, small.canvas.width, small.canvas.height);
+    feather.ctx.imageSmoothingQuality = 'high';
+    feather.ctx.drawImage(small.canvas, 0, 0, cropWidth, cropHeight);
+  } else {
+    feather.ctx.drawImage(hardMask.canvas, 0, 0);
+  }
+  const featherData = feather.ctx.getImageData(0, 0, cropWidth, cropHeight).data;
+
+  const patch = createCanvasContext(cropWidth, cropHeight);
+  patch.ctx.imageSmoothingQuality = 'high';
+  // The model may answer at a different resolution.
+  patch.ctx.drawImage(patchImg, 0, 0, cropWidth, cropHeight);
+  const patchData = patch.ctx.getImageData(0, 0, cropWidth, cropHeight);
+  for (let i = 0; i < patchData.data.length; i += 4) {
+    if (hardData.data[i] === 0) {
+      patchData.data[i + 3] = 0;
+    } else if (featherPx >= 1) {
+      patchData.data[i + 3] = Math.max(0, Math.min(255, (featherData[i] - 128) * 2));
+    }
+  }
+  patch.ctx.putImageData(patchData, 0, 0);
+
+  const output = createCanvasContext(width, height);
+  output.ctx.drawImage(img, 0, 0);
+  output.ctx.drawImage(patch.canvas, cropX, cropY);
+  return output.canvas.toDataURL('image/png');
+};
+
+/** Shifts an image by half its width, wrapping around; doing it twice gives back the original. */
+const rollHalfWidth = async (imageUrl: string): Promise<string> => {
+  const img = await loadImage(imageUrl);
+  const width = img.naturalWidth;
+  const half = Math.floor(width / 2);
+  const output = createCanvasContext(width, img.naturalHeight);
+  output.ctx.drawImage(img, half - width, 0);
+  output.ctx.drawImage(img, half, 0);
+  return output.canvas.toDataURL('image/png');
+};
+
+/**
+ * Closes the wrap seam of an equirectangular result. Colours are matched across it first;
+ * then the image is rolled by half its width so the seam runs down the middle, a strip
+ * across it is inpainted so the content continues from one edge into the other, and the
+ * image is rolled back. If the model fails, the colour-matched image is kept.
+ */
+const closeEquirectangularSeam = async (
+  imageUrl: string,
+  userPrompt: string,
+  provider: ImageProvider,
+  request: RequestOptions
+): Promise<string> => {
+  const matched = await fixEquirectangularSeam(imageUrl);
+  try {
+    const rolled = await rollHalfWidth(matched);
+    const img = await loadImage(rolled);
+    const strip = Math.max(16, Math.round(img.naturalWidth * SEAM_REPAINT_RATIO));
+    const mask = createCanvasContext(img.naturalWidth, img.naturalHeight);
+    mask.ctx.fillRect(Math.round((img.naturalWidth - strip) / 2), 0, strip, img.naturalHeight);
+    const repainted = await inpaintRegion(rolled, mask.canvas, userPrompt, strip / 4, provider, request);
+    return await rollHalfWidth(repainted);
+  } catch (error) {
+    if (error instanceof GenerationCancelledError) throw error;
+    console.error('Failed to redraw the wrap seam, keeping the colour-matched result:', error);
+    return matched;
+  }
+};
+
+// --- API KEYS ---
+
+const API_KEY_PROFILES_KEY = 'nano-panorama-api-key-profiles';
+const ACTIVE_API_KEY_PROFILE_KEY = 'nano-panorama-api-key-profile';
+// OWASP's current recommendation for PBKDF2-HMAC-SHA256; deriving takes well under a second.
+const KEY_DERIVATION_ITERATIONS = 600000;
+const API_KEY_CHECK_TIMEOUT_MS = 20000;
+
+/** A saved key, encrypted with AES-GCM under a key derived from the user's passphrase. */
+interface ApiKeyProfile {
+  id: string;
+  name: string;
+  /** Base64 of the PBKDF2 salt, the GCM nonce and the encrypted key. */
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+/** GEMINI_API_KEY from .env, written into the page by the Vite config. */
+interface EnvApiKey {
+  key: string;
+  /** The page is a production build, so anyone who opens it can read the key. */
+  production: boolean;
+}
+
+const ENV_API_KEY: EnvApiKey | null = (() => {
+  const injected = (window as unknown as { __NANO_PANORAMA_ENV__?: Partial<EnvApiKey> }).__NANO_PANORAMA_ENV__;
+  if (!injected || typeof injected.key !== 'string' || !injected.key) return null;
+  const env = { key: injected.key, production: !!injected.production };
+  if (env.production) {
+    console.warn('GEMINI_API_KEY from .env is embedded in this production build; anyone who opens the page can read it.');
+  }
+  return env;
+})();
+
+const bytesToBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const base64ToBytes = (base64: string): Uint8Array => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+const isApiKeyProfile = (value: unknown): value is ApiKeyProfile => {
+  const profile = value as ApiKeyProfile;
+  return typeof profile === 'object' && profile !== null
+    && typeof profile.id === 'string' && typeof profile.name === 'string'
+    && typeof profile.salt === 'string' && typeof profile.iv === 'string' && typeof profile.ciphertext === 'string';
+};
+
+const loadApiKeyProfiles = (): ApiKeyProfile[] => {
+  const stored = readStoredJson(API_KEY_PROFILES_KEY);
+  return Array.isArray(stored) ? stored.filter(isApiKeyProfile) : [];
+};
+
+const deriveProfileKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  // WebCrypto only exists in secure contexts; a plain-http page has no way to encrypt.
+  if (!crypto.subtle) {
+    throw new Error(t('apiKey.noCrypto'));
+  }
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: KEY_DERIVATION_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encryptApiKey = async (name: string, apiKey: string, passphrase: string): Promise<ApiKeyProfile> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveProfileKey(passphrase, salt);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(apiKey));
+  return {
+    id: `key-${Date.now()}`,
+    name,
+    salt: bytesToBase64(salt),
+    iv: bytesToBase64(iv),
+    ciphertext: bytesToBase64(new Uint8Array(ciphertext)),
+  };
+};
+
+const decryptApiKey = async (profile: ApiKeyProfile, passphrase: string): Promise<string> => {
+  const key = await deriveProfileKey(passphrase, base64ToBytes(profile.salt));
+  try {
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(profile.iv) }, key, base64ToBytes(profile.ciphertext));
+    return new TextDecoder().decode(plain);
+  } catch {
+    // GCM authenticates the data, so a wrong passphrase fails here instead of yielding garbage.
+    throw new Error(t('apiKey.wrongPassphrase'));
+  }
+};
+
+/** Asks the API about the image model: cheap, and fails the same way a generation would for a bad key. */
+const validateGeminiApiKey = async (apiKey: string): Promise<void> => {
+  const ai = new GoogleGenAI({ apiKey });
+  try {
+    await ai.models.get({ model: GEMINI_IMAGE_MODEL, config: { abortSignal: AbortSignal.timeout(API_KEY_CHECK_TIMEOUT_MS) } });
+  } catch (error) {
+    throw toGenerationError(error);
+  }
+};
+
+// --- PROMPT LIBRARY ---
+
+interface PromptPreset {
+  id: string;
+  name: string;
+  /** Style prompt; may contain `{variables}` filled in at generation time. */
+  text: string;
+}
+
+interface PromptTemplateVersion {
+  id: number;
+  createdAt: number;
+  text: string;
+}
+
+/** Saved versions of one system template; a null `activeId` means the built-in text. */
+interface PromptTemplateHistory {
+  versions: PromptTemplateVersion[];
+  activeId: number | null;
+}
+
+type PromptTemplateStore = Record<PromptTemplateId, PromptTemplateHistory>;
+
+/** Saved versions are kept apart for each prompt language. */
+type PromptTemplateLibrary = Record<Locale, PromptTemplateStore>;
+
+const PROMPT_PRESETS_KEY = 'nano-panorama-prompt-presets';
+const PROMPT_TEMPLATES_KEY = 'nano-panorama-prompt-templates';
+const PRESET_FILE_FORMAT = 'nano-panorama-presets';
+const PRESET_FILE_VERSION = 1;
+// Older versions beyond this are dropped, except the active one.
+const MAX_TEMPLATE_VERSIONS = 20;
+
+// Seeded on first run in the UI language; after that presets are the user's own and aren't translated.
+const BUILT_IN_PROMPT_PRESETS: Record<Locale, PromptPreset[]> = {
+  en: [
+    { id: 'golden-hour', name: 'Golden hour', text: 'warm golden-hour light, long soft shadows, low sun over {place}' },
+    { id: 'fantasy', name: 'Fantasy', text: 'epic fantasy landscape: {creatures} in the distance, floating rocks, a magical glow in the sky' },
+    { id: 'interior-wide', name: 'Interior, wide angle', text: '{room} interior shot with a wide-angle lens, straight verticals, soft natural light from the windows' },
+    { id: 'night-city', name: 'Night city', text: 'a city at night after the rain, neon signs reflected in the wet asphalt' },
+    { id: 'real-estate', name: 'Real estate', text: 'well-kept grounds around {property}: a neat lawn, paths, a clear blue sky' },
+  ],
+  ru: [
+    { id: 'golden-hour', name: 'Золотой час', text: 'тёплый свет золотого часа, длинные мягкие тени, низкое солнце над {место}' },
+    { id: 'fantasy', name: 'Фэнтези', text: 'эпический фэнтезийный пейзаж: {существа} вдали, парящие скалы, магическое сияние в небе' },
+    { id: 'interior-wide', name: 'Интерьер, широкий угол', text: 'интерьер {помещение}, съёмка широкоугольным объективом, ровные вертикали, мягкий естественный свет из окон' },
+    { id: 'night-city', name: 'Ночной город', text: 'ночной город после дождя, неоновые вывески отражаются в мокром асфальте' },
+    { id: 'real-estate', name: 'Недвижимость', text: 'ухоженная территория вокруг {объект}: аккуратный газон, дорожки, чистое голубое небо' },
+  ],
+};
+
+const isPromptPreset = (value: unknown): value is PromptPreset => {
+  const preset = value as PromptPreset;
+  return typeof preset === 'object' && preset !== null
+    && typeof preset.id === 'string' && typeof preset.name === 'string' && typeof preset.text === 'string';
+};
+
+const readStoredJson = (key: string): unknown => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  } catch (e) {
+    console.error(`Failed to read ${key} from localStorage`, e);
+    return null;
+  }
+};
+
+const writeStoredJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.error(`Failed to write ${key} to localStorage`, e);
+  }
+};
+
+/** Saved presets, or the built-in set on first run. */
+const loadPromptPresets = (): PromptPreset[] => {
+  const stored = readStoredJson(PROMPT_PRESETS_KEY);
+  return Array.isArray(stored) ? stored.filter(isPromptPreset) : BUILT_IN_PROMPT_PRESETS[activeLocale];
+};
+
+const PROMPT_TEMPLATE_IDS = Object.keys(DEFAULT_PROMPT_TEMPLATES.en) as PromptTemplateId[];
+
+const parsePromptTemplateStore = (stored: Partial<PromptTemplateStore> | null | undefined): PromptTemplateStore => {
+  const store = {} as PromptTemplateStore;
+  for (const id of PROMPT_TEMPLATE_IDS) {
+    const history = stored?.[id];
+    const versions = Array.isArray(history?.versions)
+      ? history.versions.filter(version => typeof version?.id === 'number' && typeof version.text === 'string')
+      : [];
+    const activeId = versions.some(version => version.id === history?.activeId) ? history.activeId : null;
+    store[id] = { versions, activeId };
+  }
+  return store;
+};
+
+const loadPromptTemplateLibrary = (): PromptTemplateLibrary => {
+  const stored = readStoredJson(PROMPT_TEMPLATES_KEY) as Partial<Record<Locale, Partial<PromptTemplateStore>>> | null;
+  // Before prompt languages existed a single set was stored; those edits were made to the Russian texts.
+  if (stored && PROMPT_TEMPLATE_IDS.some(id => id in stored)) {
+    return { en: parsePromptTemplateStore(null), ru: parsePromptTemplateStore(stored as Partial<PromptTemplateStore>) };
+  }
+  return { en: parsePromptTemplateStore(stored?.en), ru: parsePromptTemplateStore(stored?.ru) };
+};
+
+/** The template text each operation currently uses. */
+const resolvePromptTemplates = (store: PromptTemplateStore, locale: Locale): PromptTemplateSet => {
+  const result = { ...DEFAULT_PROMPT_TEMPLATES[locale] };
+  for (const id of PROMPT_TEMPLATE_IDS) {
+    const active = store[id].versions.find(version => version.id === store[id].activeId);
+    if (active) result[id] = active.text;
+  }
+  return result;
+};
+
+/** Adds a version and makes it active, trimming the oldest inactive ones past the limit. */
+const addPromptTemplateVersion = (history: PromptTemplateHistory, text: string): PromptTemplateHistory => {
+  const version = { id: Date.now(), createdAt: Date.now(), text };
+  const versions = [...history.versions, version];
+  while (versions.length > MAX_TEMPLATE_VERSIONS) versions.shift();
+  return { versions, activeId: version.id };
+};
+
+const createPromptPresetFile = (presets: PromptPreset[]): Blob =>
+  new Blob(
+    [JSON.stringify({ format: PRESET_FILE_FORMAT, version: PRESET_FILE_VERSION, presets }, null, 2)],
+    { type: 'application/json' }
+  );
+
+/**
+ * Reads a shared preset file and merges it into `current`. Presets with the same name and
+ * text are skipped; a clashing id gets a fresh one.
+ */
+const importPromptPresets = async (file: Blob, current: PromptPreset[]): Promise<{ presets: PromptPreset[]; added: number }> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error(t('presets.notJson'));
+  }
+  const envelope = data as { format?: string; version?: number; presets?: unknown };
+  const list = Array.isArray(data) ? data : envelope?.format === PRESET_FILE_FORMAT ? envelope.presets : null;
+  if (!Array.isArray(list)) {
+    throw new Error(t('presets.wrongFormat'));
+  }
+  if (typeof envelope?.version === 'number' && envelope.version > PRESET_FILE_VERSION) {
+    throw new Error(t('presets.newerVersion', { version: envelope.version }));
+  }
+  const presets = [...current];
+  let added = 0;
+  for (const preset of list.filter(isPromptPreset)) {
+    if (presets.some(existing => existing.name === preset.name && existing.text === preset.text)) continue;
+    const id = presets.some(existing => existing.id === preset.id) ? `${preset.id}-${Date.now()}-${added}` : preset.id;
+    presets.push({ id, name: preset.name, text: preset.text });
+    added++;
+  }
+  return { presets, added };
+};
+
+// --- HISTORY STORE ---
+
+const HISTORY_DB_NAME = 'nano-panorama';
+const HISTORY_DB_VERSION = 3;
+const HISTORY_STORE = 'history';
+/** localStorage key used before history moved to IndexedDB. */
+const LEGACY_HISTORY_KEY = 'panorama-history';
+const HISTORY_PAGE_SIZE = 20;
+const THUMBNAIL_MAX_SIDE = 240;
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error(t('error.transactionAborted')));
+  });
+};
+
+let historyDbPromise: Promise<IDBDatabase> | null = null;
+
+const openHistoryDb = (): Promise<IDBDatabase> => {
+  if (!historyDbPromise) {
+    historyDbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(HISTORY_DB_NAME, HISTORY_DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const store = event.oldVersion < 1
+          ? request.result.createObjectStore(HISTORY_STORE, { keyPath: 'id' })
+          : request.transaction.objectStore(HISTORY_STORE);
+        if (event.oldVersion < 1) store.createIndex('createdAt', 'createdAt');
+        if (event.oldVersion < 2) store.createIndex('resultSha256', 'resultSha256');
+        if (event.oldVersion < 3) store.createIndex('parentId', 'parentId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let the next call try again instead of caching the failure.
+    historyDbPromise.catch(() => { historyDbPromise = null; });
+  }
+  return historyDbPromise;
+};
+
+const createThumbnail = async (image: Blob): Promise<Blob> => {
+  const url = URL.createObjectURL(image);
+  try {
+    const img = await loadImage(url);
+    const scale = Math.min(1, THUMBNAIL_MAX_SIDE / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error(t('error.canvasContext'));
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(t('error.thumbnail'))), 'image/jpeg', 0.8);
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const sha256Hex = async (data: BufferSource): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const createHistoryItem = async (input: HistoryItemInput): Promise<HistoryItem> => {
+  const templateImage = await dataUrlToBlob(`data:${input.templateImageMimeType};base64,${input.templateImageBase64}`);
+  const generatedImage = await dataUrlToBlob(input.generatedImageUrl);
+  return {
+    id: input.id,
+    createdAt: input.id,
+    prompt: input.prompt,
+    templateImage,
+    generatedImage,
+    thumbnail: await createThumbnail(generatedImage),
+    resultSha256: await sha256Hex(await generatedImage.arrayBuffer()),
+    templateOptions: input.templateOptions,
+    sourcePlacement: input.sourcePlacement,
+    provider: input.provider,
+    model: input.model,
+    sourceSha256: input.sourceSha256,
+    parentId: input.parentId,
+    operation: input.operation ?? 'generate',
+  };
+};
+
+const putHistoryItem = async (item: HistoryItem): Promise<void> => {
+  const db = await openHistoryDb();
+  const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+  transaction.objectStore(HISTORY_STORE).put(item);
+  await transactionDone(transaction);
+};
+
+const getAllHistoryItems = async (): Promise<HistoryItem[]> => {
+  const db = await openHistoryDb();
+  return requestToPromise(db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).getAll());
+};
+
+const getHistoryIds = async (): Promise<number[]> => {
+  const db = await openHistoryDb();
+  return requestToPromise(db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).getAllKeys()) as Promise<number[]>;
+};
+
+const hasHistoryResult = async (resultSha256: string): Promise<boolean> => {
+  const db = await openHistoryDb();
+  const key = await requestToPromise(db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).index('resultSha256').getKey(resultSha256));
+  return key !== undefined;
+};
+
+/** Hashes the results of items stored before the hash was recorded; a no-op once every item has one. */
+const backfillResultHashes = async (): Promise<void> => {
+  const db = await openHistoryDb();
+  const store = db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE);
+  const [total, hashed] = await Promise.all([requestToPromise(store.count()), requestToPromise(store.index('resultSha256').count())]);
+  if (total === hashed) return;
+  for (const item of await getAllHistoryItems()) {
+    if (!item.resultSha256) {
+      await putHistoryItem({ ...item, resultSha256: await sha256Hex(await item.generatedImage.arrayBuffer()) });
+    }
+  }
+};
+
+const getHistoryItem = async (id: number): Promise<HistoryItem | undefined> => {
+  const db = await openHistoryDb();
+  return requestToPromise(db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).get(id));
+};
+
+/** All items derived from the given ones, at any depth. */
+const getHistoryDescendants = async (ids: number[]): Promise<HistoryItem[]> => {
+  const db = await openHistoryDb();
+  const index = db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).index('parentId');
+  const descendants: HistoryItem[] = [];
+  let pending = ids;
+  while (pending.length > 0) {
+    const children = (await Promise.all(pending.map(id => requestToPromise<HistoryItem[]>(index.getAll(id))))).flat();
+    descendants.push(...children);
+    pending = children.map(child => child.id);
+  }
+  return descendants;
+};
+
+/** Deletes one item; its children move up to its parent so the rest of the tree survives. */
+const deleteHistoryItem = async (id: number): Promise<void> => {
+  const db = await openHistoryDb();
+  const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+  const store = transaction.objectStore(HISTORY_STORE);
+  const item = await requestToPromise<HistoryItem | undefined>(store.get(id));
+  const children = await requestToPromise<HistoryItem[]>(store.index('parentId').getAll(id));
+  for (const child of children) {
+    store.put({ ...child, parentId: item?.parentId });
+  }
+  store.delete(id);
+  await transactionDone(transaction);
+};
+
+const clearHistoryItems = async (): Promise<void> => {
+  const db = await openHistoryDb();
+  const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+  transaction.objectStore(HISTORY_STORE).clear();
+  await transactionDone(transaction);
+};
+
+interface HistoryPage {
+  /** Root items (those without a parent), newest match first. */
+  items: HistoryItem[];
+  hasMore: boolean;
+  /** Items on or under this page's roots that matched the query themselves. */
+  matchedIds: number[];
+}
+
+/**
+ * Returns one page of root items. The date range narrows the index walk; the prompt filter
+ * is applied to each record on the way. A derived item that matches brings in its root, so
+ * it shows in the tree under it. The walk stops as soon as the page is full.
+ */
+const queryHistory = async (query: HistoryQuery, offset: number, limit: number): Promise<HistoryPage> => {
+  const db = await openHistoryDb();
+  const range = query.from !== null || query.to !== null
+    ? IDBKeyRange.bound(query.from ?? 0, query.to ?? Number.MAX_SAFE_INTEGER)
+    : undefined;
+  const needle = query.text.trim().toLowerCase();
+  const isFiltered = !!needle || range !== undefined;
+  const store = db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE);
+  const roots: HistoryItem[] = [];
+  const rootIds = new Set<number>();
+  // Root of every match seen so far, by match id.
+  const rootOf = new Map<number, number>();
+  const known = new Map<number, HistoryItem>();
+  return new Promise((resolve, reject) => {
+    const finish = (hasMore: boolean) => {
+      const items = roots.slice(offset, offset + limit);
+      const pageRootIds = new Set(items.map(item => item.id));
+      resolve({
+        items,
+        hasMore,
+        matchedIds: isFiltered ? [...rootOf].filter(([, rootId]) => pageRootIds.has(rootId)).map(([id]) => id) : [],
+      });
+    };
+    // Parents are read in the cursor's transaction, so the walk can go on afterwards.
+    const findRoot = (item: HistoryItem, done: (root: HistoryItem) => void) => {
+      const parentId = item.parentId;
+      if (parentId == null) {
+        done(item);
+        return;
+      }
+      const cached = known.get(parentId);
+      if (cached) {
+        findRoot(cached, done);
+        return;
+      }
+      const request = store.get(parentId);
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const parent = request.result as HistoryItem | undefined;
+        // A missing parent leaves the item as the top of what is left of its tree.
+        if (!parent) {
+          done(item);
+          return;
+        }
+        known.set(parent.id, parent);
+        findRoot(parent, done);
+      };
+    };
+    const request = store.index('createdAt').openCursor(range, 'prev');
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        finish(false);
+        return;
+      }
+      const item = cursor.value as HistoryItem;
+      known.set(item.id, item);
+      // Without a filter every root is a match, and the items under it come with it anyway.
+      const isMatch = isFiltered ? !needle || item.prompt.toLowerCase().includes(needle) : item.parentId == null;
+      if (!isMatch) {
+        cursor.continue();
+        return;
+      }
+      findRoot(item, root => {
+        if (!rootIds.has(root.id)) {
+          rootIds.add(root.id);
+          roots.push(root);
+        }
+        rootOf.set(item.id, root.id);
+        // One extra root tells whether there is another page.
+        if (roots.length > offset + limit) {
+          finish(true);
+        } else {
+          cursor.continue();
+        }
+      });
+    };
+  });
+};
+
+/** Everything the history panel shows for a query, read page by page. */
+const getMatchingHistoryItems = async (query: HistoryQuery): Promise<HistoryItem[]> => {
+  const roots: HistoryItem[] = [];
+  for (let hasMore = true; hasMore;) {
+    const page = await queryHistory(query, roots.length, HISTORY_PAGE_SIZE);
+    roots.push(...page.items);
+    hasMore = page.hasMore;
+  }
+  return [...roots, ...await getHistoryDescendants(roots.map(item => item.id))];
+};
+
+/**
+ * Moves entries saved by older versions from localStorage into IndexedDB and removes
+ * the old key, so it runs only once. Returns the number of migrated entries.
+ */
+const migrateLegacyHistory = async (): Promise<number> => {
+  const stored = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!stored) return 0;
+  // Fail before touching localStorage if the database can't be opened at all.
+  await openHistoryDb();
+  let legacyItems: HistoryItemInput[];
+  try {
+    legacyItems = JSON.parse(stored);
+  } catch (e) {
+    // Left in place: the data may still be recoverable by hand.
+    console.error("Failed to parse legacy history from localStorage", e);
+    return 0;
+  }
+  if (!Array.isArray(legacyItems)) {
+    console.error("Legacy history in localStorage is not a list");
+    return 0;
+  }
+  const failed: HistoryItemInput[] = [];
+  for (const legacyItem of legacyItems) {
+    try {
+      await putHistoryItem(await createHistoryItem(legacyItem));
+    } catch (e) {
+      failed.push(legacyItem);
+      console.error(`Failed to migrate history item ${legacyItem.id}`, e);
+    }
+  }
+  // Only what failed stays behind, so the next start retries just those items.
+  if (failed.length === 0) {
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+  } else {
+    localStorage.setItem(LEGACY_HISTORY_KEY, JSON.stringify(failed));
+  }
+  const migrated = legacyItems.length - failed.length;
+  return migrated;
+};
+
+// --- PROJECT BUNDLES ---
+
+// Bundles are plain ZIP archives. Images are already compressed, so entries are written
+// with the "stored" method; deflated entries from other tools are read via DecompressionStream.
+
+const BUNDLE_FORMAT = 'nano-panorama-bundle';
+const BUNDLE_VERSION = 1;
+const BUNDLE_MANIFEST = 'manifest.json';
+
+interface BundleManifestItem {
+  id: number;
+  createdAt: number;
+  prompt: string;
+  provider: ProviderId | null;
+  model: string | null;
+  templateOptions: TemplateOptions | null;
+  sourcePlacement: SourcePlacement | null;
+  /** Missing in bundles written before it was recorded. */
+  sourceSha256?: string | null;
+  parentId: number | null;
+  operation: HistoryOperation;
+  /** Archive paths of the images. */
+  template: string;
+  result: string;
+  /** SHA-256 of the result image, hex. */
+  resultSha256: string;
+}
+
+interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  items: BundleManifestItem[];
+}
+
+interface BundleImportReport {
+  imported: number;
+  duplicates: number;
+  failures: { entry: string; reason: string }[];
+}
+
+interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const createZip = (entries: ZipEntry[]): Blob => {
+  const encoder = new TextEncoder();
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, dosTime, true);
+    local.setUint16(12, dosDate, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, entry.data.length, true);
+    local.setUint32(22, entry.data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    parts.push(local.buffer, name, entry.data);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, 0x0800, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, dosTime, true);
+    header.setUint16(14, dosDate, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, entry.data.length, true);
+    header.setUint32(24, entry.data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+    const record = new Uint8Array(46 + name.length);
+    record.set(new Uint8Array(header.buffer), 0);
+    record.set(name, 46);
+    central.push(record);
+    offset += 30 + name.length + entry.data.length;
+  }
+  const centralSize = central.reduce((sum, record) => sum + record.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+  return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Reads a ZIP archive into a map of entry name to contents. An entry that can't be
+ * decoded maps to an Error, so one bad file doesn't prevent reading the rest.
+ */
+const readZip = async (archive: Blob): Promise<Map<string, Uint8Array | Error>> => {
+  const bytes = new Uint8Array(await archive.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  let endOffset = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) throw new Error(t('zip.notZip'));
+  const count = view.getUint16(endOffset + 10, true);
+  let cursor = view.getUint32(endOffset + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, Uint8Array | Error>();
+  for (let i = 0; i < count; i++) {
+    if (cursor + 46 > bytes.length || view.getUint32(cursor, true) !== 0x02014b50) {
+      throw new Error(t('zip.badDirectory'));
+    }
+    const method = view.getUint16(cursor + 10, true);
+    const crc = view.getUint32(cursor + 16, true);
+    const compressedSize = view.getUint32(cursor + 20, true);
+    const nameLength = view.getUint16(cursor + 28, true);
+    const extraLength = view.getUint16(cursor + 30, true);
+    const commentLength = view.getUint16(cursor + 32, true);
+    const localOffset = view.getUint32(cursor + 42, true);
+    const name = decoder.decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength));
+    cursor += 46 + nameLength + extraLength + commentLength;
+    try {
+      if (localOffset + 30 > bytes.length || view.getUint32(localOffset, true) !== 0x04034b50) {
+        throw new Error(t('zip.badLocalHeader'));
+      }
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+      if (raw.length !== compressedSize) throw new Error(t('zip.truncated'));
+      let data: Uint8Array;
+      if (method === 0) data = raw;
+      else if (method === 8) data = await inflateRaw(raw);
+      else throw new Error(t('zip.unsupportedMethod', { method }));
+      if (crc32(data) !== crc) throw new Error(t('zip.crcMismatch'));
+      entries.set(name, data);
+    } catch (error) {
+      entries.set(name, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+  return entries;
+};
+
+const IMAGE_EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp' };
+
+const getImageMimeType = (path: string): string => {
+  const extension = path.split('.').pop()?.toLowerCase();
+  const match = Object.entries(IMAGE_EXTENSIONS).find(([, ext]) => ext === extension);
+  return match ? match[0] : 'image/png';
+};
+
+const createHistoryBundle = async (items: HistoryItem[]): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const manifestItems: BundleManifestItem[] = [];
+  for (const item of items) {
+    const folder = `items/${item.id}`;
+    const template = `${folder}/template.${IMAGE_EXTENSIONS[item.templateImage.type] ?? 'png'}`;
+    const result = `${folder}/result.${IMAGE_EXTENSIONS[item.generatedImage.type] ?? 'png'}`;
+    const resultData = new Uint8Array(await item.generatedImage.arrayBuffer());
+    entries.push({ name: template, data: new Uint8Array(await item.templateImage.arrayBuffer()) });
+    entries.push({ name: result, data: resultData });
+    manifestItems.push({
+      id: item.id,
+      createdAt: item.createdAt,
+      prompt: item.prompt,
+      provider: item.provider ?? null,
+      model: item.model ?? null,
+      templateOptions: item.templateOptions ?? null,
+      sourcePlacement: item.sourcePlacement ?? null,
+      sourceSha256: item.sourceSha256 ?? null,
+      parentId: item.parentId ?? null,
+      operation: item.operation ?? 'generate',
+      template,
+      result,
+      resultSha256: await sha256Hex(resultData),
+    });
+  }
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    items: manifestItems,
+  };
+  entries.unshift({ name: BUNDLE_MANIFEST, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(entries);
+};
+
+/**
+ * Restores bundle entries into history. Entries whose id or result image is already
+ * stored are counted as duplicates and skipped; unreadable entries are reported.
+ */
+const importHistoryBundle = async (archive: Blob): Promise<BundleImportReport> => {
+  const files = await readZip(archive);
+  const manifestData = files.get(BUNDLE_MANIFEST);
+  if (!manifestData || manifestData instanceof Error) {
+    throw new Error(t('bundle.noManifest'));
+  }
+  let manifest: BundleManifest;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(manifestData));
+  } catch {
+    throw new Error(t('bundle.badManifest'));
+  }
+  if (manifest?.format !== BUNDLE_FORMAT || !Array.isArray(manifest.items)) {
+    throw new Error(t('bundle.unknownFormat'));
+  }
+  if (manifest.version > BUNDLE_VERSION) {
+    throw new Error(t('bundle.newerVersion', { version: manifest.version }));
+  }
+
+  await backfillResultHashes();
+  const knownIds = new Set(await getHistoryIds());
+
+  const report: BundleImportReport = { imported: 0, duplicates: 0, failures: [] };
+  const imported: number[] = [];
+  for (const [index, entry] of manifest.items.entries()) {
+    const label = typeof entry?.prompt === 'string' && entry.prompt ? t('bundle.entryPrompt', { prompt: entry.prompt }) : t('bundle.entryNumber', { index: index + 1 });
+    try {
+      if (typeof entry?.id !== 'number' || typeof entry.prompt !== 'string') {
+        throw new Error(t('bundle.entryNoId'));
+      }
+      const templateData = files.get(entry.template);
+      const resultData = files.get(entry.result);
+      if (!templateData || !resultData) throw new Error(t('bundle.entryNoImages'));
+      if (templateData instanceof Error) throw new Error(t('bundle.entryBadTemplate', { reason: templateData.message }));
+      if (resultData instanceof Error) throw new Error(t('bundle.entryBadResult', { reason: resultData.message }));
+      const hash = await sha256Hex(resultData);
+      if (entry.resultSha256 && entry.resultSha256 !== hash) throw new Error(t('bundle.entryHashMismatch'));
+      if (knownIds.has(entry.id) || await hasHistoryResult(hash)) {
+        report.duplicates++;
+        continue;
+      }
+      const generatedImage = new Blob([resultData], { type: getImageMimeType(entry.result) });
+      await putHistoryItem({
+        id: entry.id,
+        createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : entry.id,
+        prompt: entry.prompt,
+        templateImage: new Blob([templateData], { type: getImageMimeType(entry.template) }),
+        generatedImage,
+        thumbnail: await createThumbnail(generatedImage),
+        resultSha256: hash,
+        templateOptions: entry.templateOptions ?? undefined,
+        sourcePlacement: entry.sourcePlacement ?? undefined,
+        provider: entry.provider ?? undefined,
+        model: entry.model ?? undefined,
+        sourceSha256: typeof entry.sourceSha256 === 'string' ? entry.sourceSha256 : undefined,
+        parentId: typeof entry.parentId === 'number' ? entry.parentId : undefined,
+        operation: entry.operation ?? 'generate',
+      });
+      imported.push(entry.id);
+      knownIds.add(entry.id);
+      report.imported++;
+    } catch (error) {
+      report.failures.push({ entry: label, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  // A parent may be missing if it wasn't exported or failed to import; such items become roots.
+  for (const id of imported) {
+    const item = await getHistoryItem(id);
+    if (item?.parentId !== undefined && !knownIds.has(item.parentId)) {
+      await putHistoryItem({ ...item, parentId: undefined });
+    }
+  }
+  return report;
+};
+
+// --- BATCH QUEUE ---
+
+const MAX_BATCH_ITEMS = 200;
+const MAX_BATCH_CONCURRENCY = 4;
+const DEFAULT_BATCH_CONCURRENCY = 2;
+
+/** Shared settings a batch job falls back to when its item has no override. */
+interface BatchSharedSettings {
+  prompt: string;
+  templateOptions: TemplateOptions;
+  provider: ProviderSettings;
+  request: RequestSettings;
+  input: InputSettings;
+}
+
+let lastBatchHistoryId = 0;
+
+// Parallel jobs can finish within the same millisecond, but history ids must stay unique.
+const nextBatchHistoryId = (): number => {
+  lastBatchHistoryId = Math.max(Date.now(), lastBatchHistoryId + 1);
+  return lastBatchHistoryId;
+};
+
+/**
+ * Runs one batch item end to end: builds its template, outpaints it with retries and fixes
+ * the wrap seam of 360° results. Returns the entry to store in history.
+ */
+const runBatchItem = async (
+  item: BatchItem,
+  shared: BatchSharedSettings,
+  signal: AbortSignal
+): Promise<HistoryItemInput> => {
+  const template = item.templateOptions ?? shared.templateOptions;
+  const prompt = item.prompt.trim() || shared.prompt;
+  // The queue reports GenerationErrors; keep the input pipeline's explanation as the message.
+  const { file } = await prepareSourceImage(item.file, shared.input).catch((err: unknown) => {
+    throw new GenerationError('unknown', err instanceof Error ? err.message : t('error.processImage'));
+  });
+  const { base64, mimeType, placement } = await createImageTemplate(file, template);
+  const provider = createImageProvider(shared.provider);
+  const result = await runWithRetry(
+    requestSignal => provider.outpaint(base64, mimeType, prompt, template, requestSignal),
+    { signal, settings: shared.request }
+  );
+  if (!result.imageUrl) throw new NoImageError();
+  const imageUrl = template.projection === 'equirectangular'
+    ? await closeEquirectangularSeam(result.imageUrl, prompt, provider, { signal, settings: shared.request })
+    : result.imageUrl;
+  return {
+    id: nextBatchHistoryId(),
+    prompt,
+    templateImageBase64: base64,
+    templateImageMimeType: mimeType,
+    generatedImageUrl: imageUrl,
+    templateOptions: template,
+    sourcePlacement: placement,
+    provider: provider.id,
+    model: getProviderModel(provider.id),
+    sourceSha256: await sha256Hex(await file.arrayBuffer()),
+    operation: 'generate',
+  };
+};
+
+const toCsvField = (value: string | number | null): string => {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Packs every finished result into one ZIP together with `report.json` and `report.csv`,
+ * which list all items, including the ones that failed or never ran.
+ */
+const createBatchArchive = async (items: BatchItem[], shared: BatchSharedSettings): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const rows: Record<string, string | number | null>[] = [];
+  for (const [index, item] of items.entries()) {
+    const template = item.appliedTemplate ?? item.templateOptions ?? shared.templateOptions;
+    let result: string | null = null;
+    if (item.resultUrl) {
+      const blob = await dataUrlToBlob(item.resultUrl);
+      const baseName = item.file.name.replace(/\.[^.]+$/, '') || 'image';
+      result = `results/${String(index + 1).padStart(3, '0')}-${baseName}.${IMAGE_EXTENSIONS[blob.type] ?? 'png'}`;
+      entries.push({ name: result, data: new Uint8Array(await blob.arrayBuffer()) });
+    }
+    rows.push({
+      index: index + 1,
+      source: item.file.name,
+      status: item.status,
+      prompt: item.appliedPrompt ?? (item.prompt.trim() || shared.prompt),
+      width: template.width,
+      height: template.height,
+      projection: template.projection,
+      result,
+      historyId: item.historyId,
+      error: item.error?.message ?? null,
+      durationMs: item.startedAt && item.finishedAt ? item.finishedAt - item.startedAt : null,
+    });
+  }
+  const columns = ['index', 'source', 'status', 'prompt', 'width', 'height', 'projection', 'result', 'historyId', 'error', 'durationMs'];
+  const csv = [columns.join(','), ...rows.map(row => columns.map(column => toCsvField(row[column])).join(','))].join('\r\n');
+  const report = {
+    createdAt: new Date().toISOString(),
+    total: items.length,
+    done: items.filter(item => item.status === 'done').length,
+    failed: items.filter(item => item.status === 'failed').length,
+    items: rows,
+  };
+  const encoder = new TextEncoder();
+  entries.push({ name: 'report.json', data: encoder.encode(JSON.stringify(report, null, 2)) });
+  // The BOM makes spreadsheet apps read the Cyrillic file names and prompts as UTF-8.
+  entries.push({ name: 'report.csv', data: encoder.encode(`\uFEFF${csv}`) });
+  return createZip(entries);
+};
+
+// --- IMAGE METADATA ---
+
+/** How a result was made; written into exported files so it can be reproduced from disk. */
+interface GenerationMetadata {
+  prompt: string;
+  provider: ProviderId | null;
+  model: string | null;
+  /** Aspect ratio of the template the model was asked to fill, e.g. "16:9". */
+  ratio: string;
+  templateOptions: TemplateOptions;
+  /** SHA-256 of the source image, hex. */
+  sourceSha256: string | null;
+  createdAt: string;
+}
+
+// PNG text keyword and XMP property that carry the full metadata as JSON.
+const METADATA_KEYWORD = 'nano-panorama';
+const CREATOR_TOOL = 'Nano Banana Panorama Generator';
+const METADATA_NAMESPACE = 'urn:nano-panorama:metadata:1.0/';
+const RDF_NAMESPACE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+const XMP_PNG_KEYWORD = 'XML:com.adobe.xmp';
+const XMP_JPEG_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+// Signature plus the IHDR chunk, which must stay first.
+const PNG_IHDR_END = 33;
+// Bit of the VP8X flags byte announcing an XMP chunk.
+const WEBP_XMP_FLAG = 0x04;
+const WEBP_ALPHA_FLAG = 0x10;
+const MAX_JPEG_SEGMENT_SIZE = 0xffff;
+
+const latin1Bytes = (text: string): Uint8Array => Uint8Array.from(text, char => char.charCodeAt(0) & 0xff);
+const readFourCC = (bytes: Uint8Array, offset: number): string => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+const hasPrefix = (bytes: Uint8Array, prefix: ArrayLike<number>, offset = 0): boolean =>
+  bytes.length >= offset + prefix.length && Array.from(prefix).every((byte, i) => bytes[offset + i] === byte);
+const writeUint24 = (bytes: Uint8Array, offset: number, value: number) => {
+  bytes[offset] = value & 0xff;
+  bytes[offset + 1] = (value >> 8) & 0xff;
+  bytes[offset + 2] = (value >> 16) & 0xff;
+};
+
+const escapeXml = (text: string): string => text
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+/** Restores just the fields a new template can use; the manual layout belonged to the original source. */
+const toTemplateOptions = (value: unknown): TemplateOptions | null => {
+  const options = value as TemplateOptions;
+  if (typeof options !== 'object' || options === null || typeof options.width !== 'number' || typeof options.height !== 'number') return null;
+  return {
+    width: clampTemplateSide(options.width),
+    height: clampTemplateSide(options.height),
+    anchor: TEMPLATE_ANCHORS.includes(options.anchor) ? options.anchor : DEFAULT_TEMPLATE_OPTIONS.anchor,
+    projection: options.projection === 'equirectangular' ? 'equirectangular' : 'flat',
+  };
+};
+
+const toGenerationMetadata = (value: unknown): GenerationMetadata | null => {
+  const metadata = value as GenerationMetadata;
+  if (typeof metadata !== 'object' || metadata === null || typeof metadata.prompt !== 'string') return null;
+  const templateOptions = toTemplateOptions(metadata.templateOptions);
+  if (!templateOptions) return null;
+  return {
+    prompt: metadata.prompt,
+    provider: PROVIDER_OPTIONS.some(option => option.id === metadata.provider) ? metadata.provider : null,
+    model: typeof metadata.model === 'string' ? metadata.model : null,
+    ratio: typeof metadata.ratio === 'string' ? metadata.ratio : formatAspectRatio(templateOptions.width, templateOptions.height),
+    templateOptions,
+    sourceSha256: typeof metadata.sourceSha256 === 'string' ? metadata.sourceSha256 : null,
+    createdAt: typeof metadata.createdAt === 'string' ? metadata.createdAt : '',
+  };
+};
+
+/** Metadata of a result from its history entry, or from the entry about to be stored for it. */
+const getResultMetadata = (item: Pick<HistoryItemInput, 'prompt' | 'provider' | 'model' | 'templateOptions' | 'sourceSha256'>, createdAt: number): GenerationMetadata => {
+  const templateOptions = item.templateOptions ?? DEFAULT_TEMPLATE_OPTIONS;
+  return {
+    prompt: item.prompt,
+    provider: item.provider ?? null,
+    model: item.model ?? null,
+    ratio: formatAspectRatio(templateOptions.width, templateOptions.height),
+    templateOptions,
+    sourceSha256: item.sourceSha256 ?? null,
+    createdAt: new Date(createdAt).toISOString(),
+  };
+};
+
+/**
+ * Builds an XMP packet with the prompt as `dc:description`, the generation settings and,
+ * for 360° results, the GPano tags panorama viewers use to open the file as a sphere.
+ */
+const buildXmpPacket = (metadata: GenerationMetadata, size: { width: number; height: number }): string => {
+  const attributes: Record<string, string> = {
+    'xmp:CreatorTool': CREATOR_TOOL,
+    'xmp:CreateDate': metadata.createdAt,
+    'np:Ratio': metadata.ratio,
+  };
+  if (metadata.model) attributes['np:Model'] = metadata.model;
+  if (metadata.sourceSha256) attributes['np:SourceSha256'] = metadata.sourceSha256;
+  attributes['np:Metadata'] = JSON.stringify(metadata);
+  if (metadata.templateOptions.projection === 'equirectangular') {
+    // The export covers the whole sphere, so the cropped area is the full image.
+    Object.assign(attributes, {
+      'GPano:ProjectionType': 'equirectangular',
+      'GPano:UsePanoramaViewer': 'True',
+      'GPano:FullPanoWidthPixels': String(size.width),
+      'GPano:FullPanoHeightPixels': String(size.height),
+      'GPano:CroppedAreaImageWidthPixels': String(size.width),
+      'GPano:CroppedAreaImageHeightPixels': String(size.height),
+      'GPano:CroppedAreaLeftPixels': '0',
+      'GPano:CroppedAreaTopPixels': '0',
+    });
+  }
+  const attributeText = Object.entries(attributes).map(([name, value]) => `\n    ${name}="${escapeXml(value)}"`).join('');
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="${RDF_NAMESPACE}">
+  <rdf:Description rdf:about=""
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:GPano="http://ns.google.com/photos/1.0/panorama/"
+    xmlns:np="${METADATA_NAMESPACE}"${attributeText}>
+   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.prompt)}</rdf:li></rdf:Alt></dc:description>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+};
+
+const parseXmpMetadata = (xmp: string): GenerationMetadata | null => {
+  const doc = new DOMParser().parseFromString(xmp.replace(/<\?xpacket[^>]*\?>/g, ''), 'application/xml');
+  for (const description of Array.from(doc.getElementsByTagNameNS(RDF_NAMESPACE, 'Description'))) {
+    const json = description.getAttributeNS(METADATA_NAMESPACE, 'Metadata');
+    if (json) return toGenerationMetadata(JSON.parse(json));
+  }
+  return null;
+};
+
+const createPngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(latin1Bytes(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+// tEXt is Latin-1 only, so anything user-written goes into uncompressed iTXt as UTF-8.
+const createPngTextChunk = (keyword: string, text: string): Uint8Array => {
+  const key = latin1Bytes(keyword);
+  const value = latin1Bytes(text);
+  const data = new Uint8Array(key.length + 1 + value.length);
+  data.set(key);
+  data.set(value, key.length + 1);
+  return createPngChunk('tEXt', data);
+};
+
+const createPngInternationalTextChunk = (keyword: string, text: string): Uint8Array => {
+  const key = latin1Bytes(keyword);
+  const value = new TextEncoder().encode(text);
+  // Keyword, then null separator, compression flag and method, empty language tag and translated keyword.
+  const data = new Uint8Array(key.length + 5 + value.length);
+  data.set(key);
+  data.set(value, key.length + 5);
+  return createPngChunk('iTXt', data);
+};
+
+/** Text chunks of a PNG by keyword; compressed iTXt entries are skipped. */
+const readPngTexts = (bytes: Uint8Array): Map<string, string> => {
+  const texts = new Map<string, string>();
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  // tEXt payloads can be large (some tools store whole workflows), so no spreading into fromCharCode.
+  const latin1 = new TextDecoder('latin1');
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = readFourCC(bytes, offset + 4);
+    if (type === 'IEND') break;
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    const keyEnd = type === 'tEXt' || type === 'iTXt' ? data.indexOf(0) : -1;
+    if (keyEnd > 0) {
+      const keyword = latin1.decode(data.subarray(0, keyEnd));
+      if (type === 'tEXt') {
+        texts.set(keyword, latin1.decode(data.subarray(keyEnd + 1)));
+      } else if (data[keyEnd + 1] === 0) {
+        const languageEnd = data.indexOf(0, keyEnd + 3);
+        const translatedEnd = data.indexOf(0, languageEnd + 1);
+        if (languageEnd >= 0 && translatedEnd >= 0) texts.set(keyword, decoder.decode(data.subarray(translatedEnd + 1)));
+      }
+    }
+    offset += 12 + length;
+  }
+  return texts;
+};
+
+const readJpegXmp = (bytes: Uint8Array): string | null => {
+  const header = latin1Bytes(XMP_JPEG_HEADER);
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Metadata segments all come before the start of scan.
+    if (marker === 0xda) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (marker === 0xe1 && hasPrefix(bytes, header, offset + 4)) {
+      return new TextDecoder().decode(bytes.subarray(offset + 4 + header.length, offset + 2 + length));
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+const readWebpXmp = (bytes: Uint8Array): string | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    if (readFourCC(bytes, offset) === 'XMP ') {
+      return new TextDecoder().decode(bytes.subarray(offset + 8, offset + 8 + size));
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+};
+
+const isWebp = (bytes: Uint8Array): boolean => readFourCC(bytes, 0) === 'RIFF' && readFourCC(bytes, 8) === 'WEBP';
+
+const embedPngMetadata = (bytes: Uint8Array, metadata: GenerationMetadata, xmp: string): Blob => new Blob([
+  bytes.subarray(0, PNG_IHDR_END),
+  createPngTextChunk('Software', CREATOR_TOOL),
+  ...(metadata.model ? [createPngTextChunk('Source', metadata.model)] : []),
+  createPngInternationalTextChunk('Description', metadata.prompt),
+  createPngInternationalTextChunk(METADATA_KEYWORD, JSON.stringify(metadata)),
+  createPngInternationalTextChunk(XMP_PNG_KEYWORD, xmp),
+  bytes.subarray(PNG_IHDR_END),
+], { type: 'image/png' });
+
+const embedJpegMetadata = (bytes: Uint8Array, xmp: string): Blob => {
+  const payload = new Uint8Array([...latin1Bytes(XMP_JPEG_HEADER), ...new TextEncoder().encode(xmp)]);
+  if (payload.length + 2 > MAX_JPEG_SEGMENT_SIZE) {
+    throw new Error(t('metadata.tooLarge'));
+  }
+  const segment = new Uint8Array(4 + payload.length);
+  segment.set([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+  segment.set(payload, 4);
+  // Keep the JFIF header right after SOI, where decoders look for it.
+  const insertAt = bytes[2] === 0xff && bytes[3] === 0xe0 ? 4 + ((bytes[4] << 8) | bytes[5]) : 2;
+  return new Blob([bytes.subarray(0, insertAt), segment, bytes.subarray(insertAt)], { type: 'image/jpeg' });
+};
+
+/**
+ * Adds an `XMP ` chunk. Simple WebP files have no VP8X header to announce it, so one is
+ * added with the canvas size and the alpha flag of the lossless bitstream.
+ */
+const embedWebpMetadata = (bytes: Uint8Array, xmp: string, size: { width: number; height: number }): Blob => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const firstChunk = readFourCC(bytes, 12);
+  const parts: Uint8Array[] = [];
+  let body = bytes.subarray(12);
+  if (firstChunk === 'VP8X') {
+    body = body.slice();
+    body[8] |= WEBP_XMP_FLAG;
+  } else {
+    const hasAlpha = firstChunk === 'VP8L' && ((view.getUint32(21, true) >>> 28) & 1) === 1;
+    const header = new Uint8Array(18);
+    const headerView = new DataView(header.buffer);
+    header.set(latin1Bytes('VP8X'));
+    headerView.setUint32(4, 10, true);
+    header[8] = WEBP_XMP_FLAG | (hasAlpha ? WEBP_ALPHA_FLAG : 0);
+    writeUint24(header, 12, size.width - 1);
+    writeUint24(header, 15, size.height - 1);
+    parts.push(header);
+  }
+  parts.push(body);
+  const xmpBytes = new TextEncoder().encode(xmp);
+  const xmpChunk = new Uint8Array(8 + xmpBytes.length + (xmpBytes.length % 2));
+  xmpChunk.set(latin1Bytes('XMP '));
+  new DataView(xmpChunk.buffer).setUint32(4, xmpBytes.length, true);
+  xmpChunk.set(xmpBytes, 8);
+  parts.push(xmpChunk);
+  const riff = new Uint8Array(12);
+  riff.set(latin1Bytes('RIFFsizeWEBP'));
+  new DataView(riff.buffer).setUint32(4, 4 + parts.reduce((total, part) => total + part.length, 0), true);
+  return new Blob([riff, ...parts], { type: 'image/webp' });
+};
+
+/** Writes the metadata into a PNG, JPEG or WebP file; other formats are returned unchanged. */
+const embedImageMetadata = async (blob: Blob, metadata: GenerationMetadata, size: { width: number; height: number }): Promise<Blob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const xmp = buildXmpPacket(metadata, size);
+  if (hasPrefix(bytes, PNG_SIGNATURE)) return embedPngMetadata(bytes, metadata, xmp);
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return embedJpegMetadata(bytes, xmp);
+  if (isWebp(bytes)) return embedWebpMetadata(bytes, xmp, size);
+  return blob;
+};
+
+/** Generation settings stored in an image by this app, or null for any other file. */
+const readImageMetadata = async (file: Blob): Promise<GenerationMetadata | null> => {
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    if (hasPrefix(bytes, PNG_SIGNATURE)) {
+      const texts = readPngTexts(bytes);
+      const json = texts.get(METADATA_KEYWORD);
+      if (json) return toGenerationMetadata(JSON.parse(json));
+      const xmp = texts.get(XMP_PNG_KEYWORD);
+      return xmp ? parseXmpMetadata(xmp) : null;
+    }
+    const xmp = bytes[0] === 0xff && bytes[1] === 0xd8 ? readJpegXmp(bytes) : isWebp(bytes) ? readWebpXmp(bytes) : null;
+    return xmp ? parseXmpMetadata(xmp) : null;
+  } catch (e) {
+    console.error('Failed to read image metadata:', e);
+    return null;
+  }
+};
+
+// --- EXPORT ---
+
+type ExportFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+type ExportResize = 'original' | 'width' | 'print';
+
+interface ExportOptions {
+  format: ExportFormat;
+  /** Encoder quality from 0 to 1; PNG is lossless and ignores it. */
+  quality: number;
+  resize: ExportResize;
+  width: number;
+  /** Print size for the 'print' mode; the pixel width follows from both. */
+  printWidthCm: number;
+  dpi: number;
+  /** JPEG has no alpha channel, so it is always flattened onto the background. */
+  fillBackground: boolean;
+  background: string;
+  fileNameTemplate: string;
+  /** Write the prompt and settings into the file; AVIF has no supported metadata container here. */
+  embedMetadata: boolean;
+}
+
+const EXPORT_OPTIONS_KEY = 'nano-panorama-export-options';
+// Larger canvases fail to encode in some browsers.
+const MAX_EXPORT_SIDE = 16384;
+const CM_PER_INCH = 2.54;
+
+const EXPORT_FORMATS: Record<ExportFormat, { mimeType: string; extension: string; label: string; lossy: boolean }> = {
+  png: { mimeType: 'image/png', extension: 'png', label: 'PNG', lossy: false },
+  jpeg: { mimeType: 'image/jpeg', extension: 'jpg', label: 'JPEG', lossy: true },
+  webp: { mimeType: 'image/webp', extension: 'webp', label: 'WebP', lossy: true },
+  avif: { mimeType: 'image/avif', extension: 'avif', label: 'AVIF', lossy: true },
+};
+const EXPORT_FORMAT_IDS = Object.keys(EXPORT_FORMATS) as ExportFormat[];
+
+const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'png',
+  quality: 0.9,
+  resize: 'original',
+  width: 4096,
+  printWidthCm: 30,
+  dpi: 300,
+  fillBackground: false,
+  background: '#ffffff',
+  fileNameTemplate: '{prompt}-{date}-{ratio}',
+  embedMetadata: true,
+};
+const EXPORT_FILE_NAME_FIELDS = ['prompt', 'date', 'time', 'ratio', 'width', 'height'];
+
+const isPositiveNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+/**
+ * Saved options merged over the defaults, so fields added later get a value. Fields
+ * that are missing, zero or not a number fall back to their defaults.
+ */
+const loadExportOptions = (): ExportOptions => {
+  const stored = readStoredJson(EXPORT_OPTIONS_KEY);
+  const options: ExportOptions = { ...DEFAULT_EXPORT_OPTIONS, ...(typeof stored === 'object' && stored !== null ? stored as Partial<ExportOptions> : {}) };
+  return {
+    ...options,
+    format: EXPORT_FORMAT_IDS.includes(options.format) ? options.format : DEFAULT_EXPORT_OPTIONS.format,
+    quality: isPositiveNumber(options.quality) && options.quality <= 1 ? options.quality : DEFAULT_EXPORT_OPTIONS.quality,
+    width: isPositiveNumber(options.width) ? options.width : DEFAULT_EXPORT_OPTIONS.width,
+    printWidthCm: isPositiveNumber(options.printWidthCm) ? options.printWidthCm : DEFAULT_EXPORT_OPTIONS.printWidthCm,
+    dpi: isPositiveNumber(options.dpi) ? options.dpi : DEFAULT_EXPORT_OPTIONS.dpi,
+  };
+};
+
+const exportSupport = new Map<ExportFormat, Promise<boolean>>();
+
+// toBlob quietly falls back to PNG for types the browser cannot encode, so probe once per format.
+const isExportFormatSupported = (format: ExportFormat): Promise<boolean> => {
+  let supported = exportSupport.get(format);
+  if (!supported) {
+    const canvas = document.createElement('canvas');
+    canvas.width = 1;
+    canvas.height = 1;
+    const { mimeType } = EXPORT_FORMATS[format];
+    supported = new Promise(resolve => canvas.toBlob(blob => resolve(blob?.type === mimeType), mimeType));
+    exportSupport.set(format, supported);
+  }
+  return supported;
+};
+
+/** Output size in pixels for the chosen resize mode, keeping the aspect ratio. */
+const getExportSize = (options: ExportOptions, width: number, height: number): { width: number; height: number } => {
+  const targetWidth = options.resize === 'width'
+    ? options.width
+    : options.resize === 'print'
+      ? options.printWidthCm / CM_PER_INCH * options.dpi
+      : width;
+  const scale = Math.min(Math.max(1, targetWidth) / width, MAX_EXPORT_SIDE / width, MAX_EXPORT_SIDE / height);
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+const INCHES_PER_METER = 100 / CM_PER_INCH;
+
+/** Replaces any pHYs chunk of a PNG with one holding the density in pixels per metre. */
+const setPngDensity = (bytes: Uint8Array, dpi: number): Blob => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const data = new Uint8Array(9);
+  const dataView = new DataView(data.buffer);
+  const pixelsPerMeter = Math.round(dpi * INCHES_PER_METER);
+  dataView.setUint32(0, pixelsPerMeter);
+  dataView.setUint32(4, pixelsPerMeter);
+  // Unit: metre.
+  data[8] = 1;
+  const parts: Uint8Array[] = [bytes.subarray(0, PNG_IHDR_END), createPngChunk('pHYs', data)];
+  let offset = PNG_IHDR_END;
+  while (offset + 12 <= bytes.length) {
+    const end = offset + 12 + view.getUint32(offset);
+    if (readFourCC(bytes, offset + 4) !== 'pHYs') parts.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+  return new Blob(parts, { type: 'image/png' });
+};
+
+/** Writes the density into the JFIF header, adding one right after SOI if the encoder left it out. */
+const setJpegDensity = (bytes: Uint8Array, dpi: number): Blob => {
+  // JFIF stores the density in 16 bits.
+  const density = Math.min(0xffff, Math.round(dpi));
+  if (bytes[2] === 0xff && bytes[3] === 0xe0 && hasPrefix(bytes, latin1Bytes('JFIF\0'), 6)) {
+    const copy = bytes.slice();
+    // Unit: dots per inch, then the horizontal and vertical density.
+    copy.set([1, density >> 8, density & 0xff, density >> 8, density & 0xff], 13);
+    return new Blob([copy], { type: 'image/jpeg' });
+  }
+  const segment = new Uint8Array([
+    0xff, 0xe0, 0, 16, ...latin1Bytes('JFIF\0'), 1, 1,
+    1, density >> 8, density & 0xff, density >> 8, density & 0xff,
+    0, 0,
+  ]);
+  return new Blob([bytes.subarray(0, 2), segment, bytes.subarray(2)], { type: 'image/jpeg' });
+};
+
+/** Records the print density in a PNG or JPEG; WebP and AVIF are returned unchanged. */
+const setImageDensity = async (blob: Blob, dpi: number): Promise<Blob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (hasPrefix(bytes, PNG_SIGNATURE)) return setPngDensity(bytes, dpi);
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return setJpegDensity(bytes, dpi);
+  return blob;
+};
+
+/**
+ * Re-encodes an image with the export options: resized, flattened if asked, in the chosen
+ * format, with the print density for the 'print' size and, unless turned off, with the
+ * generation metadata embedded.
+ */
+const exportImage = async (imageUrl: string, options: ExportOptions, metadata: GenerationMetadata | null = null): Promise<Blob> => {
+  const img = await loadImage(imageUrl);
+  const { width, height } = getExportSize(options, img.naturalWidth, img.naturalHeight);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error(t('error.canvasContext'));
+  }
+  if (options.fillBackground || options.format === 'jpeg') {
+    ctx.fillStyle = options.background;
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, width, height);
+  const { mimeType, label, lossy } = EXPORT_FORMATS[options.format];
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, lossy ? options.quality : undefined));
+  if (!blob || blob.type !== mimeType) {
+    throw new Error(t('export.unsupported', { format: label }));
+  }
+  const printed = options.resize === 'print' && isPositiveNumber(options.dpi) ? await setImageDensity(blob, options.dpi) : blob;
+  return options.embedMetadata && metadata ? embedImageMetadata(printed, metadata, { width, height }) : printed;
+};
+
+const pad2 = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Fills the file name template with the prompt, local date and time, aspect ratio and
+ * pixel size, then strips characters that file systems reject.
+ */
+const buildExportFileName = (
+  template: string,
+  prompt: string,
+  size: { width: number; height: number },
+  format: ExportFormat,
+  date: Date = new Date()
+): string => {
+  const promptSlug = prompt.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 60).replace(/-+$/, '');
+  const name = fillPromptTemplate(template, {
+    prompt: promptSlug || 'panorama',
+    date: `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`,
+    time: `${pad2(date.getHours())}-${pad2(date.getMinutes())}-${pad2(date.getSeconds())}`,
+    ratio: formatAspectRatio(size.width, size.height).replace(':', 'x'),
+    width: String(size.width),
+    height: String(size.height),
+  }).replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '-').replace(/^[\s.]+|[\s.]+$/g, '');
+  return `${name || 'panorama'}.${EXPORT_FORMATS[format].extension}`;
+};
+
+const formatFileSize = (bytes: number): string => bytes < 1024 * 1024
+  ? t('export.sizeKb', { size: formatNumber(bytes / 1024, { maximumFractionDigits: 0 }) })
+  : t('export.sizeMb', { size: formatNumber(bytes / 1024 / 1024, { minimumFractionDigits: 1, maximumFractionDigits: 1 }) });
+
+// --- ICONS ---
+
+const SparklesIcon: React.FC = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.293 2.293a1 1 0 010 1.414L10 16l-4 2 2-4 5.293-5.293a1 1 0 011.414 0z" />
+  </svg>
+);
+
+const MagicWandIcon: React.FC = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-1" viewBox="0 0 20 20" fill="currentColor">
+        <path fillRule="evenodd" d="M3.172 5.172a4 4 0 015.656 0L10 6.343l1.172-1.171a4 4 0 115.656 5.656L10 17.657l-6.828-6.829a4 4 0 010-5.656z" clipRule="evenodd" />
+    </svg>
+);
+
+const DownloadIcon: React.FC = () => (
+    <svg className="w-5 h-5 mr-2" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 20 19">
+        <path stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 15h.01M4 12H2a1 1 0 0 0-1 1v4a1 1 0 0 0 1 1h16a1 1 0 0 0 1-1v-4a1 1 0 0 0-1-1h-3m-5.5 0v-5.5m0 0h3m-3 0h-3"/>
+    </svg>
+);
+
+const HistoryIcon: React.FC = () => (
+  <svg className="w-6 h-6" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 1 1-18 0 9 9 0 0 1 18 0Z" />
+  </svg>
+);
+
+const TrashIcon: React.FC = () => (
+    <svg className="w-4 h-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" >
+        <path strokeLinecap="round" strokeLinejoin="round" d="m14.74 9-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 0 1-2.244 2.077H8.084a2.25 2.25 0 0 1-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 0 0-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 0 1 3.478-.397m7.5 0v-.916c0-1.18-.91-2.134-2.09-2.201a51.964 51.964 0 0 0-3.32 0c-1.18.067-2.09 1.02-2.09 2.201v.916m7.5 0a48.667 48.667 0 0 0-7.5 0" />
+    </svg>
+);
+
+const ReuseIcon: React.FC = () => (
+    <svg className="w-4 h-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0 3.181 3.183a8.25 8.25 0 0 0 11.667 0m0 0-3.182-3.182m0-11.667a8.25 8.25 0 0 0-11.667 0M6.168 12.33m0 0-3.181-3.182" />
+    </svg>
+);
+
+const EnhanceIcon: React.FC = () => (
+    <svg className="w-5 h-5 mr-2" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" d="M9.813 15.904 9 18.75l-.813-2.846a4.5 4.5 0 0 0-3.09-3.09L2.25 12l2.846-.813a4.5 4.5 0 0 0 3.09-3.09L9 5.25l.813 2.846a4.5 4.5 0 0 0 3.09 3.09L15.75 12l-2.846.813a4.5 4.5 0 0 0-3.09 3.09ZM18.259 8.715 18 9.75l-.259-1.035a3.375 3.375 0 0 0-2.455-2.456L14.25 6l1.036-.259a3.375 3.375 0 0 0 2.455-2.456L18 2.25l.259 1.035a3.375 3.375 0 0 0 2.456 2.456L21.75 6l-1.035.259a3.375 3.375 0 0 0-2.456 2.456Z" />
+    </svg>
+);
+
+
+// --- COMPONENTS ---
+
+interface LoaderProps {
+  size?: 'sm' | 'md' | 'lg';
+}
+const Loader: React.FC<LoaderProps> = ({ size = 'md' }) => {
+  const sizeClasses = { sm: 'w-4 h-4', md: 'w-6 h-6', lg: 'w-10 h-10' };
+  return (
+    <svg className={`animate-spin text-white ${sizeClasses[size]}`} xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+    </svg>
+  );
+};
+
+/** Translated reason a camera could not be opened. */
+const getCameraErrorMessage = (err: unknown): string => {
+  const name = err instanceof DOMException ? err.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') return t('camera.denied');
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return t('camera.notFound');
+  if (name === 'NotReadableError') return t('camera.busy');
+  return t('camera.failed');
+};
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  onClose: () => void;
+}
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Only offered in secure contexts; plain-http pages get no mediaDevices at all.
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError(t('camera.unavailable'));
+      return;
+    }
+    let active: MediaStream | null = null;
+    let cancelled = false;
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment', width: { ideal: 4096 }, height: { ideal: 4096 } }, audio: false })
+      .then(media => {
+        if (cancelled) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        active = media;
+        setStream(media);
+      })
+      .catch(err => {
+        console.error('Failed to open the camera', err);
+        if (!cancelled) setError(getCameraErrorMessage(err));
+      });
+    return () => {
+      cancelled = true;
+      active?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  useEffect(() => {
+    if (videoRef.current && stream) videoRef.current.srcObject = stream;
+  }, [stream]);
+
+  const handleCapture = () => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      setError(t('error.canvasContext'));
+      return;
+    }
+    ctx.drawImage(video, 0, 0);
+    canvas.toBlob(blob => {
+      if (!blob) {
+        setError(t('camera.failed'));
+        return;
+      }
+      onCapture(new File([blob], `camera-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+      onClose();
+    }, 'image/jpeg', 0.92);
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2 w-full">
+      <div className="w-full h-64 flex items-center justify-center bg-black rounded-lg overflow-hidden">
+        {error
+          ? <p className="p-4 text-sm text-center text-red-400">{error}</p>
+          : <video ref={videoRef} autoPlay playsInline muted className="max-w-full max-h-full" />}
+      </div>
+      <div className="flex gap-2">
+        <button onClick={handleCapture} disabled={!stream || !!error} className="px-4 py-2 text-sm font-medium text-white bg-cyan-600 rounded-lg hover:bg-cyan-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors">{t('camera.capture')}</button>
+        <button onClick={onClose} className="px-4 py-2 text-sm text-slate-200 bg-slate-700 rounded-lg hover:bg-slate-600 transition-colors">{t('common.cancel')}</button>
+      </div>
+    </div>
+  );
+};
+
+interface ImageUploaderProps {
+  onImageUpload: (file: File) => void;
+  /** Several photos at once are stitched into one strip. */
+  onImagesUpload: (files: File[]) => void;
+  previewUrl: string | null;
+  /** Most images taken from one selection or drop. */
+  maxFiles?: number;
+  /** Adds a button for picking a whole folder; dropped folders are read regardless. */
+  allowFolders?: boolean;
+  hint?: string;
+  /** Takes images pasted anywhere on the page; only one mounted uploader should. */
+  acceptPaste?: boolean;
+}
+const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, onImagesUpload, previewUrl, maxFiles = MAX_STITCH_SOURCES, allowFolders = false, hint, acceptPaste = false }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const [imageUrl, setImageUrl] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  // The batch tab mounts a second uploader, so the label/input pair needs its own id.
+  const inputId = useId();
+  const handleFiles = (fileList: File[]) => {
+    const files = fileList.filter(file => file.type.startsWith('image/')).slice(0, maxFiles);
+    if (files.length > 1) onImagesUpload(files);
+    else if (files.length === 1) onImageUpload(files[0]);
+    // A single file of the wrong type is passed on, so validation can say what is wrong with it.
+    else if (fileList.length === 1) onImageUpload(fileList[0]);
+  };
+  const importFromUrl = async (address: string) => {
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      onImageUpload(await fetchImageFile(address));
+      setImageUrl('');
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : t('urlImport.failed'));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!acceptPaste) return;
+    const handlePaste = (event: ClipboardEvent) => {
+      const files = Array.from(event.clipboardData?.files ?? []).filter(file => file.type.startsWith('image/'));
+      if (files.length > 0) {
+        event.preventDefault();
+        handleFiles(files);
+        return;
+      }
+      // Text pasted into a field stays there; elsewhere a lone image address is imported.
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+      const text = event.clipboardData?.getData('text/plain').trim() ?? '';
+      if (/^https?:\/\/\S+$/.test(text)) {
+        event.preventDefault();
+        importFromUrl(text);
+      }
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [acceptPaste, onImageUpload, onImagesUpload, maxFiles]);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles(Array.from(event.target.files ?? []));
+    // Lets the same selection be picked again.
+    event.target.value = '';
+  };
+  const handleDrop = (event: React.DragEvent<HTMLLabelElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setIsDragging(false);
+    // Read now: the DataTransfer is emptied once the event returns.
+    const droppedUrl = getDroppedImageUrl(event.dataTransfer);
+    readDroppedFiles(event.dataTransfer)
+      .then(files => {
+        // An image dragged from another tab arrives as an address rather than a file.
+        if (files.length === 0 && droppedUrl) importFromUrl(droppedUrl);
+        else handleFiles(files);
+      })
+      .catch(err => console.error('Failed to read dropped files', err));
+  };
+  const handleDragEvents = (event: React.DragEvent<HTMLLabelElement>, dragging: boolean) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setIsDragging(dragging);
+  };
+  const triggerFileSelect = () => fileInputRef.current?.click();
+  const handleUrlSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (imageUrl.trim()) importFromUrl(imageUrl);
+  };
+  if (isCameraOpen) {
+    return <CameraCapture onCapture={onImageUpload} onClose={() => setIsCameraOpen(false)} />;
+  }
+  return (
+    <div>
+      <label htmlFor={inputId} onDrop={handleDrop} onDragOver={(e) => handleDragEvents(e, true)} onDragEnter={(e) => handleDragEvents(e, true)} onDragLeave={(e) => handleDragEvents(e, false)} className={`relative flex flex-col items-center justify-center w-full h-64 border-2 border-dashed rounded-lg cursor-pointer transition-colors duration-300 ease-in-out ${isDragging ? 'border-cyan-400 bg-slate-700/50' : 'border-slate-600 bg-slate-800 hover:bg-slate-700/80'}`}>
+        {previewUrl ? (<img src={previewUrl} alt={t('upload.preview')} className="object-contain w-full h-full rounded-lg p-1" />) : (<div className="flex flex-col items-center justify-center pt-5 pb-6 text-center"><svg className="w-10 h-10 mb-4 text-slate-400" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 20 16"><path stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 13h3a3 3 0 0 0 0-6h-.025A5.56 5.56 0 0 0 16 6.5 5.5 5.5 0 0 0 5.207 5.021C5.137 5.017 5.071 5 5 5a4 4 0 0 0 0 8h2.167M10 15V6m0 0L8 8m2-2 2 2"/></svg><p className="mb-2 text-sm text-slate-400"><span className="font-semibold">{t('upload.click')}</span> {t('upload.orDrop')}</p><p className="text-xs text-slate-500">{t('upload.formats')}</p><p className="text-xs text-slate-500">{hint ?? t('upload.stitchHint', { count: MAX_STITCH_SOURCES })}</p></div>)}
+        <input ref={fileInputRef} id={inputId} type="file" className="hidden" accept="image/png, image/jpeg, image/webp, image/gif, image/bmp, image/avif" multiple onChange={handleFileChange} />
+      </label>
+      {previewUrl && (<button onClick={triggerFileSelect} className="w-full mt-2 text-sm text-center text-cyan-400 hover:text-cyan-300">{t('upload.change')}</button>)}
+      {allowFolders && (<>
+        <button onClick={() => folderInputRef.current?.click()} className="w-full mt-2 text-sm text-center text-cyan-400 hover:text-cyan-300">{t('upload.folder')}</button>
+        <input ref={folderInputRef} type="file" className="hidden" multiple {...{ webkitdirectory: '' }} onChange={handleFileChange} />
+      </>)}
+      <form onSubmit={handleUrlSubmit} className="flex gap-2 mt-2">
+        <input type="url" value={imageUrl} onChange={(e) => setImageUrl(e.target.value)} disabled={isImporting} placeholder={t('urlImport.placeholder')} aria-label={t('urlImport.label')} className="flex-grow min-w-0 p-2 text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 placeholder-slate-400 transition-colors" />
+        <button type="submit" disabled={isImporting || !imageUrl.trim()} className="px-3 py-2 text-sm font-medium text-white bg-cyan-600 rounded-lg hover:bg-cyan-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors">{isImporting ? t('urlImport.loading') : t('urlImport.action')}</button>
+      </form>
+      {importError && <p className="mt-1 text-xs text-red-400">{importError}</p>}
+      <button onClick={() => setIsCameraOpen(true)} className="w-full mt-2 text-sm text-center text-cyan-400 hover:text-cyan-300">{t('camera.open')}</button>
+      {acceptPaste && <p className="mt-1 text-xs text-center text-slate-500">{t('upload.pasteHint')}</p>}
+    </div>
+  );
+};
+
+interface PromptInputProps {
+  value: string;
+  onChange: (event: React.ChangeEvent<HTMLTextAreaElement>) => void;
+  disabled: boolean;
+}
+const PromptInput: React.FC<PromptInputProps> = ({ value, onChange, disabled }) => {
+  return (
+    <div>
+      <label htmlFor="prompt" className="block mb-2 text-sm font-medium text-slate-300">{t('prompt.label')}</label>
+      <textarea id="prompt" rows={3} value={value} onChange={onChange} disabled={disabled} className="block p-2.5 w-full text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 placeholder-slate-400 transition-colors" placeholder={t('prompt.placeholder')}></textarea>
+    </div>
+  );
+};
+
+interface PromptPresetsProps {
+  presets: PromptPreset[];
+  onApply: (preset: PromptPreset) => void;
+  /** Saves the current prompt under the given name. */
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  /** Outcome of the last import, shown under the buttons. */
+  notice: string | null;
+  canSave: boolean;
+  disabled: boolean;
+}
+const PromptPresets: React.FC<PromptPresetsProps> = ({ presets, onApply, onSave, onDelete, onExport, onImport, notice, canSave, disabled }) => {
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [draftName, setDraftName] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const inputClassName = "block p-2 w-full text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 transition-colors";
+  const buttonClassName = "flex-1 px-2 py-1.5 text-xs bg-slate-700 text-slate-200 rounded-md hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+  const handleSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setSelectedId(e.target.value);
+    const preset = presets.find(p => p.id === e.target.value);
+    if (preset) onApply(preset);
+  };
+  const commitName = () => {
+    const name = draftName?.trim();
+    if (name) onSave(name);
+    setDraftName(null);
+  };
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = '';
+  };
+  return (
+    <div className="flex flex-col gap-2">
+      <select value={selectedId} onChange={handleSelect} disabled={disabled || presets.length === 0} aria-label={t('presets.label')} className={inputClassName}>
+        <option value="">{presets.length > 0 ? t('presets.choose') : t('presets.empty')}</option>
+        {presets.map(preset => (<option key={preset.id} value={preset.id}>{preset.name}</option>))}
+      </select>
+      {draftName !== null ? (
+        <div className="flex gap-2">
+          <input autoFocus value={draftName} onChange={(e) => setDraftName(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') commitName(); if (e.key === 'Escape') setDraftName(null); }} placeholder={t('presets.namePlaceholder')} className={inputClassName} />
+          <button onClick={commitName} disabled={!draftName.trim()} className="px-3 py-1.5 text-xs bg-cyan-600 text-white rounded-md hover:bg-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">OK</button>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <button onClick={() => setDraftName('')} disabled={disabled || !canSave} className={buttonClassName}>{t('presets.save')}</button>
+          <button onClick={() => { onDelete(selectedId); setSelectedId(''); }} disabled={disabled || !selectedId} className={buttonClassName}>{t('common.delete')}</button>
+          <button onClick={onExport} disabled={presets.length === 0} className={buttonClassName}>{t('common.export')}</button>
+          <button onClick={() => importInputRef.current?.click()} disabled={disabled} className={buttonClassName}>{t('common.import')}</button>
+          <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportChange} />
+        </div>
+      )}
+      {notice && <p className="text-xs text-slate-500">{notice}</p>}
+    </div>
+  );
+};
+
+interface PromptVariablesProps {
+  names: string[];
+  values: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+  disabled: boolean;
+}
+const PromptVariables: React.FC<PromptVariablesProps> = ({ names, values, onChange, disabled }) => {
+  if (names.length === 0) return null;
+  const inputClassName = "block p-2 w-full text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 transition-colors";
+  return (
+    <div className="bg-slate-700/30 rounded-lg p-3">
+      <span className="block mb-2 text-xs font-medium text-slate-300">{t('variables.title')}</span>
+      <div className="grid grid-cols-2 gap-2">
+        {names.map(name => (
+          <label key={name} className="text-xs text-slate-400">{`{${name}}`}
+            <input value={values[name] ?? ''} disabled={disabled} onChange={(e) => onChange({ ...values, [name]: e.target.value })} className={`mt-1 ${inputClassName} ${values[name]?.trim() ? '' : 'border-yellow-500/60'}`} />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+interface SystemPromptEditorProps {
+  /** Versions saved for `locale`. */
+  value: PromptTemplateStore;
+  onChange: (store: PromptTemplateStore) => void;
+  /** Language of the instructions sent to the model, chosen apart from the UI language. */
+  locale: Locale;
+  onLocaleChange: (locale: Locale) => void;
+  disabled: boolean;
+}
+const PROMPT_TEMPLATE_LABELS: Record<PromptTemplateId, MessageKey> = {
+  outpaint: 'systemPrompts.outpaint',
+  outpaint360: 'systemPrompts.outpaint360',
+  enhance: 'systemPrompts.enhance',
+  inpaint: 'systemPrompts.inpaint',
+};
+const SystemPromptEditor: React.FC<SystemPromptEditorProps> = ({ value, onChange, locale, onLocaleChange, disabled }) => {
+  const [templateId, setTemplateId] = useState<PromptTemplateId>('outpaint');
+  const history = value[templateId];
+  const activeText = resolvePromptTemplates(value, locale)[templateId];
+  const [draft, setDraft] = useState<string>(activeText);
+
+  useEffect(() => {
+    setDraft(activeText);
+  }, [templateId, activeText]);
+
+  const allowed = PROMPT_TEMPLATE_VARIABLES[templateId];
+  const unknown = getPromptVariables(draft).filter(name => !allowed.includes(name));
+  const missingUserPrompt = allowed.includes('userPrompt') && !getPromptVariables(draft).includes('userPrompt');
+  const update = (next: PromptTemplateHistory) => onChange({ ...value, [templateId]: next });
+  const handleVersionChange = (e: React.ChangeEvent<HTMLSelectElement>) =>
+    update({ ...history, activeId: e.target.value ? Number(e.target.value) : null });
+  const handleDeleteVersion = () =>
+    update({ versions: history.versions.filter(version => version.id !== history.activeId), activeId: null });
+  const inputClassName = "block p-2 w-full text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 transition-colors";
+  const buttonClassName = "flex-1 px-2 py-1.5 text-xs bg-slate-700 text-slate-200 rounded-md hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+  return (
+    <details className="bg-slate-700/30 rounded-lg p-3 text-sm">
+      <summary className="cursor-pointer text-slate-300">{t('systemPrompts.title')}</summary>
+      <div className="mt-3 flex flex-col gap-2">
+        <label className="text-xs text-slate-400">{t('systemPrompts.language')}
+          <select value={locale} onChange={(e) => onLocaleChange(e.target.value as Locale)} disabled={disabled} className={`mt-1 ${inputClassName}`}>
+            {LOCALES.map(option => (<option key={option} value={option}>{LOCALE_NAMES[option]}</option>))}
+          </select>
+        </label>
+        <select value={templateId} onChange={(e) => setTemplateId(e.target.value as PromptTemplateId)} aria-label={t('systemPrompts.operation')} className={inputClassName}>
+          {PROMPT_TEMPLATE_IDS.map(id => (<option key={id} value={id}>{t(PROMPT_TEMPLATE_LABELS[id])}</option>))}
+        </select>
+        <select value={history.activeId ?? ''} onChange={handleVersionChange} disabled={disabled} aria-label={t('systemPrompts.version')} className={inputClassName}>
+          <option value="">{t('systemPrompts.builtIn')}</option>
+          {history.versions.map((version, index) => (
+            <option key={version.id} value={version.id}>{t('systemPrompts.versionLabel', { index: index + 1, date: formatDateTime(version.createdAt) })}</option>
+          ))}
+        </select>
+        <textarea rows={8} value={draft} disabled={disabled} onChange={(e) => setDraft(e.target.value)} className={`${inputClassName} font-mono text-xs`} />
+        <p className="text-xs text-slate-500">
+          {allowed.length > 0 ? t('systemPrompts.placeholders', { names: allowed.map(name => `{${name}}`).join(', ') }) : t('systemPrompts.noPlaceholders')} {t('systemPrompts.scope')}
+        </p>
+        {unknown.length > 0 && <p className="text-xs text-yellow-400">{t('systemPrompts.unknown', { names: unknown.map(name => `{${name}}`).join(', ') })}</p>}
+        {missingUserPrompt && <p className="text-xs text-yellow-400">{t('systemPrompts.missingUserPrompt')}</p>}
+        <div className="flex gap-2">
+          <button onClick={() => update(addPromptTemplateVersion(history, draft))} disabled={disabled || draft === activeText || !draft.trim()} className={buttonClassName}>{t('systemPrompts.saveVersion')}</button>
+          <button onClick={() => setDraft(activeText)} disabled={disabled || draft === activeText} className={buttonClassName}>{t('systemPrompts.discard')}</button>
+          <button onClick={handleDeleteVersion} disabled={disabled || history.activeId === null} className={buttonClassName}>{t('systemPrompts.deleteVersion')}</button>
+        </div>
+      </div>
+    </details>
+  );
+};
+
+interface TemplateSettingsProps {
+  value: TemplateOptions;
+  onChange: (options: TemplateOptions) => void;
+  disabled: boolean;
+}
+const ANCHOR_LABELS: Record<TemplateAnchor, MessageKey> = {
+  'top-left': 'anchor.topLeft', 'top': 'anchor.top', 'top-right': 'anchor.topRight',
+  'left': 'anchor.left', 'center': 'anchor.center', 'right': 'anchor.right',
+  'bottom-left': 'anchor.bottomLeft', 'bottom': 'anchor.bottom', 'bottom-right': 'anchor.bottomRight',
+};
+const TemplateSettings: React.FC<TemplateSettingsProps> = ({ value, onChange, disabled }) => {
+  const isEquirectangular = value.projection === 'equirectangular';
+  const matchingPreset = ASPECT_RATIO_PRESETS.find(p => p.width === value.width && p.height === value.height);
+  const [isCustom, setIsCustom] = useState<boolean>(!matchingPreset);
+  const [draftSize, setDraftSize] = useState({ width: String(value.width), height: String(value.height) });
+  const selectedId = isCustom || !matchingPreset ? 'custom' : matchingPreset.id;
+
+  useEffect(() => {
+    setDraftSize({ width: String(value.width), height: String(value.height) });
+  }, [value.width, value.height]);
+
+  const handleProjectionChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const preset = event.target.value === 'equirectangular' ? EQUIRECTANGULAR_TEMPLATE_OPTIONS : DEFAULT_TEMPLATE_OPTIONS;
+    onChange({ ...preset, sourceCount: value.sourceCount });
+  };
+  const handlePresetChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    if (event.target.value === 'custom') {
+      setIsCustom(true);
+      return;
+    }
+    const preset = ASPECT_RATIO_PRESETS.find(p => p.id === event.target.value);
+    if (!preset) return;
+    setIsCustom(false);
+    onChange({ ...value, width: preset.width, height: preset.height });
+  };
+  const commitCustomSize = () => {
+    const width = parseInt(draftSize.width, 10);
+    const height = parseInt(draftSize.height, 10);
+    if (Number.isNaN(width) || Number.isNaN(height)) {
+      setDraftSize({ width: String(value.width), height: String(value.height) });
+      return;
+    }
+    const next = { ...value, width: clampTemplateSide(width), height: clampTemplateSide(height) };
+    setDraftSize({ width: String(next.width), height: String(next.height) });
+    if (next.width !== value.width || next.height !== value.height) onChange(next);
+  };
+  const inputClassName = "block p-2 w-full text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 transition-colors";
+  return (
+    <div className="flex flex-col gap-4">
+      <div>
+        <label htmlFor="projection" className="block mb-2 text-sm font-medium text-slate-300">{t('template.projection')}</label>
+        <select id="projection" value={value.projection} onChange={handleProjectionChange} disabled={disabled} className={inputClassName}>
+          <option value="flat">{t('template.flat')}</option>
+          <option value="equirectangular">{t('template.sphere')}</option>
+        </select>
+        {isEquirectangular && (
+          <p className="text-xs text-slate-500 mt-1">{t('template.sphereHint')}</p>
+        )}
+      </div>
+      {!isEquirectangular && (<>
+      <div>
+        <label htmlFor="aspect-ratio" className="block mb-2 text-sm font-medium text-slate-300">{t('template.canvas')}</label>
+        <select id="aspect-ratio" value={selectedId} onChange={handlePresetChange} disabled={disabled} className={inputClassName}>
+          {ASPECT_RATIO_PRESETS.map(preset => (<option key={preset.id} value={preset.id}>{t(preset.labelKey)}</option>))}
+          <option value="custom">{t('template.custom')}</option>
+        </select>
+        {selectedId === 'custom' && (
+          <div className="mt-2 grid grid-cols-2 gap-2">
+            <label className="text-xs text-slate-400">{t('template.width')}
+              <input type="number" min={MIN_TEMPLATE_SIDE} max={MAX_TEMPLATE_SIDE} value={draftSize.width} disabled={disabled} onChange={(e) => setDraftSize({ ...draftSize, width: e.target.value })} onBlur={commitCustomSize} onKeyDown={(e) => e.key === 'Enter' && commitCustomSize()} className={`mt-1 ${inputClassName}`} />
+            </label>
+            <label className="text-xs text-slate-400">{t('template.height')}
+              <input type="number" min={MIN_TEMPLATE_SIDE} max={MAX_TEMPLATE_SIDE} value={draftSize.height} disabled={disabled} onChange={(e) => setDraftSize({ ...draftSize, height: e.target.value })} onBlur={commitCustomSize} onKeyDown={(e) => e.key === 'Enter' && commitCustomSize()} className={`mt-1 ${inputClassName}`} />
+            </label>
+          </div>
+        )}
+        <p className="text-xs text-slate-500 mt-1">{value.width}×{value.height} px, {formatAspectRatio(value.width, value.height)}</p>
+      </div>
+      <div>
+        <span className="block mb-2 text-sm font-medium text-slate-300">{t('template.anchor')}</span>
+        <div className="grid grid-cols-3 gap-1 w-24">
+          {TEMPLATE_ANCHORS.map(anchor => (
+            <button
+              key={anchor}
+              type="button"
+              title={t(ANCHOR_LABELS[anchor])}
+              aria-label={t(ANCHOR_LABELS[anchor])}
+              aria-pressed={!value.layout && value.anchor === anchor}
+              disabled={disabled}
+              onClick={() => onChange({ ...value, anchor, layout: undefined })}
+              className={`h-7 rounded border transition-colors ${!value.layout && value.anchor === anchor ? 'bg-cyan-500 border-cyan-300' : 'bg-slate-700/50 border-slate-600 hover:bg-slate-600'}`}
+            />
+          ))}
+        </div>
+        {value.layout && (
+          <p className="text-xs text-slate-500 mt-1">{t('template.manualLayout')}</p>
+        )}
+      </div>
+      </>)}
+    </div>
+  );
+};
+
+interface PlacementEditorProps {
+  imageUrl: string;
+  options: TemplateOptions;
+  /** Called once an edit is finished; `undefined` returns to the anchored placement. */
+  onChange: (layout: SourceLayout | undefined) => void;
+  disabled: boolean;
+}
+
+type PlacementDragMode = 'move' | 'scale' | 'rotate';
+
+interface PlacementDrag {
+  mode: PlacementDragMode;
+  startX: number;
+  startY: number;
+  start: SourceLayout;
+}
+
+interface PlacementField {
+  key: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  apply: (value: number, layout: SourceLayout) => SourceLayout;
+}
+
+// Distance in screen pixels within which the layer snaps to a guide.
+const PLACEMENT_SNAP_PX = 8;
+const PLACEMENT_SNAP_TARGETS = [0, 0.5, 1];
+// Rotation sticks to right angles within this many degrees.
+const ROTATION_SNAP_DEGREES = 3;
+
+/** Snaps the centre or either edge of the layer to the nearest guide and reports which one it hit. */
+const snapToGuides = (center: number, halfSize: number, threshold: number): { value: number; guide: number | null } => {
+  let best = { value: center, guide: null as number | null, distance: threshold };
+  for (const target of PLACEMENT_SNAP_TARGETS) {
+    for (const offset of [-halfSize, 0, halfSize]) {
+      const distance = Math.abs(center + offset - target);
+      if (distance < best.distance) best = { value: target - offset, guide: target, distance };
+    }
+  }
+  return { value: best.value, guide: best.guide };
+};
+
+const normalizeRotation = (degrees: number): number => ((degrees + 180) % 360 + 360) % 360 - 180;
+
+const PlacementEditor: React.FC<PlacementEditorProps> = ({ imageUrl, options, onChange, disabled }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<PlacementDrag | null>(null);
+  const draftRef = useRef<SourceLayout | null>(null);
+  const dirtyRef = useRef(false);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [draft, setDraft] = useState<SourceLayout | null>(null);
+  const [guides, setGuides] = useState<{ x: number | null; y: number | null }>({ x: null, y: null });
+
+  const updateDraft = (layout: SourceLayout) => {
+    draftRef.current = layout;
+    setDraft(layout);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    setImageSize(null);
+    loadImage(imageUrl)
+      .then(img => { if (!cancelled) setImageSize({ width: img.naturalWidth, height: img.naturalHeight }); })
+      .catch(err => console.error(err));
+    return () => { cancelled = true; };
+  }, [imageUrl]);
+
+  // The draft follows the committed options; without a layout it mirrors the anchored placement.
+  useEffect(() => {
+    if (!imageSize) return;
+    dirtyRef.current = false;
+    updateDraft(options.layout ?? getDefaultLayout(options, imageSize.width, imageSize.height));
+  }, [imageSize, options]);
+
+  const beginDrag = (mode: PlacementDragMode) => (e: React.PointerEvent<HTMLDivElement>) => {
+    if (disabled || !draftRef.current) return;
+    e.preventDefault();
+    e.stopPropagation();
+    containerRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, startX: e.clientX, startY: e.clientY, start: draftRef.current };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const container = containerRef.current;
+    if (!drag || !container || !imageSize) return;
+    const rect = container.getBoundingClientRect();
+    const { start } = drag;
+    if (drag.mode === 'move') {
+      const geometry = getLayoutGeometry(start, options.width, options.height, imageSize.width, imageSize.height);
+      const x = snapToGuides(start.centerX + (e.clientX - drag.startX) / rect.width, geometry.boundsWidth / 2 / options.width, PLACEMENT_SNAP_PX / rect.width);
+      const y = snapToGuides(start.centerY + (e.clientY - drag.startY) / rect.height, geometry.boundsHeight / 2 / options.height, PLACEMENT_SNAP_PX / rect.height);
+      setGuides({ x: x.guide, y: y.guide });
+      // The centre stays on the canvas so the layer can't be lost off-screen.
+      updateDraft({ ...start, centerX: Math.min(1, Math.max(0, x.value)), centerY: Math.min(1, Math.max(0, y.value)) });
+      return;
+    }
+    const centerX = rect.left + start.centerX * rect.width;
+    const centerY = rect.top + start.centerY * rect.height;
+    if (drag.mode === 'scale') {
+      const startDistance = Math.max(1, Math.hypot(drag.startX - centerX, drag.startY - centerY));
+      const ratio = Math.hypot(e.clientX - centerX, e.clientY - centerY) / startDistance;
+      updateDraft({ ...start, width: Math.min(MAX_LAYOUT_WIDTH, Math.max(MIN_LAYOUT_WIDTH, start.width * ratio)) });
+      return;
+    }
+    // The rotation handle sits above the layer, so "straight up" is 0°.
+    let rotation = Math.atan2(e.clientY - centerY, e.clientX - centerX) * 180 / Math.PI + 90;
+    if (e.shiftKey) rotation = Math.round(rotation / 15) * 15;
+    const rightAngle = Math.round(rotation / 90) * 90;
+    if (Math.abs(rotation - rightAngle) < ROTATION_SNAP_DEGREES) rotation = rightAngle;
+    updateDraft({ ...start, rotation: normalizeRotation(rotation) });
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    dragRef.current = null;
+    setGuides({ x: null, y: null });
+    if (draftRef.current && draftRef.current !== drag.start) onChange(draftRef.current);
+  };
+
+  const commitFields = () => {
+    if (!dirtyRef.current || !draftRef.current) return;
+    dirtyRef.current = false;
+    onChange(draftRef.current);
+  };
+
+  if (!imageSize || !draft) return null;
+
+  const geometry = getLayoutGeometry(draft, options.width, options.height, imageSize.width, imageSize.height);
+  const { crop } = draft;
+  const visibleWidth = 1 - crop.left - crop.right;
+  const visibleHeight = 1 - crop.top - crop.bottom;
+  const maxCrop = (opposite: number) => 1 - MIN_LAYOUT_CROP_REMAINDER - opposite;
+  const fields: PlacementField[] = [
+    { key: 'x', label: t('placement.centerX'), value: draft.centerX * 100, min: 0, max: 100, apply: (v, l) => ({ ...l, centerX: v / 100 }) },
+    { key: 'y', label: t('placement.centerY'), value: draft.centerY * 100, min: 0, max: 100, apply: (v, l) => ({ ...l, centerY: v / 100 }) },
+    { key: 'width', label: t('placement.width'), value: draft.width * 100, min: MIN_LAYOUT_WIDTH * 100, max: MAX_LAYOUT_WIDTH * 100, apply: (v, l) => ({ ...l, width: v / 100 }) },
+    { key: 'rotation', label: t('placement.rotation'), value: draft.rotation, min: -180, max: 180, apply: (v, l) => ({ ...l, rotation: normalizeRotation(v) }) },
+    { key: 'crop-left', label: t('placement.cropLeft'), value: crop.left * 100, min: 0, max: 90, apply: (v, l) => ({ ...l, crop: { ...l.crop, left: Math.min(v / 100, maxCrop(l.crop.right)) } }) },
+    { key: 'crop-top', label: t('placement.cropTop'), value: crop.top * 100, min: 0, max: 90, apply: (v, l) => ({ ...l, crop: { ...l.crop, top: Math.min(v / 100, maxCrop(l.crop.bottom)) } }) },
+    { key: 'crop-right', label: t('placement.cropRight'), value: crop.right * 100, min: 0, max: 90, apply: (v, l) => ({ ...l, crop: { ...l.crop, right: Math.min(v / 100, maxCrop(l.crop.left)) } }) },
+    { key: 'crop-bottom', label: t('placement.cropBottom'), value: crop.bottom * 100, min: 0, max: 90, apply: (v, l) => ({ ...l, crop: { ...l.crop, bottom: Math.min(v / 100, maxCrop(l.crop.top)) } }) },
+  ];
+  const inputClassName = "block p-2 w-full text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 transition-colors";
+  const renderField = (field: PlacementField) => (
+    <label key={field.key} className="text-xs text-slate-400">{field.label}
+      <input
+        type="number"
+        min={field.min}
+        max={field.max}
+        step={0.5}
+        value={Math.round(field.value * 10) / 10}
+        disabled={disabled}
+        onChange={(e) => {
+          const parsed = parseFloat(e.target.value);
+          if (Number.isNaN(parsed) || !draftRef.current) return;
+          dirtyRef.current = true;
+          updateDraft(field.apply(Math.min(field.max, Math.max(field.min, parsed)), draftRef.current));
+        }}
+        onBlur={commitFields}
+        onKeyDown={(e) => e.key === 'Enter' && commitFields()}
+        className={`mt-1 ${inputClassName}`}
+      />
+    </label>
+  );
+
+  return (
+    <details open className="bg-slate-700/30 rounded-lg p-3 text-sm">
+      <summary className="cursor-pointer text-slate-300">{t('placement.title')}</summary>
+      <div className="mt-3 flex flex-col gap-3">
+        <div className="p-6 overflow-hidden rounded bg-slate-800/50">
+          <div
+            ref={containerRef}
+            className="relative w-full bg-slate-900 touch-none select-none"
+            style={{ aspectRatio: `${options.width} / ${options.height}` }}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            <div
+              className="absolute"
+              style={{
+                left: `${draft.centerX * 100}%`,
+                top: `${draft.centerY * 100}%`,
+                width: `${draft.width * 100}%`,
+                aspectRatio: `${geometry.sw} / ${geometry.sh}`,
+                transform: `translate(-50%, -50%) rotate(${draft.rotation}deg)`,
+              }}
+            >
+              <div onPointerDown={beginDrag('move')} className={`absolute inset-0 overflow-hidden outline outline-1 outline-cyan-400 ${disabled ? '' : 'cursor-move'}`}>
+                <img
+                  src={imageUrl}
+                  alt=""
+                  draggable={false}
+                  className="absolute max-w-none"
+                  style={{
+                    width: `${100 / visibleWidth}%`,
+                    height: `${100 / visibleHeight}%`,
+                    left: `${-crop.left / visibleWidth * 100}%`,
+                    top: `${-crop.top / visibleHeight * 100}%`,
+                  }}
+                />
+              </div>
+              {!disabled && (<>
+                <div title={t('placement.scale')} onPointerDown={beginDrag('scale')} className="absolute -right-1.5 -bottom-1.5 w-3 h-3 bg-cyan-400 border border-white rounded-sm cursor-nwse-resize" />
+                <div title={t('placement.rotate')} onPointerDown={beginDrag('rotate')} className="absolute left-1/2 -top-6 -ml-1.5 w-3 h-3 bg-cyan-400 border border-white rounded-full cursor-grab" />
+              </>)}
+            </div>
+            {/* The frame is drawn over the layer so the canvas edges stay visible. */}
+            <div className="absolute inset-0 border border-dashed border-slate-400 pointer-events-none" />
+            {guides.x !== null && <div className="absolute top-0 bottom-0 w-px bg-pink-400 pointer-events-none" style={{ left: `${guides.x * 100}%` }} />}
+            {guides.y !== null && <div className="absolute left-0 right-0 h-px bg-pink-400 pointer-events-none" style={{ top: `${guides.y * 100}%` }} />}
+          </div>
+        </div>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">{fields.slice(0, 4).map(renderField)}</div>
+        <div>
+          <span className="block mb-1 text-xs font-medium text-slate-300">{t('placement.crop')}</span>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">{fields.slice(4).map(renderField)}</div>
+        </div>
+        <p className="text-xs text-slate-500">{t('placement.hint')}</p>
+        <button
+          type="button"
+          onClick={() => onChange(undefined)}
+          disabled={disabled || !options.layout}
+          className="self-start px-2 py-1.5 text-xs bg-slate-700 text-slate-200 rounded-md hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {t('placement.reset')}
+        </button>
+      </div>
+    </details>
+  );
+};
+
+interface StitchSettingsProps {
+  files: File[];
+  value: StitchOptions;
+  /** Neighbour pairs merged by overlap in the current strip; null before the first build. */
+  alignedPairs: number | null;
+  onFilesChange: (files: File[]) => void;
+  onChange: (options: StitchOptions) => void;
+  disabled: boolean;
+}
+const StitchSettings: React.FC<StitchSettingsProps> = ({ files, value, alignedPairs, onFilesChange, onChange, disabled }) => {
+  const inputClassName = "block p-2 w-full text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 transition-colors";
+  const buttonClassName = "px-1.5 py-0.5 text-xs bg-slate-700 text-slate-200 rounded hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+  const move = (index: number, step: number) => {
+    const next = [...files];
+    [next[index], next[index + step]] = [next[index + step], next[index]];
+    onFilesChange(next);
+  };
+  // Every rebuild re-runs the overlap search, so the gap is applied on blur rather than per keystroke.
+  const [draftGap, setDraftGap] = useState(String(Math.round(value.gap * 100)));
+  useEffect(() => {
+    setDraftGap(String(Math.round(value.gap * 100)));
+  }, [value.gap]);
+  const commitGap = () => {
+    const parsed = parseInt(draftGap, 10);
+    if (Number.isNaN(parsed)) {
+      setDraftGap(String(Math.round(value.gap * 100)));
+      return;
+    }
+    const gap = Math.min(200, Math.max(0, parsed)) / 100;
+    setDraftGap(String(Math.round(gap * 100)));
+    if (gap !== value.gap) onChange({ ...value, gap });
+  };
+  return (
+    <details open className="bg-slate-700/30 rounded-lg p-3 text-sm">
+      <summary className="cursor-pointer text-slate-300">{t('stitch.title', { count: files.length })}</summary>
+      <div className="mt-3 flex flex-col gap-3">
+        <ol className="flex gap-2 overflow-x-auto pb-1">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${file.lastModified}-${index}`} className="flex flex-col items-center gap-1">
+              <HistoryThumbnail image={file} />
+              <div className="flex gap-1">
+                <button type="button" title={t('stitch.moveLeft')} onClick={() => move(index, -1)} disabled={disabled || index === 0} className={buttonClassName}>←</button>
+                <button type="button" title={t('stitch.remove')} onClick={() => onFilesChange(files.filter((_, i) => i !== index))} disabled={disabled} className={buttonClassName}>✕</button>
+                <button type="button" title={t('stitch.moveRight')} onClick={() => move(index, 1)} disabled={disabled || index === files.length - 1} className={buttonClassName}>→</button>
+              </div>
+            </li>
+          ))}
+        </ol>
+        <div className="grid grid-cols-2 gap-2 items-end">
+          <label className="text-xs text-slate-400">{t('stitch.gap')}
+            <input type="number" min={0} max={200} value={draftGap} disabled={disabled} onChange={(e) => setDraftGap(e.target.value)} onBlur={commitGap} onKeyDown={(e) => e.key === 'Enter' && commitGap()} className={`mt-1 ${inputClassName}`} />
+          </label>
+          <label className="flex items-center gap-2 text-xs text-slate-300 pb-2">
+            <input type="checkbox" checked={value.align} disabled={disabled} onChange={(e) => onChange({ ...value, align: e.target.checked })} />
+            {t('stitch.align')}
+          </label>
+        </div>
+        {value.align && alignedPairs !== null && (
+          <p className="text-xs text-slate-500">{t('stitch.aligned', { aligned: alignedPairs, total: files.length - 1 })}</p>
+        )}
+      </div>
+    </details>
+  );
+};
+
+interface BatchPanelProps {
+  prompt: string;
+  templateOptions: TemplateOptions;
+  providerSettings: ProviderSettings;
+  requestSettings: RequestSettings;
+  inputSettings: InputSettings;
+  isProviderReady: boolean;
+  /** Stores a finished result; resolves to false when saving failed. */
+  onResult: (input: HistoryItemInput) => Promise<boolean>;
+  onError: (error: Error | string) => void;
+}
+
+const BATCH_STATUS_LABELS: Record<BatchItemStatus, MessageKey> = {
+  pending: 'batch.status.pending',
+  running: 'batch.status.running',
+  done: 'batch.status.done',
+  failed: 'batch.status.failed',
+  cancelled: 'batch.status.cancelled',
+};
+
+const BATCH_STATUS_COLORS: Record<BatchItemStatus, string> = {
+  pending: 'text-slate-400',
+  running: 'text-cyan-400',
+  done: 'text-green-400',
+  failed: 'text-red-400',
+  cancelled: 'text-slate-500',
+};
+
+/** Maps a per-item canvas override to the select value in the batch list. */
+const getBatchTemplateChoice = (options: TemplateOptions | null): string => {
+  if (!options) return 'shared';
+  if (options.projection === 'equirectangular') return 'equirectangular';
+  return ASPECT_RATIO_PRESETS.find(p => p.width === options.width && p.height === options.height)?.id ?? 'shared';
+};
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ prompt, templateOptions, providerSettings, requestSettings, inputSettings, isProviderReady, onResult, onError }) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [concurrency, setConcurrency] = useState<number>(DEFAULT_BATCH_CONCURRENCY);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
+  const [isArchiving, setIsArchiving] = useState<boolean>(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  // The scheduler runs outside React's render cycle, so it works on refs mirrored into state.
+  const itemsRef = useRef<BatchItem[]>([]);
+  const pausedRef = useRef(false);
+  const concurrencyRef = useRef(concurrency);
+  const controllersRef = useRef(new Map<number, AbortController>());
+  const nextIdRef = useRef(1);
+  // Jobs pick up the shared settings as they are when the job starts.
+  const sharedRef = useRef<BatchSharedSettings>({ prompt, templateOptions, provider: providerSettings, request: requestSettings, input: inputSettings });
+  sharedRef.current = { prompt, templateOptions, provider: providerSettings, request: requestSettings, input: inputSettings };
+  concurrencyRef.current = concurrency;
+
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach(controller => controller.abort());
+  }, []);
+
+  const updateItems = (update: (list: BatchItem[]) => BatchItem[]) => {
+    itemsRef.current = update(itemsRef.current);
+    setItems(itemsRef.current);
+  };
+  const patchItem = (id: number, patch: Partial<BatchItem>) =>
+    updateItems(list => list.map(item => (item.id === id ? { ...item, ...patch } : item)));
+
+  const startItem = async (item: BatchItem) => {
+    const controller = new AbortController();
+    controllersRef.current.set(item.id, controller);
+    const shared = sharedRef.current;
+    patchItem(item.id, {
+      status: 'running',
+      error: null,
+      startedAt: Date.now(),
+      finishedAt: null,
+      appliedPrompt: item.prompt.trim() || shared.prompt,
+      appliedTemplate: item.templateOptions ?? shared.templateOptions,
+    });
+    try {
+      const input = await runBatchItem(item, shared, controller.signal);
+      const saved = await onResult(input);
+      patchItem(item.id, { status: 'done', resultUrl: input.generatedImageUrl, historyId: saved ? input.id : null, finishedAt: Date.now() });
+    } catch (err) {
+      patchItem(item.id, err instanceof GenerationCancelledError
+        ? { status: 'cancelled', finishedAt: Date.now() }
+        : { status: 'failed', error: toGenerationError(err), finishedAt: Date.now() });
+    } finally {
+      controllersRef.current.delete(item.id);
+      pump();
+    }
+  };
+
+  /** Starts pending items until the concurrency limit is reached. */
+  const pump = () => {
+    if (pausedRef.current) return;
+    const running = controllersRef.current.size;
+    const pending = itemsRef.current.filter(item => item.status === 'pending');
+    if (running === 0 && pending.length === 0) {
+      setIsRunning(false);
+      return;
+    }
+    pending.slice(0, Math.max(0, concurrencyRef.current - running)).forEach(startItem);
+  };
+
+  const addFiles = (files: File[]) => {
+    const room = MAX_BATCH_ITEMS - itemsRef.current.length;
+    if (files.length > room) onError(t('batch.tooMany', { max: MAX_BATCH_ITEMS }));
+    const added: BatchItem[] = files.slice(0, Math.max(0, room)).map(file => ({
+      id: nextIdRef.current++,
+      file,
+      prompt: '',
+      templateOptions: null,
+      appliedPrompt: null,
+      appliedTemplate: null,
+      status: 'pending',
+      resultUrl: null,
+      error: null,
+      historyId: null,
+      startedAt: null,
+      finishedAt: null,
+    }));
+    updateItems(list => [...list, ...added]);
+    if (isRunning) pump();
+  };
+
+  const handleStart = () => {
+    pausedRef.current = false;
+    setIsPaused(false);
+    setIsRunning(true);
+    pump();
+  };
+  // Jobs already in flight finish; nothing new starts until resumed.
+  const handlePause = () => {
+    pausedRef.current = true;
+    setIsPaused(true);
+  };
+  const handleStop = () => {
+    pausedRef.current = true;
+    setIsPaused(false);
+    setIsRunning(false);
+    controllersRef.current.forEach(controller => controller.abort());
+    updateItems(list => list.map(item => (item.status === 'pending' ? { ...item, status: 'cancelled' } : item)));
+  };
+  const handleRetry = () => {
+    updateItems(list => list.map(item => (item.status === 'failed' || item.status === 'cancelled'
+      ? { ...item, status: 'pending', error: null }
+      : item)));
+    if (isRunning && !isPaused) pump();
+  };
+  const handleClear = () => {
+    updateItems(list => list.filter(item => item.status === 'running'));
+    setExpandedId(null);
+  };
+  const handleConcurrencyChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const parsed = parseInt(e.target.value, 10);
+    if (Number.isNaN(parsed)) return;
+    concurrencyRef.current = Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, parsed));
+    setConcurrency(concurrencyRef.current);
+    if (isRunning && !isPaused) pump();
+  };
+  const handleTemplateChoice = (item: BatchItem, choice: string) => {
+    if (choice === 'equirectangular') {
+      patchItem(item.id, { templateOptions: EQUIRECTANGULAR_TEMPLATE_OPTIONS });
+      return;
+    }
+    const preset = ASPECT_RATIO_PRESETS.find(p => p.id === choice);
+    patchItem(item.id, { templateOptions: preset ? { width: preset.width, height: preset.height, anchor: 'center', projection: 'flat' } : null });
+  };
+  const handleDownload = async () => {
+    setIsArchiving(true);
+    try {
+      const archive = await createBatchArchive(itemsRef.current, sharedRef.current);
+      downloadBlob(archive, `nano-panorama-batch-${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (err) {
+      onError(err instanceof Error ? err : t('batch.archiveFailed'));
+      console.error(err);
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  const count = (status: BatchItemStatus) => items.filter(item => item.status === status).length;
+  const doneCount = count('done');
+  const retryableCount = count('failed') + count('cancelled');
+  const canStart = isProviderReady && !!prompt && count('pending') > 0;
+  const inputClassName = "block p-2 w-full text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 transition-colors";
+  const buttonClassName = "flex-1 px-2 py-1.5 text-xs bg-slate-700 text-slate-200 rounded-md hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+  return (
+    <div className="flex flex-col gap-4">
+      <ImageUploader
+        onImageUpload={(file) => addFiles([file])}
+        onImagesUpload={addFiles}
+        previewUrl={null}
+        maxFiles={MAX_BATCH_ITEMS}
+        allowFolders
+        hint={t('batch.hint', { max: MAX_BATCH_ITEMS })}
+      />
+      <p className="text-xs text-slate-500">{t('batch.sharedHint')}</p>
+      {items.length > 0 && (<>
+        <div className="flex items-end gap-2">
+          <label className="text-xs text-slate-400 w-28">{t('batch.concurrency')}
+            <input type="number" min={1} max={MAX_BATCH_CONCURRENCY} value={concurrency} onChange={handleConcurrencyChange} className={`mt-1 ${inputClassName}`} />
+          </label>
+          <p className="flex-1 text-xs text-slate-400 pb-2">
+            {t('batch.progress', { done: doneCount, total: items.length })}
+            {count('failed') > 0 && <span className="text-red-400"> · {t('batch.failedCount', { count: count('failed') })}</span>}
+            {count('running') > 0 && <span className="text-cyan-400"> · {t('batch.runningCount', { count: count('running') })}</span>}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {!isRunning || isPaused ? (
+            <button onClick={handleStart} disabled={!isPaused && !canStart} className={buttonClassName}>{isPaused ? t('common.resume') : t('common.start')}</button>
+          ) : (
+            <button onClick={handlePause} className={buttonClassName}>{t('batch.pause')}</button>
+          )}
+          <button onClick={handleStop} disabled={!isRunning} className={buttonClassName}>{t('batch.stop')}</button>
+          <button onClick={handleRetry} disabled={retryableCount === 0} className={buttonClassName}>{t('batch.retry')}</button>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={handleDownload} disabled={doneCount === 0 || isArchiving} className={buttonClassName}>{isArchiving ? t('batch.archiving') : t('batch.download')}</button>
+          <button onClick={handleClear} disabled={isRunning} className={buttonClassName}>{t('common.clear')}</button>
+        </div>
+        {!isProviderReady && <p className="text-xs text-yellow-400">{t('batch.providerMissing')}</p>}
+        {!prompt && <p className="text-xs text-yellow-400">{t('batch.promptMissing')}</p>}
+        <ul className="flex flex-col gap-2 max-h-[32rem] overflow-y-auto pr-1">
+          {items.map(item => {
+            const isEditable = item.status !== 'running' && item.status !== 'done';
+            const hasOverrides = !!item.prompt.trim() || !!item.templateOptions;
+            return (
+              <li key={item.id} className="bg-slate-700/30 rounded-lg p-2 text-xs">
+                <div className="flex items-center gap-2">
+                  {item.resultUrl
+                    ? <img src={item.resultUrl} alt={t('batch.resultAlt')} className="w-20 h-20 object-cover rounded-md flex-shrink-0" />
+                    : <HistoryThumbnail image={item.file} />}
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate text-slate-200" title={item.file.name}>{item.file.name}</p>
+                    <p className={BATCH_STATUS_COLORS[item.status]}>
+                      {item.status === 'running' && <Loader size="sm" />} {t(BATCH_STATUS_LABELS[item.status])}
+                      {hasOverrides && <span className="text-slate-500"> · {t('batch.hasOverrides')}</span>}
+                    </p>
+                    {item.error && <p className="text-red-400 break-words">{item.error.message}</p>}
+                  </div>
+                  <div className="flex flex-col gap-1">
+                    <button onClick={() => setExpandedId(expandedId === item.id ? null : item.id)} title={t('batch.overrides')} aria-label={t('batch.overrides')} className="px-1.5 py-0.5 bg-slate-700 text-slate-200 rounded hover:bg-slate-600">⚙</button>
+                    <button onClick={() => updateItems(list => list.filter(other => other.id !== item.id))} disabled={item.status === 'running'} title={t('batch.removeItem')} aria-label={t('batch.removeItem')} className="px-1.5 py-0.5 bg-slate-700 text-slate-200 rounded hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed">✕</button>
+                  </div>
+                </div>
+                {expandedId === item.id && (
+                  <div className="mt-2 flex flex-col gap-2">
+                    <label className="text-slate-400">{t('batch.itemPrompt')}
+                      <textarea rows={2} value={item.prompt} disabled={!isEditable} onChange={(e) => patchItem(item.id, { prompt: e.target.value })} placeholder={prompt || t('batch.shared')} className={`mt-1 ${inputClassName}`} />
+                    </label>
+                    <label className="text-slate-400">{t('batch.canvas')}
+                      <select value={getBatchTemplateChoice(item.templateOptions)} disabled={!isEditable} onChange={(e) => handleTemplateChoice(item, e.target.value)} className={`mt-1 ${inputClassName}`}>
+                        <option value="shared">{t('batch.shared')}</option>
+                        {ASPECT_RATIO_PRESETS.map(preset => (<option key={preset.id} value={preset.id}>{t(preset.labelKey)}</option>))}
+                        <option value="equirectangular">{t('template.sphere')}</option>
+                      </select>
+                    </label>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </>)}
+    </div>
+  );
+};
+
+const VIEWER_DEFAULT_FOV = 80;
+const VIEWER_MIN_FOV = 30;
+const VIEWER_MAX_FOV = 110;
+// Rendering every CSS pixel in JS is too slow while dragging; the canvas is upscaled instead.
+const VIEWER_MAX_RENDER_WIDTH = 800;
+
+interface PanoramaViewerProps {
+  imageUrl: string;
+}
+/**
+ * Interactive viewer for equirectangular panoramas. Each frame is reprojected on a 2D
+ * canvas: every output pixel is turned into a view ray, rotated by the current yaw/pitch
+ * and mapped back to longitude/latitude in the source image.
+ */
+const PanoramaViewer: React.FC<PanoramaViewerProps> = ({ imageUrl }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sourceRef = useRef<ImageData | null>(null);
+  const viewRef = useRef({ yaw: 0, pitch: 0, fov: VIEWER_DEFAULT_FOV });
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const [isReady, setIsReady] = useState(false);
+
+  const render = useCallback(() => {
+    frameRef.current = null;
+    const canvas = canvasRef.current;
+    const source = sourceRef.current;
+    if (!canvas || !source) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const { width, height } = canvas;
+    const output = ctx.createImageData(width, height);
+    const out = output.data;
+    const src = source.data;
+    const srcWidth = source.width;
+    const srcHeight = source.height;
+    const { yaw, pitch, fov } = viewRef.current;
+    const focal = (width / 2) / Math.tan((fov * Math.PI / 180) / 2);
+    const yawRad = yaw * Math.PI / 180;
+    const pitchRad = pitch * Math.PI / 180;
+    const cosYaw = Math.cos(yawRad), sinYaw = Math.sin(yawRad);
+    const cosPitch = Math.cos(pitchRad), sinPitch = Math.sin(pitchRad);
+    for (let y = 0; y < height; y++) {
+      const vy = height / 2 - y - 0.5;
+      const ry = vy * cosPitch + focal * sinPitch;
+      const rz0 = -vy * sinPitch + focal * cosPitch;
+      for (let x = 0; x < width; x++) {
+        const vx = x - width / 2 + 0.5;
+        const rx = vx * cosYaw + rz0 * sinYaw;
+        const rz = -vx * sinYaw + rz0 * cosYaw;
+        const lon = Math.atan2(rx, rz);
+        const lat = Math.atan2(ry, Math.sqrt(rx * rx + rz * rz));
+        let u = Math.floor((lon / (2 * Math.PI) + 0.5) * srcWidth) % srcWidth;
+        if (u < 0) u += srcWidth;
+        const v = Math.min(srcHeight - 1, Math.max(0, Math.floor((0.5 - lat / Math.PI) * srcHeight)));
+        const si = (v * srcWidth + u) * 4;
+        const oi = (y * width + x) * 4;
+        out[oi] = src[si];
+        out[oi + 1] = src[si + 1];
+        out[oi + 2] = src[si + 2];
+        out[oi + 3] = 255;
+      }
+    }
+    ctx.putImageData(output, 0, 0);
+  }, []);
+
+  const requestRender = useCallback(() => {
+    if (frameRef.current === null) {
+      frameRef.current = requestAnimationFrame(render);
+    }
+  }, [render]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsReady(false);
+    loadImage(imageUrl).then(img => {
+      if (cancelled) return;
+      const offscreen = document.createElement('canvas');
+      offscreen.width = img.naturalWidth;
+      offscreen.height = img.naturalHeight;
+      const ctx = offscreen.getContext('2d');
+      if (!ctx) return;
+      ctx.drawImage(img, 0, 0);
+      sourceRef.current = ctx.getImageData(0, 0, offscreen.width, offscreen.height);
+      setIsReady(true);
+      requestRender();
+    }).catch(err => console.error(err));
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl, requestRender]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const resize = () => {
+      const renderWidth = Math.min(VIEWER_MAX_RENDER_WIDTH, canvas.clientWidth || VIEWER_MAX_RENDER_WIDTH);
+      canvas.width = Math.max(1, Math.round(renderWidth));
+      canvas.height = Math.max(1, Math.round(renderWidth * (canvas.clientHeight / (canvas.clientWidth || 1) || 9 / 16)));
+      requestRender();
+    };
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const view = viewRef.current;
+      view.fov = Math.min(VIEWER_MAX_FOV, Math.max(VIEWER_MIN_FOV, view.fov + event.deltaY * 0.05));
+      requestRender();
+    };
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => {
+      observer.disconnect();
+      canvas.removeEventListener('wheel', handleWheel);
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current);
+        frameRef.current = null;
+      }
+    };
+  }, [requestRender]);
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { x: event.clientX, y: event.clientY };
+  };
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!dragRef.current) return;
+    const view = viewRef.current;
+    const degreesPerPixel = view.fov / event.currentTarget.clientWidth;
+    view.yaw -= (event.clientX - dragRef.current.x) * degreesPerPixel;
+    view.pitch = Math.min(89, Math.max(-89, view.pitch + (event.clientY - dragRef.current.y) * degreesPerPixel));
+    dragRef.current = { x: event.clientX, y: event.clientY };
+    requestRender();
+  };
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+  const handleResetView = () => {
+    viewRef.current = { yaw: 0, pitch: 0, fov: VIEWER_DEFAULT_FOV };
+    requestRender();
+  };
+
+  return (
+    <div className="relative w-full h-full">
+      <canvas
+        ref={canvasRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="w-full h-full cursor-grab active:cursor-grabbing touch-none"
+      />
+      {!isReady && <div className="absolute inset-0 flex items-center justify-center"><Loader /></div>}
+      <div className="absolute bottom-2 left-2 right-2 flex justify-between items-center text-xs text-slate-300 pointer-events-none">
+        <span className="bg-black/50 px-2 py-1 rounded">{t('sphere.hint')}</span>
+        <button onClick={handleResetView} className="pointer-events-auto bg-black/50 hover:bg-black/70 px-2 py-1 rounded">{t('sphere.reset')}</button>
+      </div>
+    </div>
+  );
+};
+
+const INSPECTOR_MAX_ZOOM = 16;
+const INSPECTOR_ZOOM_STEP = 1.5;
+
+interface InspectorView {
+  /** Screen pixels per image pixel. */
+  scale: number;
+  /** Offset of the image's top-left corner inside the viewport, in screen pixels. */
+  x: number;
+  y: number;
+}
+
+interface ImageInspectorProps {
+  imageUrl: string;
+  /** Template the result was generated from; the wipe reveals it as "before", stretched over the result. */
+  templateUrl: string | null;
+  /** Where the template put the source, for the outline. */
+  placement: SourcePlacement | null;
+  /** Drawn over the image in image coordinates, e.g. the seam heatmap. */
+  overlayUrl: string | null;
+}
+const ImageInspector: React.FC<ImageInspectorProps> = ({ imageUrl, templateUrl, placement, overlayUrl }) => {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ mode: 'pan' | 'wipe'; x: number; y: number } | null>(null);
+  const fitScaleRef = useRef(1);
+  // While fitted, resizing the viewport (e.g. entering fullscreen) refits instead of keeping the zoom.
+  const isFittedRef = useRef(true);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [view, setView] = useState<InspectorView>({ scale: 1, x: 0, y: 0 });
+  const [viewportWidth, setViewportWidth] = useState(0);
+  const [isComparing, setIsComparing] = useState(false);
+  // Position of the wipe as a fraction of the viewport width; the template shows to its left.
+  const [wipe, setWipe] = useState(0.5);
+  const [showOutline, setShowOutline] = useState(false);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  const fit = useCallback(() => {
+    const viewport = viewportRef.current;
+    if (!viewport || !naturalSize) return;
+    const scale = Math.min(viewport.clientWidth / naturalSize.width, viewport.clientHeight / naturalSize.height);
+    fitScaleRef.current = scale;
+    isFittedRef.current = true;
+    setView({
+      scale,
+      x: (viewport.clientWidth - naturalSize.width * scale) / 2,
+      y: (viewport.clientHeight - naturalSize.height * scale) / 2,
+    });
+  }, [naturalSize]);
+
+  /** Zooms to `scale`, keeping the image point under the viewport point (px, py) in place. */
+  const zoomTo = useCallback((scale: number, px?: number, py?: number) => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const anchorX = px ?? viewport.clientWidth / 2;
+    const anchorY = py ?? viewport.clientHeight / 2;
+    isFittedRef.current = false;
+    setView(current => {
+      const next = Math.min(INSPECTOR_MAX_ZOOM, Math.max(fitScaleRef.current / 2, scale));
+      return {
+        scale: next,
+        x: anchorX - (anchorX - current.x) * next / current.scale,
+        y: anchorY - (anchorY - current.y) * next / current.scale,
+      };
+    });
+  }, []);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleResize = () => {
+      setViewportWidth(viewport.clientWidth);
+      if (isFittedRef.current) fit();
+    };
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      const px = event.clientX - rect.left;
+      const py = event.clientY - rect.top;
+      isFittedRef.current = false;
+      setView(current => {
+        const next = Math.min(INSPECTOR_MAX_ZOOM, Math.max(fitScaleRef.current / 2, current.scale * Math.exp(-event.deltaY * 0.0015)));
+        return { scale: next, x: px - (px - current.x) * next / current.scale, y: py - (py - current.y) * next / current.scale };
+      });
+    };
+    handleResize();
+    const observer = new ResizeObserver(handleResize);
+    observer.observe(viewport);
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => {
+      observer.disconnect();
+      viewport.removeEventListener('wheel', handleWheel);
+    };
+  }, [fit]);
+
+  useEffect(() => {
+    const handleFullscreenChange = () => setIsFullscreen(document.fullscreenElement === rootRef.current);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight });
+    isFittedRef.current = true;
+  };
+
+  const handlePointerDown = (mode: 'pan' | 'wipe') => (e: React.PointerEvent<HTMLElement>) => {
+    e.stopPropagation();
+    viewportRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, x: e.clientX, y: e.clientY };
+  };
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (drag.mode === 'wipe') {
+      const rect = e.currentTarget.getBoundingClientRect();
+      setWipe(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+    } else {
+      isFittedRef.current = false;
+      const dx = e.clientX - drag.x;
+      const dy = e.clientY - drag.y;
+      setView(current => ({ ...current, x: current.x + dx, y: current.y + dy }));
+    }
+    dragRef.current = { ...drag, x: e.clientX, y: e.clientY };
+  };
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleToggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(err => console.error('Failed to leave fullscreen:', err));
+    } else {
+      rootRef.current?.requestFullscreen().catch(err => console.error('Failed to enter fullscreen:', err));
+    }
+  };
+
+  // One image pixel per physical screen pixel.
+  const pixelScale = 1 / (window.devicePixelRatio || 1);
+  // The wipe stays put on screen while panning, so its position in the image is derived per render.
+  const wipeImagePercent = naturalSize
+    ? Math.min(100, Math.max(0, (wipe * viewportWidth - view.x) / view.scale / naturalSize.width * 100))
+    : 0;
+  const buttonClassName = "pointer-events-auto bg-black/50 hover:bg-black/70 px-2 py-1 rounded";
+  const toggleClassName = (active: boolean) => `pointer-events-auto px-2 py-1 rounded ${active ? 'bg-cyan-600/80 text-white' : 'bg-black/50 hover:bg-black/70'}`;
+
+  return (
+    <div ref={rootRef} className="relative w-full h-full bg-black">
+      <div
+        ref={viewportRef}
+        onPointerDown={handlePointerDown('pan')}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={fit}
+        className="absolute inset-0 overflow-hidden cursor-grab active:cursor-grabbing touch-none select-none"
+      >
+        <div
+          className="absolute left-0 top-0"
+          style={{
+            width: naturalSize?.width,
+            height: naturalSize?.height,
+            transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+            transformOrigin: '0 0',
+            // Past 2× the pixels themselves are what's being inspected, so don't blur them.
+            imageRendering: view.scale * (window.devicePixelRatio || 1) >= 2 ? 'pixelated' : 'auto',
+          }}
+        >
+          <img src={imageUrl} alt={t('result.alt')} onLoad={handleImageLoad} draggable={false} className="absolute inset-0 w-full h-full max-w-none" />
+          {overlayUrl && <img src={overlayUrl} alt="" draggable={false} className="absolute inset-0 w-full h-full max-w-none pointer-events-none" />}
+          {isComparing && templateUrl && (
+            <img
+              src={templateUrl}
+              alt={t('inspector.before')}
+              draggable={false}
+              className="absolute inset-0 w-full h-full max-w-none bg-slate-900"
+              style={{ clipPath: `inset(0 ${100 - wipeImagePercent}% 0 0)` }}
+            />
+          )}
+          {showOutline && placement && (
+            <div
+              className="absolute border-cyan-400 border-dashed pointer-events-none"
+              style={{ left: `${placement.x * 100}%`, top: `${placement.y * 100}%`, width: `${placement.width * 100}%`, height: `${placement.height * 100}%`, borderWidth: 2 / view.scale }}
+            />
+          )}
+        </div>
+        {isComparing && templateUrl && (
+          <div
+            onPointerDown={handlePointerDown('wipe')}
+            className="absolute top-0 bottom-0 w-4 -ml-2 cursor-ew-resize flex justify-center"
+            style={{ left: `${wipe * 100}%` }}
+            role="slider"
+            aria-label={t('inspector.compare')}
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(wipe * 100)}
+          >
+            <div className="w-0.5 h-full bg-white/80 shadow" />
+            <div className="absolute top-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-white/90 text-slate-800 text-xs flex items-center justify-center shadow">↔</div>
+          </div>
+        )}
+      </div>
+      {isComparing && templateUrl && (
+        <div className="absolute top-2 left-2 right-2 flex justify-between text-xs text-slate-200 pointer-events-none">
+          <span className="bg-black/50 px-2 py-1 rounded">{t('inspector.before')}</span>
+          <span className="bg-black/50 px-2 py-1 rounded">{t('inspector.after')}</span>
+        </div>
+      )}
+      <div className="absolute bottom-2 left-2 right-2 flex flex-wrap justify-between items-center gap-2 text-xs text-slate-300 pointer-events-none">
+        <div className="flex gap-1">
+          <button onClick={() => zoomTo(view.scale / INSPECTOR_ZOOM_STEP)} className={buttonClassName} aria-label={t('inspector.zoomOut')}>−</button>
+          <span className="bg-black/50 px-2 py-1 rounded w-14 text-center">{Math.round(view.scale / pixelScale * 100)}%</span>
+          <button onClick={() => zoomTo(view.scale * INSPECTOR_ZOOM_STEP)} className={buttonClassName} aria-label={t('inspector.zoomIn')}>+</button>
+          <button onClick={fit} className={buttonClassName}>{t('inspector.fit')}</button>
+          <button onClick={() => zoomTo(pixelScale)} className={buttonClassName}>1:1</button>
+        </div>
+        <div className="flex gap-1">
+          {templateUrl && <button onClick={() => setIsComparing(!isComparing)} className={toggleClassName(isComparing)}>{t('inspector.compare')}</button>}
+          {placement && <button onClick={() => setShowOutline(!showOutline)} className={toggleClassName(showOutline)}>{t('inspector.outline')}</button>}
+          <button onClick={handleToggleFullscreen} className={buttonClassName}>{isFullscreen ? t('inspector.exitFullscreen') : t('inspector.fullscreen')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const EXTEND_DIRECTIONS: { direction: ExtendDirection; labelKey: MessageKey; symbol: string }[] = [
+  { direction: 'left', labelKey: 'extend.left', symbol: '←' },
+  { direction: 'up', labelKey: 'extend.up', symbol: '↑' },
+  { direction: 'down', labelKey: 'extend.down', symbol: '↓' },
+  { direction: 'right', labelKey: 'extend.right', symbol: '→' },
+];
+
+interface TiledOutpaintControlsProps {
+  onStart: (options: TiledOutpaintOptions) => void;
+  disabled: boolean;
+}
+const TiledOutpaintControls: React.FC<TiledOutpaintControlsProps> = ({ onStart, disabled }) => {
+  const [targetWidth, setTargetWidth] = useState<string>('8000');
+  const [direction, setDirection] = useState<TiledDirection>('right');
+  const parsedWidth = parseInt(targetWidth, 10);
+  const isValid = !Number.isNaN(parsedWidth) && parsedWidth > 0 && parsedWidth <= TILED_MAX_TARGET_WIDTH;
+  const inputClassName = "block p-2 w-full text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 transition-colors";
+  return (
+    <details className="w-full bg-slate-700/30 rounded-lg p-3 text-sm">
+      <summary className="cursor-pointer text-slate-300">{t('tiled.title')}</summary>
+      <div className="mt-3 grid grid-cols-2 gap-2">
+        <label className="text-xs text-slate-400">{t('tiled.targetWidth')}
+          <input type="number" min={1} max={TILED_MAX_TARGET_WIDTH} value={targetWidth} disabled={disabled} onChange={(e) => setTargetWidth(e.target.value)} className={`mt-1 ${inputClassName}`} />
+        </label>
+        <label className="text-xs text-slate-400">{t('tiled.direction')}
+          <select value={direction} disabled={disabled} onChange={(e) => setDirection(e.target.value as TiledDirection)} className={`mt-1 ${inputClassName}`}>
+            <option value="right">{t('tiled.right')}</option>
+            <option value="left">{t('tiled.left')}</option>
+            <option value="both">{t('tiled.both')}</option>
+          </select>
+        </label>
+      </div>
+      <p className="text-xs text-slate-500 mt-2">{t('tiled.hint')}</p>
+      <button
+        onClick={() => onStart({ targetWidth: parsedWidth, direction })}
+        disabled={disabled || !isValid}
+        className="mt-2 w-full px-4 py-2 font-medium text-white bg-purple-600 rounded-lg hover:bg-purple-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+      >
+        {t('common.start')}
+      </button>
+    </details>
+  );
+};
+
+const LOCAL_UPSCALE_FACTORS = [2, 4];
+const TILED_ENHANCE_FACTORS = [1, 2];
+const DEFAULT_UPSCALE_SHARPEN = 0.6;
+
+interface EnhanceControlsProps {
+  imageUrl: string;
+  onStart: (options: EnhanceOptions) => void;
+  disabled: boolean;
+}
+const EnhanceControls: React.FC<EnhanceControlsProps> = ({ imageUrl, onStart, disabled }) => {
+  const [mode, setMode] = useState<EnhanceMode>('local');
+  const [factor, setFactor] = useState<number>(2);
+  const [sharpen, setSharpen] = useState<number>(DEFAULT_UPSCALE_SHARPEN);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const inputClassName = "block p-2 w-full text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 transition-colors";
+
+  useEffect(() => {
+    let cancelled = false;
+    setImageSize(null);
+    loadImage(imageUrl)
+      .then(img => { if (!cancelled) setImageSize({ width: img.naturalWidth, height: img.naturalHeight }); })
+      .catch(err => console.error('Failed to read the image size', err));
+    return () => { cancelled = true; };
+  }, [imageUrl]);
+
+  const factors = mode === 'local' ? LOCAL_UPSCALE_FACTORS : TILED_ENHANCE_FACTORS;
+  const options: EnhanceOptions = { mode, factor: factors.includes(factor) ? factor : factors[0], sharpen };
+  const estimate = imageSize ? estimateEnhance(options, imageSize.width, imageSize.height) : null;
+
+  return (
+    <details className="w-full bg-slate-700/30 rounded-lg p-3 text-sm">
+      <summary className="cursor-pointer text-slate-300">{t('upscale.title')}</summary>
+      <div className="mt-3 grid grid-cols-2 gap-2">
+        <label className="text-xs text-slate-400">{t('upscale.mode')}
+          <select value={mode} disabled={disabled} onChange={(e) => setMode(e.target.value as EnhanceMode)} className={`mt-1 ${inputClassName}`}>
+            <option value="local">{t('upscale.mode.local')}</option>
+            <option value="tiled">{t('upscale.mode.tiled')}</option>
+          </select>
+        </label>
+        <label className="text-xs text-slate-400">{t('upscale.factor')}
+          <select value={options.factor} disabled={disabled} onChange={(e) => setFactor(parseInt(e.target.value, 10))} className={`mt-1 ${inputClassName}`}>
+            {factors.map(value => <option key={value} value={value}>{value}×</option>)}
+          </select>
+        </label>
+        {mode === 'local' && (
+          <label className="col-span-2 flex items-center gap-2 text-xs text-slate-400">
+            {t('upscale.sharpen')}
+            <input type="range" min={0} max={1.5} step={0.1} value={sharpen} disabled={disabled} onChange={(e) => setSharpen(parseFloat(e.target.value))} className="flex-grow accent-cyan-500" />
+            <span className="w-10 text-right">{Math.round(sharpen * 100)}%</span>
+          </label>
+        )}
+      </div>
+      <p className="text-xs text-slate-500 mt-2">{mode === 'local' ? t('upscale.localHint') : t('upscale.tiledHint')}</p>
+      {imageSize && (
+        estimate ? (
+          <p className="text-xs text-slate-300 mt-1">
+            {t('upscale.estimate', { width: estimate.width, height: estimate.height, memory: formatFileSize(estimate.memoryBytes) })}
+            {mode === 'tiled' && ` · ${t('upscale.requests', { count: estimate.requests })}`}
+          </p>
+        ) : (
+          <p className="text-xs text-amber-400 mt-1">{t('upscale.tooLarge', { side: MAX_UPSCALE_SIDE })}</p>
+        )
+      )}
+      <button
+        onClick={() => onStart(options)}
+        disabled={disabled || !estimate}
+        className="mt-2 w-full px-4 py-2 font-medium text-white bg-teal-600 rounded-lg hover:bg-teal-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+      >
+        {t('common.start')}
+      </button>
+    </details>
+  );
+};
+
+const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+interface ElapsedTimerProps {
+  startedAt: number;
+  attemptStartedAt: number | null;
+  timeoutMs: number;
+}
+const ElapsedTimer: React.FC<ElapsedTimerProps> = ({ startedAt, attemptStartedAt, timeoutMs }) => {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(timer);
+  }, []);
+  const attemptElapsed = attemptStartedAt ? Math.max(0, now - attemptStartedAt) : 0;
+  const ratio = Math.min(1, attemptElapsed / timeoutMs);
+  return (
+    <div className="w-64 flex flex-col gap-1 text-sm text-slate-400">
+      <div className="flex justify-between">
+        <span>{t('timer.elapsed', { time: formatDuration(Math.max(0, now - startedAt)) })}</span>
+        {attemptStartedAt && <span>{t('timer.timeout', { time: formatDuration(Math.max(0, timeoutMs - attemptElapsed)) })}</span>}
+      </div>
+      <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+        <div className={`h-full transition-all ${ratio > 0.8 ? 'bg-amber-500' : 'bg-cyan-500'}`} style={{ width: `${ratio * 100}%` }} />
+      </div>
+    </div>
+  );
 };
 
+interface ApiKeyManagerProps {
+  value: string;
+  onChange: (apiKey: string) => void;
+  disabled: boolean;
+}
+/** Key input with optional encrypted profiles, a validity check and the .env fallback. */
+const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ value, onChange, disabled }) => {
+  const [profiles, setProfiles] = useState<ApiKeyProfile[]>(loadApiKeyProfiles);
+  const [profileId, setProfileId] = useState<string>(() => {
+    const stored = readStoredJson(ACTIVE_API_KEY_PROFILE_KEY);
+    return typeof stored === 'string' ? stored : '';
+  });
+  // Profile whose key is in `value`; the others still need their passphrase.
+  const [unlockedId, setUnlockedId] = useState<string | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [profileName, setProfileName] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [notice, setNotice] = useState<{ ok: boolean; text: string } | null>(null);
+  const inputClassName = "block p-2.5 w-full text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 placeholder-slate-400 transition-colors";
+  const buttonClassName = "px-3 py-2 text-sm text-slate-200 bg-slate-700 rounded-lg hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
 
-const generatePanorama = async (
-  base64ImageData: string,
-  mimeType: string,
-  userPrompt: string,
-  apiKey: string
-): Promise<PanoramaResult> => {
-  if (!apiKey) {
-    throw new Error("API ключ не предоставлен.");
-  }
-  const ai = new GoogleGenAI({ apiKey: apiKey });
-  try {
-    const fullPrompt = `Расширьте это изображение, чтобы оно заполнило весь холст 16:9. Существующее изображение — это центр сцены. Создайте бесшовное, естественное продолжение сцены, соответствующее стилю, освещению и содержанию оригинального кадра. Итоговое изображение должно выглядеть как единая, цельная картина без черных полей или рамок. Творческое направление от пользователя: ${userPrompt}`;
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image-preview',
-      contents: {
-        parts: [
-          { inlineData: { data: base64ImageData, mimeType: mimeType } },
-          { text: fullPrompt },
-        ],
-      },
-      config: {
-        responseModalities: [Modality.IMAGE, Modality.TEXT],
-      },
-    });
-    let imageUrl: string | null = null;
-    let text: string | null = null;
-    if (response.candidates && response.candidates.length > 0) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData && part.inlineData.data) {
-          const base64Bytes = part.inlineData.data;
-          const imageMimeType = part.inlineData.mimeType;
-          imageUrl = `data:${imageMimeType};base64,${base64Bytes}`;
-        } else if (part.text) {
-          text = part.text;
-        }
-      }
-    }
-    if (!imageUrl) {
-        throw new Error("Не удалось сгенерировать изображение. Модель не вернула изображение в ответе.");
-    }
-    return { imageUrl, text };
-  } catch (error) {
-    console.error("Ошибка при вызове Gemini API:", error);
-    if (error instanceof Error && (error.message.includes('API_KEY') || error.message.includes('permission denied'))) {
-        throw new Error("Произошла ошибка конфигурации. Проверьте ваш API ключ.");
-    }
-    throw new Error("Не удалось сгенерировать панораму. Пожалуйста, попробуйте еще раз позже.");
-  }
-};
+  useEffect(() => writeStoredJson(API_KEY_PROFILES_KEY, profiles), [profiles]);
+  useEffect(() => writeStoredJson(ACTIVE_API_KEY_PROFILE_KEY, profileId), [profileId]);
 
-const enhanceImage = async (
-  base64ImageData: string,
-  mimeType: string,
-  apiKey: string
-): Promise<PanoramaResult> => {
-  if (!apiKey) {
-    throw new Error("API ключ не предоставлен.");
-  }
-  const ai = new GoogleGenAI({ apiKey: apiKey });
-  try {
-    const prompt = "Значительно улучши качество и детализацию этого изображения. Сделай его более четким, с высоким разрешением и фотореалистичным, сохраняя при этом исходную композицию и тематику. Не добавляй никаких новых объектов или элементов, просто улучши существующее изображение.";
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image-preview',
-      contents: {
-        parts: [
-          { inlineData: { data: base64ImageData, mimeType: mimeType } },
-          { text: prompt },
-        ],
-      },
-      config: {
-        responseModalities: [Modality.IMAGE, Modality.TEXT],
-      },
-    });
-    let imageUrl: string | null = null;
-    let text: string | null = null;
-    if (response.candidates && response.candidates.length > 0) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData && part.inlineData.data) {
-          const base64Bytes = part.inlineData.data;
-          const imageMimeType = part.inlineData.mimeType;
-          imageUrl = `data:${imageMimeType};base64,${base64Bytes}`;
-        } else if (part.text) {
-          text = part.text;
-        }
-      }
-    }
-    if (!imageUrl) {
-        throw new Error("Не удалось улучшить изображение. Модель не вернула изображение в ответе.");
-    }
-    return { imageUrl, text };
-  } catch (error) {
-    console.error("Ошибка при вызове Gemini API для улучшения:", error);
-    if (error instanceof Error && (error.message.includes('API_KEY') || error.message.includes('permission denied'))) {
-        throw new Error("Произошла ошибка конфигурации. Проверьте ваш API ключ.");
-    }
-    throw new Error("Не удалось улучшить изображение. Пожалуйста, попробуйте еще раз позже.");
-  }
-};
+  const selectedProfile = profiles.find(profile => profile.id === profileId) ?? null;
+  const isLocked = !!selectedProfile && unlockedId !== selectedProfile.id;
+  const effectiveKey = value || ENV_API_KEY?.key || '';
 
+  // Long-running steps share the busy flag and report through the same notice line.
+  const run = async (task: () => Promise<string>) => {
+    setIsWorking(true);
+    setNotice(null);
+    try {
+      setNotice({ ok: true, text: await task() });
+    } catch (err) {
+      setNotice({ ok: false, text: err instanceof Error ? err.message : t('error.unknown') });
+    } finally {
+      setIsWorking(false);
+    }
+  };
 
-// --- ICONS ---
+  const handleSelectProfile = (id: string) => {
+    setProfileId(id);
+    setUnlockedId(null);
+    setPassphrase('');
+    setNotice(null);
+    onChange('');
+  };
 
-const SparklesIcon: React.FC = () => (
-  <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-    <path strokeLinecap="round" strokeLinejoin="round" d="M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.293 2.293a1 1 0 010 1.414L10 16l-4 2 2-4 5.293-5.293a1 1 0 011.414 0z" />
-  </svg>
-);
+  const handleUnlock = () => selectedProfile && run(async () => {
+    const key = await decryptApiKey(selectedProfile, passphrase);
+    onChange(key);
+    setUnlockedId(selectedProfile.id);
+    setPassphrase('');
+    return t('apiKey.unlocked', { name: selectedProfile.name });
+  });
 
-const MagicWandIcon: React.FC = () => (
-    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-1" viewBox="0 0 20 20" fill="currentColor">
-        <path fillRule="evenodd" d="M3.172 5.172a4 4 0 015.656 0L10 6.343l1.172-1.171a4 4 0 115.656 5.656L10 17.657l-6.828-6.829a4 4 0 010-5.656z" clipRule="evenodd" />
-    </svg>
-);
+  const handleSave = () => run(async () => {
+    const profile = await encryptApiKey(profileName.trim(), value, passphrase);
+    setProfiles(current => [...current, profile]);
+    setProfileId(profile.id);
+    setUnlockedId(profile.id);
+    setProfileName('');
+    setPassphrase('');
+    return t('apiKey.saved', { name: profile.name });
+  });
 
-const DownloadIcon: React.FC = () => (
-    <svg className="w-5 h-5 mr-2" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 20 19">
-        <path stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 15h.01M4 12H2a1 1 0 0 0-1 1v4a1 1 0 0 0 1 1h16a1 1 0 0 0 1-1v-4a1 1 0 0 0-1-1h-3m-5.5 0v-5.5m0 0h3m-3 0h-3"/>
-    </svg>
-);
+  const handleDelete = () => {
+    if (!selectedProfile || !window.confirm(t('apiKey.confirmDelete', { name: selectedProfile.name }))) return;
+    setProfiles(current => current.filter(profile => profile.id !== selectedProfile.id));
+    handleSelectProfile('');
+  };
 
-const HistoryIcon: React.FC = () => (
-  <svg className="w-6 h-6" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-    <path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 1 1-18 0 9 9 0 0 1 18 0Z" />
-  </svg>
-);
+  const handleValidate = () => run(async () => {
+    try {
+      await validateGeminiApiKey(effectiveKey);
+    } catch (err) {
+      const reason = err instanceof GenerationError ? t(ERROR_GUIDANCE[err.code].title) : t('error.unknown');
+      throw new Error(t('apiKey.invalid', { reason }));
+    }
+    return t('apiKey.valid', { model: GEMINI_IMAGE_MODEL });
+  });
 
-const TrashIcon: React.FC = () => (
-    <svg className="w-4 h-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" >
-        <path strokeLinecap="round" strokeLinejoin="round" d="m14.74 9-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 0 1-2.244 2.077H8.084a2.25 2.25 0 0 1-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 0 0-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 0 1 3.478-.397m7.5 0v-.916c0-1.18-.91-2.134-2.09-2.201a51.964 51.964 0 0 0-3.32 0c-1.18.067-2.09 1.02-2.09 2.201v.916m7.5 0a48.667 48.667 0 0 0-7.5 0" />
-    </svg>
-);
+  return (
+    <div className="flex flex-col gap-2">
+      <label htmlFor="api-key" className="block text-sm font-medium text-slate-300">
+        {t('provider.apiKey')}
+      </label>
+      {profiles.length > 0 && (
+        <div className="flex gap-2">
+          <select value={profileId} onChange={(e) => handleSelectProfile(e.target.value)} disabled={disabled || isWorking} aria-label={t('apiKey.profile')} className={inputClassName}>
+            <option value="">{t('apiKey.noProfile')}</option>
+            {profiles.map(profile => (<option key={profile.id} value={profile.id}>{profile.name}</option>))}
+          </select>
+          {selectedProfile && <button onClick={handleDelete} disabled={disabled || isWorking} className={buttonClassName}>{t('common.delete')}</button>}
+        </div>
+      )}
+      {isLocked ? (
+        <div className="flex gap-2">
+          <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter' && passphrase) handleUnlock(); }} disabled={disabled || isWorking} placeholder={t('apiKey.passphrase')} className={inputClassName} />
+          <button onClick={handleUnlock} disabled={disabled || isWorking || !passphrase} className={buttonClassName}>{t('apiKey.unlock')}</button>
+        </div>
+      ) : (
+        <input
+          type="password"
+          id="api-key"
+          value={value}
+          onChange={(e) => {
+            // An edited key no longer matches the saved one.
+            if (selectedProfile) {
+              setProfileId('');
+              setUnlockedId(null);
+            }
+            onChange(e.target.value);
+          }}
+          disabled={disabled}
+          className={inputClassName}
+          placeholder={ENV_API_KEY ? t('apiKey.envPlaceholder') : t('provider.apiKeyPlaceholder')}
+        />
+      )}
+      <div className="flex gap-2">
+        <button onClick={handleValidate} disabled={disabled || isWorking || !effectiveKey} className={buttonClassName}>{t('apiKey.validate')}</button>
+      </div>
+      {notice && <p className={`text-xs ${notice.ok ? 'text-green-400' : 'text-red-400'}`}>{notice.ok ? '✓' : '✗'} {notice.text}</p>}
+      {!value && ENV_API_KEY && <p className="text-xs text-slate-400">{t('apiKey.envFallback')}</p>}
+      {ENV_API_KEY?.production && (
+        <p className="text-xs text-amber-300 bg-amber-900/30 border border-amber-700/50 rounded-lg p-2">{t('apiKey.productionWarning')}</p>
+      )}
+      {value && !selectedProfile && (
+        <details className="bg-slate-700/30 rounded-lg p-3 text-sm">
+          <summary className="cursor-pointer text-slate-300">{t('apiKey.saveTitle')}</summary>
+          <div className="mt-3 grid grid-cols-2 gap-2">
+            <input value={profileName} onChange={(e) => setProfileName(e.target.value)} disabled={disabled || isWorking} placeholder={t('apiKey.profileName')} className={inputClassName} />
+            <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} disabled={disabled || isWorking} placeholder={t('apiKey.passphrase')} className={inputClassName} />
+          </div>
+          <p className="text-xs text-slate-500 mt-2">{t('apiKey.saveHint')}</p>
+          <button onClick={handleSave} disabled={disabled || isWorking || !profileName.trim() || !passphrase} className="mt-2 w-full px-4 py-2 font-medium text-white bg-cyan-600 rounded-lg hover:bg-cyan-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors">
+            {t('apiKey.save')}
+          </button>
+        </details>
+      )}
+      <p className="text-xs text-slate-500">
+        {t('provider.apiKeyHint')} <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:underline">Google AI Studio</a>.
+      </p>
+    </div>
+  );
+};
 
-const ReuseIcon: React.FC = () => (
-    <svg className="w-4 h-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-        <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0 3.181 3.183a8.25 8.25 0 0 0 11.667 0m0 0-3.182-3.182m0-11.667a8.25 8.25 0 0 0-11.667 0M6.168 12.33m0 0-3.181-3.182" />
-    </svg>
-);
+interface RequestSettingsPanelProps {
+  value: RequestSettings;
+  onChange: (settings: RequestSettings) => void;
+  disabled: boolean;
+}
+const RequestSettingsPanel: React.FC<RequestSettingsPanelProps> = ({ value, onChange, disabled }) => {
+  const inputClassName = "block p-2 w-full text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 transition-colors";
+  const handleNumber = (key: keyof RequestSettings, min: number, max: number, scale = 1) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const parsed = parseInt(e.target.value, 10);
+    if (Number.isNaN(parsed)) return;
+    onChange({ ...value, [key]: Math.min(max, Math.max(min, parsed)) * scale });
+  };
+  return (
+    <details className="bg-slate-700/30 rounded-lg p-3 text-sm">
+      <summary className="cursor-pointer text-slate-300">{t('retry.title')}</summary>
+      <div className="mt-3 grid grid-cols-2 gap-2">
+        <label className="text-xs text-slate-400">{t('retry.attempts')}
+          <input type="number" min={0} max={10} value={value.maxRetries} disabled={disabled} onChange={handleNumber('maxRetries', 0, 10)} className={`mt-1 ${inputClassName}`} />
+        </label>
+        <label className="text-xs text-slate-400">{t('retry.timeout')}
+          <input type="number" min={10} max={600} value={Math.round(value.timeoutMs / 1000)} disabled={disabled} onChange={handleNumber('timeoutMs', 10, 600, 1000)} className={`mt-1 ${inputClassName}`} />
+        </label>
+      </div>
+      <p className="text-xs text-slate-500 mt-2">{t('retry.hint')}</p>
+    </details>
+  );
+};
 
-const EnhanceIcon: React.FC = () => (
-    <svg className="w-5 h-5 mr-2" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-        <path strokeLinecap="round" strokeLinejoin="round" d="M9.813 15.904 9 18.75l-.813-2.846a4.5 4.5 0 0 0-3.09-3.09L2.25 12l2.846-.813a4.5 4.5 0 0 0 3.09-3.09L9 5.25l.813 2.846a4.5 4.5 0 0 0 3.09 3.09L15.75 12l-2.846.813a4.5 4.5 0 0 0-3.09 3.09ZM18.259 8.715 18 9.75l-.259-1.035a3.375 3.375 0 0 0-2.455-2.456L14.25 6l1.036-.259a3.375 3.375 0 0 0 2.455-2.456L18 2.25l.259 1.035a3.375 3.375 0 0 0 2.456 2.456L21.75 6l-1.035.259a3.375 3.375 0 0 0-2.456 2.456Z" />
-    </svg>
-);
+interface SeamCheckPanelProps {
+  value: SeamCheckSettings;
+  onChange: (settings: SeamCheckSettings) => void;
+  disabled: boolean;
+}
+const SeamCheckPanel: React.FC<SeamCheckPanelProps> = ({ value, onChange, disabled }) => {
+  const inputClassName = "block p-2 w-full text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 transition-colors";
+  const handleNumber = (key: 'maxRetries' | 'threshold', min: number, max: number) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const parsed = parseInt(e.target.value, 10);
+    if (Number.isNaN(parsed)) return;
+    onChange({ ...value, [key]: Math.min(max, Math.max(min, parsed)) });
+  };
+  return (
+    <details className="bg-slate-700/30 rounded-lg p-3 text-sm">
+      <summary className="cursor-pointer text-slate-300">{t('seam.title')}</summary>
+      <label className="mt-3 flex items-center gap-2 text-slate-300 cursor-pointer">
+        <input type="checkbox" checked={value.autoRetry} disabled={disabled} onChange={(e) => onChange({ ...value, autoRetry: e.target.checked })} className="accent-cyan-500" />
+        {t('seam.autoRetry')}
+      </label>
+      <div className="mt-3 grid grid-cols-2 gap-2">
+        <label className="text-xs text-slate-400">{t('seam.threshold')}
+          <input type="number" min={0} max={100} value={value.threshold} disabled={disabled} onChange={handleNumber('threshold', 0, 100)} className={`mt-1 ${inputClassName}`} />
+        </label>
+        <label className="text-xs text-slate-400">{t('seam.maxRetries')}
+          <input type="number" min={1} max={MAX_SEAM_RETRIES} value={value.maxRetries} disabled={disabled || !value.autoRetry} onChange={handleNumber('maxRetries', 1, MAX_SEAM_RETRIES)} className={`mt-1 ${inputClassName}`} />
+        </label>
+      </div>
+      <p className="text-xs text-slate-500 mt-2">{t('seam.hint')}</p>
+    </details>
+  );
+};
 
+interface InputSettingsPanelProps {
+  value: InputSettings;
+  onChange: (settings: InputSettings) => void;
+  disabled: boolean;
+}
+const InputSettingsPanel: React.FC<InputSettingsPanelProps> = ({ value, onChange, disabled }) => {
+  const inputClassName = "block p-2 w-full text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 transition-colors";
+  const handleMaxSide = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const parsed = parseInt(e.target.value, 10);
+    if (Number.isNaN(parsed)) return;
+    onChange({ ...value, maxSide: Math.min(MAX_SOURCE_MAX_SIDE, Math.max(MIN_SOURCE_MAX_SIDE, parsed)) });
+  };
+  return (
+    <details className="bg-slate-700/30 rounded-lg p-3 text-sm">
+      <summary className="cursor-pointer text-slate-300">{t('input.title')}</summary>
+      <div className="mt-3 grid grid-cols-2 gap-2">
+        <label className="text-xs text-slate-400">{t('input.alpha')}
+          <select value={value.alpha} disabled={disabled} onChange={(e) => onChange({ ...value, alpha: e.target.value as SourceAlphaMode })} className={`mt-1 ${inputClassName}`}>
+            <option value="flatten">{t('input.alpha.flatten')}</option>
+            <option value="outpaint">{t('input.alpha.outpaint')}</option>
+          </select>
+        </label>
+        <label className="text-xs text-slate-400">{t('input.maxSide')}
+          <input type="number" min={MIN_SOURCE_MAX_SIDE} max={MAX_SOURCE_MAX_SIDE} step={256} value={value.maxSide} disabled={disabled} onChange={handleMaxSide} className={`mt-1 ${inputClassName}`} />
+        </label>
+      </div>
+      {value.alpha === 'flatten' && (
+        <label className="mt-2 flex items-center gap-2 text-xs text-slate-400">
+          <input type="color" value={value.background} disabled={disabled} onChange={(e) => onChange({ ...value, background: e.target.value })} className="w-10 h-8 bg-transparent rounded cursor-pointer disabled:opacity-50" />
+          {t('input.background')}
+        </label>
+      )}
+      <p className="text-xs text-slate-500 mt-2">{t('input.hint', { size: MAX_SOURCE_FILE_MB, min: MIN_SOURCE_SIDE })}</p>
+    </details>
+  );
+};
 
-// --- COMPONENTS ---
+interface VariantSettingsProps {
+  value: VariantOptions;
+  onChange: (options: VariantOptions) => void;
+  prompt: string;
+  disabled: boolean;
+}
+const VariantSettings: React.FC<VariantSettingsProps> = ({ value, onChange, prompt, disabled }) => {
+  const jobCount = getVariantPrompts(prompt, value).length;
+  return (
+    <details className="bg-slate-700/30 rounded-lg p-3 text-sm">
+      <summary className="cursor-pointer text-slate-300">{t('variants.title')}</summary>
+      <div className="mt-3 flex flex-col gap-3">
+        <div>
+          <p className="text-xs text-slate-400 mb-1">{t('variants.perPrompt')}</p>
+          <div className="grid grid-cols-4 gap-1">
+            {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(count => (
+              <button
+                key={count}
+                onClick={() => onChange({ ...value, count })}
+                disabled={disabled}
+                className={`px-2 py-1 rounded-md transition-colors ${value.count === count ? 'bg-cyan-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+              >
+                {count}
+              </button>
+            ))}
+          </div>
+        </div>
+        <label className="flex items-center gap-2 text-slate-300">
+          <input type="checkbox" checked={value.matrixEnabled} disabled={disabled} onChange={(e) => onChange({ ...value, matrixEnabled: e.target.checked })} />
+          {t('variants.matrix')}
+        </label>
+        {value.matrixEnabled && (
+          <textarea
+            rows={4}
+            value={value.matrixPrompts}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...value, matrixPrompts: e.target.value })}
+            className="block p-2 w-full text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 placeholder-slate-400 transition-colors"
+            placeholder={t('variants.matrixPlaceholder')}
+          />
+        )}
+        <p className="text-xs text-slate-500">
+          {t(jobCount === MAX_VARIANT_JOBS ? 'variants.totalMax' : 'variants.total', { count: jobCount, concurrency: VARIANT_CONCURRENCY })}
+        </p>
+      </div>
+    </details>
+  );
+};
 
-interface LoaderProps {
-  size?: 'sm' | 'md' | 'lg';
+interface VariantPickerProps {
+  variants: GenerationVariant[];
+  selectedId: number | null;
+  savedIds: number[];
+  onSelect: (variant: GenerationVariant) => void;
+  onSave: (variant: GenerationVariant) => void;
 }
-const Loader: React.FC<LoaderProps> = ({ size = 'md' }) => {
-  const sizeClasses = { sm: 'w-4 h-4', md: 'w-6 h-6', lg: 'w-10 h-10' };
+const VariantPicker: React.FC<VariantPickerProps> = ({ variants, selectedId, savedIds, onSelect, onSave }) => {
+  const [compareIds, setCompareIds] = useState<number[]>([]);
+  const toggleCompare = (id: number) => {
+    // Keep at most two: marking a third replaces the older pick.
+    setCompareIds(ids => ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id].slice(-2));
+  };
+  const compared = compareIds
+    .map(id => variants.find(variant => variant.id === id))
+    .filter((variant): variant is GenerationVariant => !!variant?.imageUrl);
+
   return (
-    <svg className={`animate-spin text-white ${sizeClasses[size]}`} xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-    </svg>
+    <div className="w-full flex flex-col gap-3">
+      {compared.length === 2 && (
+        <div className="bg-slate-900/60 rounded-lg p-3">
+          <div className="flex justify-between items-center mb-2">
+            <p className="text-sm font-semibold text-slate-300">{t('variants.compare')}</p>
+            <button onClick={() => setCompareIds([])} className="text-xs text-slate-400 hover:text-slate-200">{t('common.close')}</button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {compared.map(variant => (
+              <figure key={variant.id} className="flex flex-col gap-1">
+                <img src={variant.imageUrl} alt={variant.prompt} className="w-full rounded-md object-contain bg-black" />
+                <figcaption className="text-xs text-slate-400 truncate" title={variant.prompt}>{variant.prompt}</figcaption>
+              </figure>
+            ))}
+          </div>
+        </div>
+      )}
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+        {variants.map((variant, index) => {
+          const isSelected = variant.id === selectedId;
+          const isSaved = savedIds.includes(variant.id);
+          return (
+            <div key={variant.id} className={`flex flex-col gap-1 p-1 rounded-lg border ${isSelected ? 'border-cyan-400 bg-cyan-900/20' : 'border-slate-700'}`}>
+              {variant.imageUrl ? (
+                <button onClick={() => onSelect(variant)} className="block" title={t('variants.select')}>
+                  <img src={variant.imageUrl} alt={t('variants.alt', { index: index + 1 })} className="w-full aspect-video object-cover rounded-md" />
+                </button>
+              ) : (
+                <div className="w-full aspect-video flex items-center justify-center text-center text-xs text-red-400 bg-red-900/20 rounded-md p-1">
+                  {variant.error ? t(ERROR_GUIDANCE[variant.error.code].title) : t('variants.noImage')}
+                </div>
+              )}
+              <p className="text-xs text-slate-400 truncate" title={variant.prompt}>{variant.prompt}</p>
+              {variant.imageUrl && (
+                <div className="flex items-center justify-between gap-1 text-xs">
+                  <label className="flex items-center gap-1 text-slate-400">
+                    <input type="checkbox" checked={compareIds.includes(variant.id)} onChange={() => toggleCompare(variant.id)} />
+                    {t('variants.compareAction')}
+                  </label>
+                  <button onClick={() => onSave(variant)} disabled={isSaved} className="text-cyan-400 hover:underline disabled:text-slate-500 disabled:no-underline">
+                    {isSaved ? t('variants.saved') : t('variants.save')}
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
   );
 };
 
-interface ImageUploaderProps {
-  onImageUpload: (file: File) => void;
-  previewUrl: string | null;
+type MaskTool = 'brush' | 'eraser';
+
+interface MaskEditorProps {
+  imageUrl: string;
+  onApply: (mask: HTMLCanvasElement, prompt: string, featherPx: number) => void;
+  onClose: () => void;
 }
-const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, previewUrl }) => {
-  const [isDragging, setIsDragging] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement>(null);
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) onImageUpload(file);
+const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, onApply, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(64);
+  const [feather, setFeather] = useState(16);
+  const [regionPrompt, setRegionPrompt] = useState('');
+  const [hasMask, setHasMask] = useState(false);
+
+  // The mask lives at the image's native resolution; CSS scales it over the picture.
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = e.currentTarget.naturalWidth;
+    canvas.height = e.currentTarget.naturalHeight;
+    setHasMask(false);
   };
-  const handleDrop = (event: React.DragEvent<HTMLLabelElement>) => {
-    event.preventDefault();
-    event.stopPropagation();
-    setIsDragging(false);
-    const file = event.dataTransfer.files?.[0];
-    if (file && file.type.startsWith('image/')) onImageUpload(file);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * canvas.width / rect.width,
+      y: (e.clientY - rect.top) * canvas.height / rect.height,
+    };
   };
-  const handleDragEvents = (event: React.DragEvent<HTMLLabelElement>, dragging: boolean) => {
-    event.preventDefault();
-    event.stopPropagation();
-    setIsDragging(dragging);
+
+  const paint = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = 'rgb(236, 72, 153)';
+    ctx.lineWidth = brushSize;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    if (tool === 'brush') setHasMask(true);
   };
-  const triggerFileSelect = () => fileInputRef.current?.click();
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toCanvasPoint(e);
+    lastPointRef.current = point;
+    paint(point, point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current) return;
+    const point = toCanvasPoint(e);
+    paint(lastPointRef.current, point);
+    lastPointRef.current = point;
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+  };
+
+  const handleClearMask = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  const toolClassName = (active: boolean) => `px-3 py-1 ${active ? 'bg-cyan-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`;
+
   return (
-    <div>
-      <label htmlFor="image-upload" onDrop={handleDrop} onDragOver={(e) => handleDragEvents(e, true)} onDragEnter={(e) => handleDragEvents(e, true)} onDragLeave={(e) => handleDragEvents(e, false)} className={`relative flex flex-col items-center justify-center w-full h-64 border-2 border-dashed rounded-lg cursor-pointer transition-colors duration-300 ease-in-out ${isDragging ? 'border-cyan-400 bg-slate-700/50' : 'border-slate-600 bg-slate-800 hover:bg-slate-700/80'}`}>
-        {previewUrl ? (<img src={previewUrl} alt="Предпросмотр" className="object-contain w-full h-full rounded-lg p-1" />) : (<div className="flex flex-col items-center justify-center pt-5 pb-6 text-center"><svg className="w-10 h-10 mb-4 text-slate-400" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 20 16"><path stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 13h3a3 3 0 0 0 0-6h-.025A5.56 5.56 0 0 0 16 6.5 5.5 5.5 0 0 0 5.207 5.021C5.137 5.017 5.071 5 5 5a4 4 0 0 0 0 8h2.167M10 15V6m0 0L8 8m2-2 2 2"/></svg><p className="mb-2 text-sm text-slate-400"><span className="font-semibold">Нажмите для загрузки</span> или перетащите</p><p className="text-xs text-slate-500">PNG, JPG, WEBP (рекомендуется)</p></div>)}
-        <input ref={fileInputRef} id="image-upload" type="file" className="hidden" accept="image/png, image/jpeg, image/webp" onChange={handleFileChange} />
-      </label>
-      {previewUrl && (<button onClick={triggerFileSelect} className="w-full mt-2 text-sm text-center text-cyan-400 hover:text-cyan-300">Выбрать другое изображение</button>)}
+    <div className="w-full flex flex-col items-center gap-3">
+      <div className="relative inline-block max-w-full">
+        <img src={imageUrl} alt={t('inpaint.imageAlt')} onLoad={handleImageLoad} className="block max-w-full max-h-[60vh] rounded-lg select-none" draggable={false} />
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none rounded-lg"
+        />
+      </div>
+      <div className="w-full flex flex-wrap items-center justify-center gap-x-6 gap-y-2 text-sm text-slate-300">
+        <div className="flex rounded-lg overflow-hidden border border-slate-600">
+          <button onClick={() => setTool('brush')} className={toolClassName(tool === 'brush')}>{t('inpaint.brush')}</button>
+          <button onClick={() => setTool('eraser')} className={toolClassName(tool === 'eraser')}>{t('inpaint.eraser')}</button>
+        </div>
+        <label className="flex items-center gap-2">
+          {t('inpaint.size')}
+          <input type="range" min={4} max={256} value={brushSize} onChange={(e) => setBrushSize(parseInt(e.target.value, 10))} className="accent-cyan-500" />
+          <span className="w-12 text-right text-slate-400">{brushSize} px</span>
+        </label>
+        <label className="flex items-center gap-2">
+          {t('inpaint.feather')}
+          <input type="range" min={0} max={64} value={feather} onChange={(e) => setFeather(parseInt(e.target.value, 10))} className="accent-cyan-500" />
+          <span className="w-12 text-right text-slate-400">{feather} px</span>
+        </label>
+        <button onClick={handleClearMask} className="text-slate-400 hover:text-slate-200">{t('inpaint.clearMask')}</button>
+      </div>
+      <textarea
+        rows={2}
+        value={regionPrompt}
+        onChange={(e) => setRegionPrompt(e.target.value)}
+        className="block p-2.5 w-full text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 placeholder-slate-400 transition-colors"
+        placeholder={t('inpaint.placeholder')}
+      />
+      <div className="flex gap-3">
+        <button
+          onClick={() => canvasRef.current && onApply(canvasRef.current, regionPrompt.trim(), feather)}
+          disabled={!hasMask || !regionPrompt.trim()}
+          className="px-5 py-2.5 text-sm font-medium text-white bg-purple-600 rounded-lg hover:bg-purple-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+        >
+          {t('inpaint.apply')}
+        </button>
+        <button onClick={onClose} className="px-5 py-2.5 text-sm font-medium text-slate-200 bg-slate-700 rounded-lg hover:bg-slate-600 transition-colors">
+          {t('common.cancel')}
+        </button>
+      </div>
     </div>
   );
 };
 
-interface PromptInputProps {
-  value: string;
-  onChange: (event: React.ChangeEvent<HTMLTextAreaElement>) => void;
-  disabled: boolean;
+interface ExportDialogProps {
+  imageUrl: string;
+  /** How the result was made, or null when unknown; its prompt also feeds the `{prompt}` field of the file name. */
+  metadata: GenerationMetadata | null;
+  onClose: () => void;
 }
-const PromptInput: React.FC<PromptInputProps> = ({ value, onChange, disabled }) => {
+const ExportDialog: React.FC<ExportDialogProps> = ({ imageUrl, metadata, onClose }) => {
+  const [options, setOptions] = useState<ExportOptions>(loadExportOptions);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [supportedFormats, setSupportedFormats] = useState<ExportFormat[]>(['png']);
+  // Encoded with the options it was built from, so saving can reuse it when nothing changed since.
+  const [preview, setPreview] = useState<{ options: ExportOptions; blob: Blob } | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => writeStoredJson(EXPORT_OPTIONS_KEY, options), [options]);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(EXPORT_FORMAT_IDS.map(isExportFormatSupported)).then(flags => {
+      if (!cancelled) setSupportedFormats(EXPORT_FORMAT_IDS.filter((_, index) => flags[index]));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPreviewError(null);
+    // Debounced: encoding a full-size panorama per keystroke would stall the page.
+    const timer = setTimeout(() => {
+      exportImage(imageUrl, options, metadata)
+        .then(blob => {
+          if (!cancelled) setPreview({ options, blob });
+        })
+        .catch(err => {
+          if (!cancelled) setPreviewError(err instanceof Error ? err.message : t('error.unknown'));
+        });
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [imageUrl, options, metadata]);
+
+  const update = (patch: Partial<ExportOptions>) => setOptions(current => ({ ...current, ...patch }));
+  const outputSize = naturalSize ? getExportSize(options, naturalSize.width, naturalSize.height) : null;
+  const fileName = outputSize ? buildExportFileName(options.fileNameTemplate, metadata?.prompt ?? '', outputSize, options.format) : '';
+  const isLossy = EXPORT_FORMATS[options.format].lossy;
+  const isFlattened = options.fillBackground || options.format === 'jpeg';
+
+  const handleSave = async () => {
+    if (!outputSize) return;
+    setIsSaving(true);
+    try {
+      const blob = preview?.options === options ? preview.blob : await exportImage(imageUrl, options, metadata);
+      downloadBlob(blob, fileName);
+      onClose();
+    } catch (err) {
+      console.error('Failed to export the image:', err);
+      setPreviewError(err instanceof Error ? err.message : t('error.unknown'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClassName = "block p-2 w-full text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 transition-colors";
+  const numberValue = (e: React.ChangeEvent<HTMLInputElement>) => Number(e.target.value) || 0;
+
   return (
-    <div>
-      <label htmlFor="prompt" className="block mb-2 text-sm font-medium text-slate-300">Опишите, как расширить изображение</label>
-      <textarea id="prompt" rows={3} value={value} onChange={onChange} disabled={disabled} className="block p-2.5 w-full text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 placeholder-slate-400 transition-colors" placeholder="Например: 'преврати это в эпический фэнтезийный пейзаж'"></textarea>
+    <div className="w-full flex flex-col gap-4">
+      <h3 className="text-lg font-semibold text-slate-100">{t('export.title')}</h3>
+      <img
+        src={imageUrl}
+        alt={t('result.alt')}
+        onLoad={(e) => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+        className="w-full max-h-48 object-contain bg-black rounded-lg border border-slate-700"
+      />
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="export-format" className="block mb-2 text-sm font-medium text-slate-300">{t('export.format')}</label>
+          <select id="export-format" value={options.format} onChange={(e) => update({ format: e.target.value as ExportFormat })} className={inputClassName}>
+            {EXPORT_FORMAT_IDS.map(format => (
+              <option key={format} value={format} disabled={!supportedFormats.includes(format)}>
+                {supportedFormats.includes(format) ? EXPORT_FORMATS[format].label : t('export.formatUnavailable', { format: EXPORT_FORMATS[format].label })}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="export-quality" className="block mb-2 text-sm font-medium text-slate-300">{t('export.quality')}</label>
+          <div className="flex items-center gap-2">
+            <input id="export-quality" type="range" min={0.1} max={1} step={0.01} value={options.quality} disabled={!isLossy} onChange={(e) => update({ quality: parseFloat(e.target.value) })} className="flex-grow accent-cyan-500 disabled:opacity-50" />
+            <span className="w-12 text-right text-sm text-slate-400">{isLossy ? `${Math.round(options.quality * 100)}%` : '—'}</span>
+          </div>
+        </div>
+        <div>
+          <label htmlFor="export-resize" className="block mb-2 text-sm font-medium text-slate-300">{t('export.resize')}</label>
+          <select id="export-resize" value={options.resize} onChange={(e) => update({ resize: e.target.value as ExportResize })} className={inputClassName}>
+            <option value="original">{t('export.resizeOriginal')}</option>
+            <option value="width">{t('export.resizeWidth')}</option>
+            <option value="print">{t('export.resizePrint')}</option>
+          </select>
+          {options.resize === 'width' && (
+            <label className="block mt-2 text-xs text-slate-400">{t('export.width')}
+              <input type="number" min={1} max={MAX_EXPORT_SIDE} value={options.width} onChange={(e) => update({ width: numberValue(e) })} className={`mt-1 ${inputClassName}`} />
+            </label>
+          )}
+          {options.resize === 'print' && (
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              <label className="text-xs text-slate-400">{t('export.printWidth')}
+                <input type="number" min={1} step={0.1} value={options.printWidthCm} onChange={(e) => update({ printWidthCm: numberValue(e) })} className={`mt-1 ${inputClassName}`} />
+              </label>
+              <label className="text-xs text-slate-400">{t('export.dpi')}
+                <input type="number" min={1} value={options.dpi} onChange={(e) => update({ dpi: numberValue(e) })} className={`mt-1 ${inputClassName}`} />
+              </label>
+            </div>
+          )}
+        </div>
+        <div>
+          <span className="block mb-2 text-sm font-medium text-slate-300">{t('export.background')}</span>
+          <div className="flex items-center gap-3 text-sm text-slate-300">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={isFlattened} disabled={options.format === 'jpeg'} onChange={(e) => update({ fillBackground: e.target.checked })} className="accent-cyan-500" />
+              {t('export.fillTransparency')}
+            </label>
+            <input type="color" value={options.background} disabled={!isFlattened} onChange={(e) => update({ background: e.target.value })} aria-label={t('export.backgroundColor')} className="w-10 h-8 bg-transparent rounded cursor-pointer disabled:opacity-50" />
+          </div>
+          {options.format === 'jpeg' && <p className="text-xs text-slate-500 mt-1">{t('export.jpegBackground')}</p>}
+        </div>
+      </div>
+      <div>
+        <label htmlFor="export-file-name" className="block mb-2 text-sm font-medium text-slate-300">{t('export.fileName')}</label>
+        <input id="export-file-name" type="text" value={options.fileNameTemplate} onChange={(e) => update({ fileNameTemplate: e.target.value })} className={inputClassName} />
+        <p className="text-xs text-slate-500 mt-1">{t('export.fileNameHint', { fields: EXPORT_FILE_NAME_FIELDS.map(field => `{${field}}`).join(' ') })}</p>
+      </div>
+      <div>
+        <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+          <input type="checkbox" checked={options.embedMetadata} onChange={(e) => update({ embedMetadata: e.target.checked })} className="accent-cyan-500" />
+          {t('export.embedMetadata')}
+        </label>
+        {options.embedMetadata && options.format === 'avif' && <p className="text-xs text-slate-500 mt-1">{t('export.avifMetadata')}</p>}
+      </div>
+      <div className="p-3 text-sm bg-slate-900/50 rounded-lg border border-slate-700 text-slate-300">
+        <p className="truncate" title={fileName}>{fileName}</p>
+        <p className="text-slate-400">
+          {previewError
+            ? <span className="text-red-400">{previewError}</span>
+            : outputSize && preview?.options === options
+              ? t('export.estimate', { size: formatFileSize(preview.blob.size), width: outputSize.width, height: outputSize.height })
+              : t('export.estimating')}
+        </p>
+      </div>
+      <div className="flex justify-end gap-3">
+        <button onClick={onClose} className="px-5 py-2.5 text-sm font-medium text-slate-200 bg-slate-700 rounded-lg hover:bg-slate-600 transition-colors">
+          {t('common.cancel')}
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!outputSize || isSaving}
+          className="inline-flex items-center gap-2 px-5 py-2.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+        >
+          <DownloadIcon />
+          {isSaving ? t('common.wait') : t('export.save')}
+        </button>
+      </div>
     </div>
   );
 };
 
 interface ResultDisplayProps {
   imageUrl: string | null;
+  /** How the shown result was made; embedded into exported files. */
+  metadata: GenerationMetadata | null;
+  /** Seam check of the shown result, if it was measured, and the score it has to reach. */
+  seamQuality: SeamQualityReport | null;
+  seamThreshold: number;
+  /** Template the shown result was generated from, for the before/after comparison; null when it no longer lines up. */
+  templateUrl: string | null;
+  /** Where the template put the source. */
+  placement: SourcePlacement | null;
   text: string | null;
   isLoading: boolean;
   statusMessage: string;
-  onEnhance: () => void;
+  onEnhance: (options: EnhanceOptions) => void;
   isEnhancing: boolean;
+  onExtend: (direction: ExtendDirection) => void;
+  projection: PanoramaProjection;
+  onTiledOutpaint: (options: TiledOutpaintOptions) => void;
+  canRecompose: boolean;
+  recomposition: RecompositionSettings;
+  onRecompositionChange: (settings: RecompositionSettings) => void;
+  /** When the running request started and when its current attempt was sent. */
+  startedAt: number | null;
+  attemptStartedAt: number | null;
+  timeoutMs: number;
+  onCancel: () => void;
+  variants: GenerationVariant[];
+  selectedVariantId: number | null;
+  savedVariantIds: number[];
+  onSelectVariant: (variant: GenerationVariant) => void;
+  onSaveVariant: (variant: GenerationVariant) => void;
+  onInpaint: (mask: HTMLCanvasElement, prompt: string, featherPx: number) => void;
 }
-const ResultDisplay: React.FC<ResultDisplayProps> = ({ imageUrl, text, isLoading, statusMessage, onEnhance, isEnhancing }) => {
-  const handleDownload = async () => {
-    if (!imageUrl) return;
-    try {
-      const response = await fetch(imageUrl);
-      const blob = await response.blob();
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = 'panorama.png';
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-    } catch (error) {
-      console.error('Ошибка при скачивании изображения:', error);
-      // Fallback method
-      const link = document.createElement('a');
-      link.href = imageUrl;
-      link.download = 'panorama.png';
-      link.click();
-    }
-  };
-
+const ResultDisplay: React.FC<ResultDisplayProps> = ({ imageUrl, metadata, seamQuality, seamThreshold, templateUrl, placement, text, isLoading, statusMessage, onEnhance, isEnhancing, onExtend, projection, onTiledOutpaint, canRecompose, recomposition, onRecompositionChange, startedAt, attemptStartedAt, timeoutMs, onCancel, variants, selectedVariantId, savedVariantIds, onSelectVariant, onSaveVariant, onInpaint }) => {
+  const [showSphere, setShowSphere] = useState(true);
+  const [isMasking, setIsMasking] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const isEquirectangular = projection === 'equirectangular';
   if (isLoading || isEnhancing) {
     return (
       <div className="flex flex-col items-center justify-center text-center gap-4">
         <Loader size="lg" />
         <p className="text-lg text-slate-300 animate-pulse">
-            {isEnhancing ? 'Улучшение качества...' : statusMessage}
-        </p>
-        <p className="text-sm text-slate-400">
-            {isEnhancing ? 'Это может занять некоторое время.' : 'Процесс может занять до минуты.'}
+            {statusMessage}
         </p>
+        {startedAt && <ElapsedTimer startedAt={startedAt} attemptStartedAt={attemptStartedAt} timeoutMs={timeoutMs} />}
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-sm bg-slate-700 text-slate-200 rounded-md hover:bg-slate-600 transition-colors"
+        >
+          {t('common.abort')}
+        </button>
       </div>
     );
   }
+  if (imageUrl && isMasking) {
+    return (
+      <MaskEditor
+        imageUrl={imageUrl}
+        onApply={(mask, prompt, featherPx) => {
+          setIsMasking(false);
+          onInpaint(mask, prompt, featherPx);
+        }}
+        onClose={() => setIsMasking(false)}
+      />
+    );
+  }
+  if (imageUrl && isExporting) {
+    return <ExportDialog imageUrl={imageUrl} metadata={metadata} onClose={() => setIsExporting(false)} />;
+  }
   if (imageUrl) {
     return (
       <div className="w-full flex flex-col items-center gap-4">
         <div className="w-full aspect-video bg-black rounded-lg overflow-hidden shadow-2xl shadow-black/50 border border-slate-700">
-          <img src={imageUrl} alt="Сгенерированная панорама" className="w-full h-full object-contain" />
+          {isEquirectangular && showSphere
+            ? <PanoramaViewer imageUrl={imageUrl} />
+            : <ImageInspector imageUrl={imageUrl} templateUrl={templateUrl} placement={placement} overlayUrl={seamQuality && showHeatmap ? seamQuality.heatmapUrl : null} />}
         </div>
+        {seamQuality && (
+          <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-2 text-sm text-slate-300">
+            <span className={seamQuality.score >= seamThreshold ? 'text-emerald-400' : 'text-amber-400'}>
+              {t('seam.score', { score: seamQuality.score })}
+            </span>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={showHeatmap} onChange={(e) => setShowHeatmap(e.target.checked)} className="accent-cyan-500" />
+              {t('seam.showHeatmap')}
+            </label>
+            {isEquirectangular && showSphere && showHeatmap && <span className="text-xs text-slate-500">{t('seam.flatOnly')}</span>}
+          </div>
+        )}
+        {isEquirectangular && (
+          <div className="flex rounded-lg overflow-hidden border border-slate-600 text-sm">
+            <button onClick={() => setShowSphere(true)} className={`px-3 py-1 ${showSphere ? 'bg-cyan-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>{t('result.sphere')}</button>
+            <button onClick={() => setShowSphere(false)} className={`px-3 py-1 ${!showSphere ? 'bg-cyan-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>{t('result.flat')}</button>
+          </div>
+        )}
+        {canRecompose && (
+          <div className="w-full flex flex-wrap items-center justify-center gap-x-6 gap-y-2 text-sm text-slate-300">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={recomposition.enabled} onChange={(e) => onRecompositionChange({ ...recomposition, enabled: e.target.checked })} className="accent-cyan-500" />
+              {t('result.restoreSource')}
+            </label>
+            {recomposition.enabled && (
+              <label className="flex items-center gap-2">
+                {t('result.seamFeather')}
+                <input type="range" min={0} max={0.25} step={0.01} value={recomposition.feather} onChange={(e) => onRecompositionChange({ ...recomposition, feather: parseFloat(e.target.value) })} className="accent-cyan-500" />
+                <span className="w-10 text-right text-slate-400">{Math.round(recomposition.feather * 100)}%</span>
+              </label>
+            )}
+          </div>
+        )}
         {text && <p className="text-sm text-slate-400 italic mt-2 text-center max-w-lg">"{text}"</p>}
+        {variants.length > 1 && (
+          <VariantPicker variants={variants} selectedId={selectedVariantId} savedIds={savedVariantIds} onSelect={onSelectVariant} onSave={onSaveVariant} />
+        )}
         <div className="flex flex-wrap justify-center items-center gap-4 mt-4">
-            <button onClick={handleDownload} className="inline-flex items-center gap-2 px-5 py-2.5 text-sm font-medium text-center text-white bg-blue-600 rounded-lg hover:bg-blue-700 focus:ring-4 focus:outline-none focus:ring-blue-300/50 transition-colors">
+            <button onClick={() => setIsExporting(true)} className="inline-flex items-center gap-2 px-5 py-2.5 text-sm font-medium text-center text-white bg-blue-600 rounded-lg hover:bg-blue-700 focus:ring-4 focus:outline-none focus:ring-blue-300/50 transition-colors">
               <DownloadIcon />
-              Скачать
+              {t('result.download')}
             </button>
-            <button onClick={onEnhance} disabled={isEnhancing || isLoading} className={`inline-flex items-center gap-2 px-5 py-2.5 text-sm font-medium text-center text-white rounded-lg transition-colors ${(isEnhancing || isLoading) ? 'bg-slate-600 cursor-not-allowed' : 'bg-teal-600 hover:bg-teal-700 focus:ring-4 focus:outline-none focus:ring-teal-300/50'}`}>
+            <button onClick={() => onEnhance({ mode: 'ai', factor: 1, sharpen: 0 })} disabled={isEnhancing || isLoading} className={`inline-flex items-center gap-2 px-5 py-2.5 text-sm font-medium text-center text-white rounded-lg transition-colors ${(isEnhancing || isLoading) ? 'bg-slate-600 cursor-not-allowed' : 'bg-teal-600 hover:bg-teal-700 focus:ring-4 focus:outline-none focus:ring-teal-300/50'}`}>
               <EnhanceIcon />
-              Улучшить качество
+              {t('result.enhance')}
+            </button>
+            <button onClick={() => setIsMasking(true)} disabled={isEnhancing || isLoading} className="inline-flex items-center gap-2 px-5 py-2.5 text-sm font-medium text-center text-white bg-purple-600 rounded-lg hover:bg-purple-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors">
+              {t('result.fixArea')}
             </button>
         </div>
+        {!isEquirectangular && (
+        <div className="flex flex-wrap justify-center items-center gap-2">
+            <span className="text-sm text-slate-400">{t('result.extendMore')}</span>
+            {EXTEND_DIRECTIONS.map(({ direction, labelKey, symbol }) => (
+              <button key={direction} onClick={() => onExtend(direction)} disabled={isEnhancing || isLoading} title={t(labelKey)} aria-label={t(labelKey)} className="w-9 h-9 text-lg text-slate-200 bg-slate-700 rounded-lg hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+                {symbol}
+              </button>
+            ))}
+        </div>
+        )}
+        {!isEquirectangular && <TiledOutpaintControls onStart={onTiledOutpaint} disabled={isEnhancing || isLoading} />}
+        <EnhanceControls imageUrl={imageUrl} onStart={onEnhance} disabled={isEnhancing || isLoading} />
       </div>
     );
   }
   return (
     <div className="flex flex-col items-center justify-center text-center text-slate-500 h-full">
       <svg className="w-16 h-16 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"></path></svg>
-      <p className="text-lg">Ваша сгенерированная панорама появится здесь.</p>
-      <p className="text-sm">Настройте параметры слева и нажмите "Создать".</p>
+      <p className="text-lg">{t('result.placeholder')}</p>
+      <p className="text-sm">{t('result.placeholderHint')}</p>
+    </div>
+  );
+};
+
+const ERROR_GUIDANCE: Record<GenerationErrorCode, { title: MessageKey; action: MessageKey }> = {
+  invalid_api_key: { title: 'guidance.invalid_api_key.title', action: 'guidance.invalid_api_key.action' },
+  quota_exceeded: { title: 'guidance.quota_exceeded.title', action: 'guidance.quota_exceeded.action' },
+  safety_blocked: { title: 'guidance.safety_blocked.title', action: 'guidance.safety_blocked.action' },
+  no_image: { title: 'guidance.no_image.title', action: 'guidance.no_image.action' },
+  network: { title: 'guidance.network.title', action: 'guidance.network.action' },
+  timeout: { title: 'guidance.timeout.title', action: 'guidance.timeout.action' },
+  input_too_large: { title: 'guidance.input_too_large.title', action: 'guidance.input_too_large.action' },
+  server: { title: 'guidance.server.title', action: 'guidance.server.action' },
+  cancelled: { title: 'guidance.cancelled.title', action: 'guidance.cancelled.action' },
+  unknown: { title: 'guidance.unknown.title', action: 'guidance.unknown.action' },
+};
+
+interface ErrorMessageProps {
+  error: string | Error;
+}
+const ErrorMessage: React.FC<ErrorMessageProps> = ({ error }) => {
+  if (typeof error === 'string') {
+    return <p className="text-red-400 text-center bg-red-900/50 p-3 rounded-lg">{error}</p>;
+  }
+  const generationError = error instanceof TileGenerationError ? error.reason : error instanceof GenerationError ? error : null;
+  if (!generationError) {
+    return <p className="text-red-400 text-center bg-red-900/50 p-3 rounded-lg">{error.message}</p>;
+  }
+  const guidance = ERROR_GUIDANCE[generationError.code];
+  return (
+    <div className="text-red-400 bg-red-900/50 p-3 rounded-lg text-sm">
+      <p className="font-semibold text-center">{error instanceof TileGenerationError ? error.message : t(guidance.title)}</p>
+      <p className="text-red-300 text-center mt-1">{t(guidance.action)}</p>
+      <details className="mt-2 text-xs text-red-300/80">
+        <summary className="cursor-pointer">{t('error.details')}</summary>
+        <p className="mt-1">{t('error.code')} <code>{generationError.code}</code></p>
+        <p className="mt-1">{generationError.message}</p>
+        {generationError.detail && <pre className="mt-1 whitespace-pre-wrap break-all max-h-48 overflow-y-auto">{generationError.detail}</pre>}
+      </details>
     </div>
   );
 };
 
+const HistoryThumbnail: React.FC<{ image: Blob }> = ({ image }) => {
+    const [url, setUrl] = useState<string | null>(null);
+    useEffect(() => {
+        const objectUrl = URL.createObjectURL(image);
+        setUrl(objectUrl);
+        return () => URL.revokeObjectURL(objectUrl);
+    }, [image]);
+    return url
+        ? <img src={url} alt={t('history.thumbnailAlt')} loading="lazy" className="w-20 h-20 object-cover rounded-md flex-shrink-0" />
+        : <div className="w-20 h-20 bg-slate-700 rounded-md flex-shrink-0" />;
+};
+
+/** Parses a `<input type="date">` value as local midnight, or the last moment of that day. */
+const parseDateInput = (value: string, endOfDay: boolean): number | null => {
+    if (!value) return null;
+    const time = new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).getTime();
+    return Number.isNaN(time) ? null : time;
+};
+
+const HISTORY_OPERATION_LABELS: Record<HistoryOperation, MessageKey> = {
+    generate: 'history.operation.generate',
+    extend: 'history.operation.extend',
+    enhance: 'history.operation.enhance',
+    upscale: 'history.operation.upscale',
+    tiled: 'history.operation.tiled',
+    edit: 'history.operation.edit',
+};
+
 interface HistoryPanelProps {
-    history: HistoryItem[];
+    /** Bumped by the app whenever it writes to the store, to trigger a reload. */
+    revision: number;
+    /** Stored item currently shown in the workspace. */
+    activeId: number | null;
     onReuse: (item: HistoryItem) => void;
     onDelete: (id: number) => void;
     onClear: () => void;
+    /**
+     * Exports the given entries; when `ids` is null, everything matching `query`, or the
+     * whole history when `query` is null too.
+     */
+    onExport: (ids: number[] | null, query: HistoryQuery | null) => void;
+    onImport: (file: File) => void;
+    isTransferring: boolean;
+    importReport: BundleImportReport | null;
+    onDismissImportReport: () => void;
 }
-const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onReuse, onDelete, onClear }) => {
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ revision, activeId, onReuse, onDelete, onClear, onExport, onImport, isTransferring, importReport, onDismissImportReport }) => {
+    // Paged root items, plus everything derived from them.
+    const [items, setItems] = useState<HistoryItem[]>([]);
+    const [descendants, setDescendants] = useState<HistoryItem[]>([]);
+    const [matchedIds, setMatchedIds] = useState<number[]>([]);
+    const [selectedIds, setSelectedIds] = useState<number[]>([]);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const [hasMore, setHasMore] = useState(false);
+    const [isLoadingPage, setIsLoadingPage] = useState(false);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [searchText, setSearchText] = useState('');
+    const [dateFrom, setDateFrom] = useState('');
+    const [dateTo, setDateTo] = useState('');
+    const [query, setQuery] = useState<HistoryQuery>({ text: '', from: null, to: null });
+    const loadedCountRef = useRef(0);
+    const lastQueryRef = useRef(query);
+    // Only the latest request may update the list; earlier ones can resolve out of order.
+    const requestIdRef = useRef(0);
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const sentinelRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            const next: HistoryQuery = { text: searchText, from: parseDateInput(dateFrom, false), to: parseDateInput(dateTo, true) };
+            setQuery(current => current.text === next.text && current.from === next.from && current.to === next.to ? current : next);
+        }, 300);
+        return () => clearTimeout(timer);
+    }, [searchText, dateFrom, dateTo]);
+
+    const loadPage = useCallback(async (offset: number, limit: number, append: boolean) => {
+        const requestId = ++requestIdRef.current;
+        setIsLoadingPage(true);
+        try {
+            const page = await queryHistory(query, offset, limit);
+            const pageDescendants = await getHistoryDescendants(page.items.map(item => item.id));
+            if (requestId !== requestIdRef.current) return;
+            setDescendants(current => append ? [...current, ...pageDescendants] : pageDescendants);
+            setMatchedIds(current => append ? [...current, ...page.matchedIds] : page.matchedIds);
+            setItems(current => {
+                const next = append ? [...current, ...page.items] : page.items;
+                loadedCountRef.current = next.length;
+                return next;
+            });
+            setHasMore(page.hasMore);
+            setLoadError(null);
+        } catch (err) {
+            console.error("Failed to load history", err);
+            if (requestId === requestIdRef.current) setLoadError(t('history.loadFailed'));
+        } finally {
+            if (requestId === requestIdRef.current) setIsLoadingPage(false);
+        }
+    }, [query]);
+
+    // A new search starts from the first page; a reload after writes keeps as many entries as were shown.
+    useEffect(() => {
+        const isNewQuery = lastQueryRef.current !== query;
+        lastQueryRef.current = query;
+        if (isNewQuery) scrollRef.current?.scrollTo({ top: 0 });
+        loadPage(0, isNewQuery ? HISTORY_PAGE_SIZE : Math.max(HISTORY_PAGE_SIZE, loadedCountRef.current), false);
+    }, [loadPage, query, revision]);
+
+    const loadMore = useCallback(() => {
+        if (hasMore && !isLoadingPage) loadPage(items.length, HISTORY_PAGE_SIZE, true);
+    }, [hasMore, isLoadingPage, items.length, loadPage]);
+
+    useEffect(() => {
+        const sentinel = sentinelRef.current;
+        if (!sentinel || !hasMore) return;
+        const observer = new IntersectionObserver(entries => {
+            if (entries.some(entry => entry.isIntersecting)) loadMore();
+        }, { root: scrollRef.current, rootMargin: '200px' });
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [hasMore, loadMore]);
+
+    const isFiltered = !!(query.text.trim() || query.from !== null || query.to !== null);
+    const childrenByParent = new Map<number, HistoryItem[]>();
+    for (const item of [...descendants].sort((a, b) => a.createdAt - b.createdAt)) {
+        childrenByParent.set(item.parentId, [...(childrenByParent.get(item.parentId) ?? []), item]);
+    }
+    // Entries removed from the store can't stay selected.
+    const visibleSelectedIds = selectedIds.filter(id => items.some(item => item.id === id) || descendants.some(item => item.id === id));
+
+    // A derived entry found by the search is marked, since its root may not match at all.
+    const isMatchedChild = (item: HistoryItem) => item.parentId != null && matchedIds.includes(item.id);
+
+    const toggleSelected = (id: number) => {
+        setSelectedIds(ids => ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id]);
+    };
+
+    const renderNode = (item: HistoryItem): React.ReactNode => {
+        const children = childrenByParent.get(item.id);
+        return (
+            <li key={item.id}>
+                <div className={`bg-slate-700/50 p-3 rounded-lg flex gap-4 items-start group ${item.id === activeId ? 'ring-1 ring-cyan-400' : isMatchedChild(item) ? 'ring-1 ring-amber-400/60' : ''}`}>
+                    <input type="checkbox" checked={visibleSelectedIds.includes(item.id)} onChange={() => toggleSelected(item.id)} aria-label={t('history.selectForExport')} className="mt-1 accent-cyan-500" />
+                    <HistoryThumbnail image={item.thumbnail} />
+                    <div className="flex-grow overflow-hidden">
+                        <p className="text-sm text-slate-300 truncate" title={item.prompt}>{item.prompt}</p>
+                        <p className="text-xs text-slate-500 mt-1">
+                            {item.operation && item.operation !== 'generate' && <span className="text-purple-300">{t(HISTORY_OPERATION_LABELS[item.operation])} · </span>}
+                            {formatDateTime(item.createdAt)}
+                        </p>
+                        <div className="mt-2 flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                            <button onClick={() => onReuse(item)} className="px-2 py-1 text-xs bg-cyan-600 hover:bg-cyan-500 text-white rounded-md flex items-center gap-1"><ReuseIcon /> {t('history.reuse')}</button>
+                            <button onClick={() => onDelete(item.id)} className="px-2 py-1 text-xs bg-red-800 hover:bg-red-700 text-white rounded-md flex items-center gap-1"><TrashIcon /> {t('common.delete')}</button>
+                        </div>
+                    </div>
+                </div>
+                {children && (
+                    <ul className="mt-2 ml-3 pl-3 space-y-2 border-l border-slate-600">
+                        {children.map(child => renderNode(child))}
+                    </ul>
+                )}
+            </li>
+        );
+    };
+
+    const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) onImport(file);
+    };
+    const inputClassName = "block p-2 w-full text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 placeholder-slate-400 transition-colors";
+
     const handleClear = () => {
-        if (window.confirm('Вы уверены, что хотите очистить всю историю? Это действие необратимо.')) {
+        if (window.confirm(t('history.confirmClear'))) {
             onClear();
         }
     };
     return (
         <div className="bg-slate-800/50 p-6 rounded-2xl shadow-lg border border-slate-700 flex flex-col h-full max-h-[calc(100vh-4rem)]">
             <div className="flex justify-between items-center border-b border-slate-700 pb-3 mb-4">
-                <h2 className="text-2xl font-bold text-slate-100 flex items-center gap-2"><HistoryIcon/>История</h2>
-                {history.length > 0 && (
+                <h2 className="text-2xl font-bold text-slate-100 flex items-center gap-2"><HistoryIcon/>{t('history.title')}</h2>
+                {items.length > 0 && !isFiltered && (
                     <button onClick={handleClear} className="text-sm text-slate-400 hover:text-red-400 transition-colors flex items-center gap-1">
-                        <TrashIcon /> Очистить
+                        <TrashIcon /> {t('common.clear')}
+                    </button>
+                )}
+            </div>
+            <div className="flex flex-col gap-2 mb-4">
+                <input type="search" value={searchText} onChange={(e) => setSearchText(e.target.value)} placeholder={t('history.search')} className={inputClassName} />
+                <div className="grid grid-cols-2 gap-2">
+                    <label className="text-xs text-slate-400">{t('history.from')}
+                        <input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} className={`mt-1 ${inputClassName}`} />
+                    </label>
+                    <label className="text-xs text-slate-400">{t('history.to')}
+                        <input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} className={`mt-1 ${inputClassName}`} />
+                    </label>
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => onExport(visibleSelectedIds.length > 0 ? visibleSelectedIds : null, isFiltered ? query : null)}
+                        disabled={isTransferring || items.length === 0}
+                        className="flex-1 px-2 py-1.5 text-xs bg-slate-700 text-slate-200 rounded-md hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                        {visibleSelectedIds.length > 0
+                            ? t('history.exportSelected', { count: visibleSelectedIds.length })
+                            : t(isFiltered ? 'history.exportFiltered' : 'history.exportAll')}
                     </button>
+                    <button
+                        onClick={() => importInputRef.current?.click()}
+                        disabled={isTransferring}
+                        className="flex-1 px-2 py-1.5 text-xs bg-slate-700 text-slate-200 rounded-md hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                        {isTransferring ? t('common.wait') : t('history.importArchive')}
+                    </button>
+                    <input ref={importInputRef} type="file" accept=".zip,application/zip" onChange={handleImportChange} className="hidden" />
+                </div>
+                {importReport && (
+                    <div className="text-xs bg-slate-700/50 rounded-lg p-2 text-slate-300">
+                        <div className="flex justify-between gap-2">
+                            <p>{t(importReport.failures.length > 0 ? 'history.importReportFailures' : 'history.importReport', { imported: importReport.imported, duplicates: importReport.duplicates, failed: importReport.failures.length })}</p>
+                            <button onClick={onDismissImportReport} className="text-slate-400 hover:text-slate-200" aria-label={t('common.close')}>×</button>
+                        </div>
+                        {importReport.failures.length > 0 && (
+                            <ul className="mt-1 text-red-300 list-disc list-inside">
+                                {importReport.failures.map((failure, index) => <li key={index}>{failure.entry}: {failure.reason}</li>)}
+                            </ul>
+                        )}
+                    </div>
                 )}
             </div>
-            <div className="flex-grow overflow-y-auto pr-2 -mr-2">
-                {history.length === 0 ? (
+            <div ref={scrollRef} className="flex-grow overflow-y-auto pr-2 -mr-2">
+                {loadError && <p className="text-sm text-red-400 text-center mb-2">{loadError}</p>}
+                {items.length === 0 && !isLoadingPage ? (
                     <div className="flex flex-col items-center justify-center text-center text-slate-500 h-full">
-                        <p>Ваша история генераций пуста.</p>
+                        <p>{isFiltered ? t('history.noMatches') : t('history.empty')}</p>
                     </div>
                 ) : (
                     <ul className="space-y-4">
-                        {history.map((item) => (
-                            <li key={item.id} className="bg-slate-700/50 p-3 rounded-lg flex gap-4 items-start group">
-                                <img src={item.generatedImageUrl} alt="Generated thumbnail" className="w-20 h-20 object-cover rounded-md flex-shrink-0" />
-                                <div className="flex-grow overflow-hidden">
-                                    <p className="text-sm text-slate-300 truncate" title={item.prompt}>{item.prompt}</p>
-                                    <p className="text-xs text-slate-500 mt-1">{new Date(item.id).toLocaleString('ru-RU')}</p>
-                                    <div className="mt-2 flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                                        <button onClick={() => onReuse(item)} className="px-2 py-1 text-xs bg-cyan-600 hover:bg-cyan-500 text-white rounded-md flex items-center gap-1"><ReuseIcon /> Использовать</button>
-                                        <button onClick={() => onDelete(item.id)} className="px-2 py-1 text-xs bg-red-800 hover:bg-red-700 text-white rounded-md flex items-center gap-1"><TrashIcon /> Удалить</button>
-                                    </div>
-                                </div>
-                            </li>
-                        ))}
+                        {items.map(item => renderNode(item))}
                     </ul>
                 )}
+                {hasMore && (
+                    <div ref={sentinelRef} className="flex justify-center py-4">
+                        {isLoadingPage
+                            ? <Loader size="sm" />
+                            : <button onClick={loadMore} className="text-sm text-cyan-400 hover:underline">{t('history.loadMore')}</button>}
+                    </div>
+                )}
             </div>
         </div>
     );
@@ -444,7 +8068,7 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onReuse, onDelete,
 const TabButton: React.FC<{ active: boolean; onClick: () => void; children: React.ReactNode }> = ({ active, onClick, children }) => (
     <button
         onClick={onClick}
-        className={`px-4 py-2 text-sm w-1/2 font-medium transition-colors border-b-2 ${
+        className={`px-4 py-2 text-sm flex-1 font-medium transition-colors border-b-2 ${
             active
                 ? 'border-cyan-400 text-cyan-300'
                 : 'border-slate-700 text-slate-400 hover:border-slate-500 hover:text-slate-200'
@@ -455,76 +8079,457 @@ const TabButton: React.FC<{ active: boolean; onClick: () => void; children: Reac
 );
 
 
+const UNDO_LIMIT = 20;
+
 const App: React.FC = () => {
+  const [locale, setLocale] = useState<Locale>(activeLocale);
+  const [promptLocale, setPromptLocale] = useState<Locale>(() => loadLocale(PROMPT_LOCALE_KEY));
   const [apiKey, setApiKey] = useState<string>('');
+  const [providerId, setProviderId] = useState<ProviderId>('gemini');
+  const [serverUrl, setServerUrl] = useState<string>(DEFAULT_A1111_URL);
   const [base64Image, setBase64Image] = useState<string | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [mimeType, setMimeType] = useState<string | null>(null);
-  const [prompt, setPrompt] = useState<string>('красивый солнечный день с пушистыми облаками');
+  const [prompt, setPrompt] = useState<string>(() => t('app.defaultPrompt'));
+  const [promptVariables, setPromptVariables] = useState<Record<string, string>>({});
+  const [promptPresets, setPromptPresets] = useState<PromptPreset[]>(loadPromptPresets);
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplateLibrary>(loadPromptTemplateLibrary);
+  const [presetNotice, setPresetNotice] = useState<string | null>(null);
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+  const [resultMetadata, setResultMetadata] = useState<GenerationMetadata | null>(null);
   const [generatedText, setGeneratedText] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isEnhancing, setIsEnhancing] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | Error | null>(null);
   const [statusMessage, setStatusMessage] = useState<string>('');
-  const [history, setHistory] = useState<HistoryItem[]>([]);
+  // Bumped after every write to the history store so the panel reloads.
+  const [historyRevision, setHistoryRevision] = useState<number>(0);
+  // Stored item the current result belongs to, if it was reused from history or saved.
+  const [activeHistoryId, setActiveHistoryId] = useState<number | null>(null);
+  const [isTransferringHistory, setIsTransferringHistory] = useState<boolean>(false);
+  const [importReport, setImportReport] = useState<BundleImportReport | null>(null);
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  const [sourceSha256, setSourceSha256] = useState<string | null>(null);
+  // Settings found in an uploaded file that was exported by this app, until applied or dismissed.
+  const [restoreOffer, setRestoreOffer] = useState<GenerationMetadata | null>(null);
+  // Photos behind a stitched source, in strip order; empty for a single upload.
+  const [stitchFiles, setStitchFiles] = useState<File[]>([]);
+  const [stitchOptions, setStitchOptions] = useState<StitchOptions>(DEFAULT_STITCH_OPTIONS);
+  const [stitchAlignedPairs, setStitchAlignedPairs] = useState<number | null>(null);
+  const [isStitching, setIsStitching] = useState<boolean>(false);
+  const [templateOptions, setTemplateOptions] = useState<TemplateOptions>(DEFAULT_TEMPLATE_OPTIONS);
+  // Options the current template was actually built with; the prompt must describe these.
+  const [activeTemplate, setActiveTemplate] = useState<TemplateOptions>(DEFAULT_TEMPLATE_OPTIONS);
+  // Partially finished tiled job, kept so a failed tile can be retried without starting over.
+  const [tiledJob, setTiledJob] = useState<TiledOutpaintState | null>(null);
+  const [activePlacement, setActivePlacement] = useState<SourcePlacement | null>(null);
+  // Original pixels to paste back over the current result, if its layout is known.
+  const [resultSource, setResultSource] = useState<RecompositionSource | null>(null);
+  const [recomposition, setRecomposition] = useState<RecompositionSettings>({ enabled: true, feather: 0.08 });
+  const [recomposed, setRecomposed] = useState<{ sourceUrl: string; url: string } | null>(null);
   
-  const [sourceMode, setSourceMode] = useState<'upload' | 'generate'>('upload');
-  const [initialPrompt, setInitialPrompt] = useState<string>('Робот держит красный скейтборд');
+  const [sourceMode, setSourceMode] = useState<'upload' | 'generate' | 'batch'>('upload');
+  const [initialPrompt, setInitialPrompt] = useState<string>(() => t('app.defaultInitialPrompt'));
   const [isGeneratingInitial, setIsGeneratingInitial] = useState<boolean>(false);
+  const [variantOptions, setVariantOptions] = useState<VariantOptions>(DEFAULT_VARIANT_OPTIONS);
+  const [variants, setVariants] = useState<GenerationVariant[]>([]);
+  const [selectedVariantId, setSelectedVariantId] = useState<number | null>(null);
+  const [savedVariantIds, setSavedVariantIds] = useState<number[]>([]);
+  // Stored result the current template was extended from; new results become its children.
+  const [lineageParentId, setLineageParentId] = useState<number | null>(null);
+  const [tiledParentId, setTiledParentId] = useState<number | null>(null);
+  const [undoStack, setUndoStack] = useState<WorkspaceSnapshot[]>([]);
+  const [redoStack, setRedoStack] = useState<WorkspaceSnapshot[]>([]);
+  const [requestSettings, setRequestSettings] = useState<RequestSettings>(DEFAULT_REQUEST_SETTINGS);
+  const [seamCheckSettings, setSeamCheckSettings] = useState<SeamCheckSettings>(DEFAULT_SEAM_CHECK_SETTINGS);
+  const [inputSettings, setInputSettings] = useState<InputSettings>(DEFAULT_INPUT_SETTINGS);
+  // What the input pipeline changed about the current source, e.g. rotation or downscaling.
+  const [inputAdjustments, setInputAdjustments] = useState<string[]>([]);
+  const [requestStartedAt, setRequestStartedAt] = useState<number | null>(null);
+  const [attemptStartedAt, setAttemptStartedAt] = useState<number | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    migrateLegacyHistory()
+      .then(migrated => {
+        if (migrated > 0) setHistoryRevision(revision => revision + 1);
+      })
+      .catch(e => console.error("Failed to migrate history from localStorage", e));
+  }, []);
 
-  const HISTORY_KEY = 'panorama-history';
+  // Don't leave a request running against an unmounted app.
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
 
   useEffect(() => {
-    try {
-        const storedHistory = localStorage.getItem(HISTORY_KEY);
-        if (storedHistory) {
-            setHistory(JSON.parse(storedHistory));
-        }
-    } catch (e) {
-        console.error("Failed to load history from localStorage", e);
-        setHistory([]);
+    if (!recomposition.enabled || !generatedImage || !resultSource) return;
+    let cancelled = false;
+    // Debounced so dragging the feather slider doesn't queue a full-size render per step.
+    const timer = setTimeout(() => {
+      recomposeSource(generatedImage, resultSource, recomposition.feather)
+        .then(url => {
+          if (!cancelled) setRecomposed({ sourceUrl: generatedImage, url });
+        })
+        .catch(err => console.error('Failed to restore the original pixels:', err));
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [generatedImage, resultSource, recomposition]);
+
+  const displayedImage = recomposition.enabled && resultSource && recomposed && recomposed.sourceUrl === generatedImage
+    ? recomposed.url
+    : generatedImage;
+
+  // A variant only has a history entry once it was saved.
+  const currentHistoryId = selectedVariantId !== null && savedVariantIds.includes(selectedVariantId)
+    ? selectedVariantId
+    : activeHistoryId;
+  const isBusy = isLoading || isEnhancing || isGeneratingInitial || isStitching;
+
+  useEffect(() => {
+    setSourceSha256(null);
+    if (!sourceFile) return;
+    let cancelled = false;
+    sourceFile.arrayBuffer()
+      .then(sha256Hex)
+      .then(hash => {
+        if (!cancelled) setSourceSha256(hash);
+      })
+      .catch(err => console.error('Failed to hash the source image:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceFile]);
+
+  useEffect(() => writeStoredJson(PROMPT_PRESETS_KEY, promptPresets), [promptPresets]);
+  useEffect(() => writeStoredJson(PROMPT_TEMPLATES_KEY, promptTemplates), [promptTemplates]);
+  useEffect(() => storeLocale(PROMPT_LOCALE_KEY, promptLocale), [promptLocale]);
+
+  useEffect(() => {
+    storeLocale(LOCALE_KEY, locale);
+    document.documentElement.lang = locale;
+    document.title = t('app.title');
+  }, [locale]);
+
+  const handleLocaleChange = (next: Locale) => {
+    // t() reads the module-level locale, so it has to change before the re-render.
+    setActiveLocale(next);
+    setLocale(next);
+  };
+
+  // `{variables}` may come from the prompt or the matrix lines; empty ones stay unfilled.
+  const promptVariableNames = getPromptVariables(variantOptions.matrixEnabled ? `${prompt}\n${variantOptions.matrixPrompts}` : prompt);
+  const filledVariables: Record<string, string> = {};
+  for (const name of promptVariableNames) {
+    const value = promptVariables[name]?.trim();
+    if (value) filledVariables[name] = value;
+  }
+  const hasMissingVariables = promptVariableNames.some(name => !(name in filledVariables));
+  const resolvedPrompt = fillPromptTemplate(prompt, filledVariables);
+
+  const providerSettings: ProviderSettings = {
+    id: providerId,
+    // The .env key only stands in while nothing was entered.
+    apiKey: apiKey || ENV_API_KEY?.key || '',
+    serverUrl,
+    promptLocale,
+    prompts: resolvePromptTemplates(promptTemplates[promptLocale], promptLocale),
+  };
+  const isProviderReady = isProviderConfigured(providerSettings);
+
+  const selectedVariant = variants.find(variant => variant.id === selectedVariantId);
+
+  const handlePhase = (phase: RequestPhase) => {
+    if (phase.kind === 'sending') {
+      setAttemptStartedAt(Date.now());
+      if (phase.attempt > 1) setStatusMessage(t('status.retryAttempt', { attempt: phase.attempt, max: phase.maxAttempts }));
+    } else {
+      setAttemptStartedAt(null);
+      setStatusMessage(t('status.retryIn', { reason: t(ERROR_GUIDANCE[phase.error.code].title), seconds: Math.ceil(phase.delayMs / 1000) }));
     }
-  }, []);
+  };
+
+  /** Cancels whatever is still running and returns options for a fresh request. */
+  const startRequest = (): RequestOptions => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setRequestStartedAt(Date.now());
+    setAttemptStartedAt(null);
+    return { signal: controller.signal, settings: requestSettings, onPhase: handlePhase };
+  };
+
+  const finishRequest = (request: RequestOptions) => {
+    // A newer request may already own the ref.
+    if (abortControllerRef.current?.signal !== request.signal) return;
+    abortControllerRef.current = null;
+    setRequestStartedAt(null);
+    setAttemptStartedAt(null);
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    setStatusMessage(t('status.cancelling'));
+  };
+
+  const captureWorkspace = (): WorkspaceSnapshot => ({
+    generatedImage,
+    generatedText,
+    resultMetadata,
+    activeHistoryId,
+    variants,
+    selectedVariantId,
+    resultSource,
+    base64Image,
+    mimeType,
+    imagePreview,
+    sourceFile,
+    stitchFiles,
+    templateOptions,
+    activeTemplate,
+    activePlacement,
+    lineageParentId,
+  });
+
+  const restoreWorkspace = (snapshot: WorkspaceSnapshot) => {
+    setGeneratedImage(snapshot.generatedImage);
+    setGeneratedText(snapshot.generatedText);
+    setResultMetadata(snapshot.resultMetadata);
+    setActiveHistoryId(snapshot.activeHistoryId);
+    setVariants(snapshot.variants);
+    setSelectedVariantId(snapshot.selectedVariantId);
+    setResultSource(snapshot.resultSource);
+    setBase64Image(snapshot.base64Image);
+    setMimeType(snapshot.mimeType);
+    setImagePreview(snapshot.imagePreview);
+    setSourceFile(snapshot.sourceFile);
+    setStitchFiles(snapshot.stitchFiles);
+    setStitchAlignedPairs(null);
+    setTemplateOptions(snapshot.templateOptions);
+    setActiveTemplate(snapshot.activeTemplate);
+    setActivePlacement(snapshot.activePlacement);
+    setLineageParentId(snapshot.lineageParentId);
+    setTiledJob(null);
+    setError(null);
+    setStatusMessage('');
+  };
+
+  /** Records the state before a change; any redo branch is dropped. */
+  const pushUndo = (snapshot: WorkspaceSnapshot) => {
+    setUndoStack(stack => [...stack, snapshot].slice(-UNDO_LIMIT));
+    setRedoStack([]);
+  };
+
+  const handleUndo = () => {
+    if (isBusy || undoStack.length === 0) return;
+    setRedoStack(stack => [...stack, captureWorkspace()]);
+    setUndoStack(stack => stack.slice(0, -1));
+    restoreWorkspace(undoStack[undoStack.length - 1]);
+  };
+
+  const handleRedo = () => {
+    if (isBusy || redoStack.length === 0) return;
+    setUndoStack(stack => [...stack, captureWorkspace()]);
+    setRedoStack(stack => stack.slice(0, -1));
+    restoreWorkspace(redoStack[redoStack.length - 1]);
+  };
+
+  // Re-subscribed on every render so the handlers see current state.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      // Text fields keep their own undo.
+      if ((e.target as HTMLElement).closest?.('input, textarea, select')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
 
-  const updateHistory = (newHistory: HistoryItem[]) => {
-      setHistory(newHistory);
-      localStorage.setItem(HISTORY_KEY, JSON.stringify(newHistory));
+  /** Stores a result; failures are reported but never break the generation flow. */
+  const addToHistory = async (input: HistoryItemInput): Promise<boolean> => {
+    try {
+      // The parent may have been deleted since; keep the tree consistent.
+      if (input.parentId !== undefined && !(await getHistoryItem(input.parentId))) {
+        input = { ...input, parentId: undefined };
+      }
+      await putHistoryItem(await createHistoryItem(input));
+      setHistoryRevision(revision => revision + 1);
+      return true;
+    } catch (err) {
+      console.error("Failed to save history item", err);
+      setError(t('history.saveFailed'));
+      return false;
+    }
   };
   
+  const applyTemplate = useCallback(async (file: File, options: TemplateOptions) => {
+    const { base64, mimeType, placement } = await createImageTemplate(file, options);
+    setBase64Image(base64);
+    setMimeType(mimeType);
+    setActiveTemplate(options);
+    setActivePlacement(placement);
+    // Variants were rendered from the old template and can't be saved against the new one.
+    setVariants([]);
+    setSelectedVariantId(null);
+  }, []);
+
   const handleImageUpload = useCallback(async (file: File) => {
     try {
       setError(null);
+      // Validated first, so a rejected file leaves the current source in place.
+      const { file: source, adjustments } = await prepareSourceImage(file, inputSettings);
       setGeneratedImage(null);
       setGeneratedText(null);
+      setResultMetadata(null);
+      setImagePreview(URL.createObjectURL(source));
+      setSourceFile(source);
+      setInputAdjustments(adjustments);
+      setRestoreOffer(null);
+      setStitchFiles([]);
+      setStitchAlignedPairs(null);
+      setActiveHistoryId(null);
+      setLineageParentId(null);
+      // A hand-made layout belongs to the previous image.
+      const options = { ...templateOptions, layout: undefined, sourceCount: undefined };
+      setTemplateOptions(options);
+      await applyTemplate(source, options);
+      // Read from the upload itself; a normalised copy no longer carries the metadata.
+      setRestoreOffer(await readImageMetadata(file));
+    } catch (err) {
+      setError(err instanceof Error ? err : t('error.processImage'));
+      console.error(err);
+    }
+  }, [applyTemplate, templateOptions, inputSettings]);
+
+  /** Rebuilds the stitched strip and uses it as the source, keeping the canvas settings. */
+  const applyStitch = async (files: File[], options: StitchOptions) => {
+    setIsStitching(true);
+    try {
+      setError(null);
+      const { file, alignedPairs } = await createStitchedStrip(files, options);
+      const template = { ...templateOptions, layout: undefined, sourceCount: files.length };
+      await applyTemplate(file, template);
+      setStitchFiles(files);
+      setStitchOptions(options);
+      setStitchAlignedPairs(alignedPairs);
+      setSourceFile(file);
       setImagePreview(URL.createObjectURL(file));
-      const { base64, mimeType } = await createImageTemplate(file);
-      setBase64Image(base64);
-      setMimeType(mimeType);
+      setTemplateOptions(template);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Не удалось обработать изображение.';
-      setError(errorMessage);
+      setError(err instanceof Error ? err : t('error.stitch'));
       console.error(err);
+    } finally {
+      setIsStitching(false);
     }
-  }, []);
+  };
+
+  const handleImagesUpload = async (files: File[]) => {
+    setError(null);
+    const prepared: PreparedSource[] = [];
+    try {
+      for (const file of files) prepared.push(await prepareSourceImage(file, inputSettings));
+    } catch (err) {
+      setError(err instanceof Error ? err : t('error.processImage'));
+      return;
+    }
+    setGeneratedImage(null);
+    setGeneratedText(null);
+    setResultMetadata(null);
+    setActiveHistoryId(null);
+    setLineageParentId(null);
+    setInputAdjustments([...new Set(prepared.flatMap(source => source.adjustments))]);
+    await applyStitch(prepared.map(source => source.file), stitchOptions);
+  };
+
+  const handleStitchFilesChange = (files: File[]) => {
+    if (files.length === 1) {
+      handleImageUpload(files[0]);
+      return;
+    }
+    applyStitch(files, stitchOptions);
+  };
+
+  const handleTemplateOptionsChange = async (options: TemplateOptions) => {
+    setTemplateOptions(options);
+    if (!sourceFile) return;
+    try {
+      setError(null);
+      await applyTemplate(sourceFile, options);
+    } catch (err) {
+      setError(err instanceof Error ? err : t('error.processImage'));
+      console.error(err);
+    }
+  };
+
+  const handleRestoreMetadata = async () => {
+    if (!restoreOffer) return;
+    setRestoreOffer(null);
+    setPrompt(restoreOffer.prompt);
+    if (restoreOffer.provider) setProviderId(restoreOffer.provider);
+    await handleTemplateOptionsChange(restoreOffer.templateOptions);
+  };
+
+  const handleLayoutChange = (layout: SourceLayout | undefined) =>
+    handleTemplateOptionsChange({ ...templateOptions, layout });
+
+  const handleExtend = async (direction: ExtendDirection) => {
+    if (!displayedImage) return;
+    const before = captureWorkspace();
+    const parentId = currentHistoryId;
+    try {
+      setError(null);
+      const img = await loadImage(displayedImage);
+      const options = getExtendTemplateOptions(img.naturalWidth, img.naturalHeight, direction);
+      const file = await dataUrlToFile(displayedImage, 'panorama.png');
+      await applyTemplate(file, options);
+      setSourceFile(file);
+      setStitchFiles([]);
+      setTemplateOptions(options);
+      setImagePreview(displayedImage);
+      setGeneratedImage(null);
+      setGeneratedText(null);
+      setResultMetadata(null);
+      setResultSource(null);
+      setActiveHistoryId(null);
+      setLineageParentId(parentId);
+      setSourceMode('upload');
+      pushUndo(before);
+    } catch (err) {
+      setError(err instanceof Error ? err : t('error.prepareExtend'));
+      console.error(err);
+    }
+  };
 
   const handleGenerateInitial = async () => {
     if (!initialPrompt) {
-      setError('Пожалуйста, введите описание для генерации изображения.');
+      setError(t('error.initialPromptMissing'));
       return;
     }
-    if (!apiKey) {
-      setError('Пожалуйста, введите ваш API ключ.');
+    if (!isProviderReady) {
+      setError(t('error.providerMissing'));
       return;
     }
     setIsGeneratingInitial(true);
     setError(null);
     setGeneratedImage(null);
     setGeneratedText(null);
+    setResultMetadata(null);
     setImagePreview(null);
     setBase64Image(null);
+    setStatusMessage('');
+    const request = startRequest();
     try {
-      const generatedBase64 = await generateSourceImage(initialPrompt, apiKey);
+      const provider = createImageProvider(providerSettings);
+      const generatedBase64 = await runWithRetry(signal => provider.textToImage(initialPrompt, signal), request);
       const dataUrl = `data:image/png;base64,${generatedBase64}`;
       const res = await fetch(dataUrl);
       const blob = await res.blob();
@@ -532,131 +8537,561 @@ const App: React.FC = () => {
       await handleImageUpload(file);
       setSourceMode('upload');
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Не удалось сгенерировать исходное изображение.';
-      setError(errorMessage);
+      if (!(err instanceof GenerationCancelledError)) {
+        setError(err instanceof Error ? err : t('error.initialFailed'));
+      }
     } finally {
+      finishRequest(request);
+      setStatusMessage('');
       setIsGeneratingInitial(false);
     }
   };
 
   
+  const saveVariantToHistory = async (variant: GenerationVariant) => {
+    if (!variant.imageUrl || !base64Image || !mimeType) return;
+    const saved = await addToHistory({
+      id: variant.id,
+      prompt: variant.prompt,
+      templateImageBase64: base64Image,
+      templateImageMimeType: mimeType,
+      generatedImageUrl: variant.imageUrl,
+      templateOptions: activeTemplate,
+      sourcePlacement: activePlacement ?? undefined,
+      provider: variant.provider,
+      model: getProviderModel(variant.provider),
+      sourceSha256: variant.metadata.sourceSha256 ?? undefined,
+      parentId: variant.parentId ?? undefined,
+      operation: variant.parentId !== null ? 'extend' : 'generate',
+    });
+    if (saved) setSavedVariantIds(ids => [...ids, variant.id]);
+  };
+
+  const showVariant = (variant: GenerationVariant) => {
+    setSelectedVariantId(variant.id);
+    setGeneratedImage(variant.imageUrl);
+    setGeneratedText(variant.text);
+    setResultMetadata(variant.metadata);
+  };
+
+  const handleSelectVariant = (variant: GenerationVariant) => {
+    if (variant.id === selectedVariantId) return;
+    pushUndo(captureWorkspace());
+    showVariant(variant);
+  };
+
   const handleGenerate = async () => {
-    if (!base64Image || !mimeType || !prompt || !apiKey) {
-      setError('Пожалуйста, загрузите изображение, введите описание и укажите ваш API-ключ.');
+    if (!base64Image || !mimeType || !prompt || !isProviderReady) {
+      setError(t('error.generateMissing'));
+      return;
+    }
+    if (hasMissingVariables) {
+      setError(t('error.variablesMissing'));
       return;
     }
+    const before = captureWorkspace();
     setIsLoading(true);
     setError(null);
+    setTiledJob(null);
     setGeneratedImage(null);
     setGeneratedText(null);
-    setStatusMessage('Инициализация модели...');
+    setResultMetadata(null);
+    setResultSource(null);
+    setVariants([]);
+    setSelectedVariantId(null);
+    setSavedVariantIds([]);
+    setActiveHistoryId(null);
+    const variantPrompts = getVariantPrompts(prompt, variantOptions).map(variantPrompt => fillPromptTemplate(variantPrompt, filledVariables));
+    const isMultiple = variantPrompts.length > 1;
+    setStatusMessage(isMultiple
+      ? t('status.variants', { done: 0, total: variantPrompts.length })
+      : t('status.extending', { ratio: formatAspectRatio(activeTemplate.width, activeTemplate.height) }));
+    const request = startRequest();
+    // Parallel runs would overwrite each other's retry status, so only a single run reports phases.
+    const variantRequest: RequestOptions = isMultiple ? { ...request, onPhase: undefined } : request;
+    // A seam retry only tries to improve on a result already in hand, so it gets one attempt.
+    const seamRetryRequest: RequestOptions = { ...variantRequest, settings: { ...(variantRequest.settings ?? DEFAULT_REQUEST_SETTINGS), maxRetries: 0 } };
+    const seamRetryBudget: SeamRetryBudget = { remaining: MAX_SEAM_RETRY_BUDGET };
+    try {
+      const provider = createImageProvider(providerSettings);
+      let finished = 0;
+      const outcomes = await runWithConcurrency(variantPrompts.map(variantPrompt => async () => {
+        const checked = await runWithSeamCheck(async attempt => {
+          const attemptRequest = attempt === 0 ? variantRequest : seamRetryRequest;
+          const result = await runWithRetry(
+            signal => provider.outpaint(base64Image, mimeType, variantPrompt, activeTemplate, signal),
+            attemptRequest
+          );
+          if (result.imageUrl && activeTemplate.projection === 'equirectangular') {
+            result.imageUrl = await closeEquirectangularSeam(result.imageUrl, variantPrompt, provider, attemptRequest);
+          }
+          return result;
+        }, activePlacement, seamCheckSettings, seamRetryBudget, (attempt, score) => {
+          if (!isMultiple) setStatusMessage(t('status.seamRetry', { score, attempt, max: seamCheckSettings.maxRetries }));
+        });
+        finished++;
+        if (isMultiple) setStatusMessage(t('status.variants', { done: finished, total: variantPrompts.length }));
+        return checked;
+      }), VARIANT_CONCURRENCY);
+      if (request.signal?.aborted) throw new GenerationCancelledError();
+
+      const baseId = Date.now();
+      const newVariants: GenerationVariant[] = outcomes.map((outcome, index) => ({
+        id: baseId + index,
+        prompt: variantPrompts[index],
+        imageUrl: outcome.status === 'fulfilled' ? outcome.value.result.imageUrl : null,
+        text: outcome.status === 'fulfilled' ? outcome.value.result.text : null,
+        error: outcome.status === 'rejected' ? toGenerationError(outcome.reason) : null,
+        provider: provider.id,
+        parentId: lineageParentId,
+        quality: outcome.status === 'fulfilled' ? outcome.value.quality : null,
+        metadata: getResultMetadata({
+          prompt: variantPrompts[index],
+          provider: provider.id,
+          model: getProviderModel(provider.id),
+          templateOptions: activeTemplate,
+          sourceSha256: sourceSha256 ?? undefined,
+        }, baseId),
+      }));
+      const first = newVariants.find(variant => variant.imageUrl);
+      if (!first) throw newVariants[0].error ?? new NoImageError();
+
+      if (activePlacement) {
+        // A hand-placed layer may be cropped or rotated, so only the template holds it as drawn.
+        const image = sourceFile && !activeTemplate.layout
+          ? sourceFile
+          : await cropTemplateSource(`data:${mimeType};base64,${base64Image}`, activePlacement);
+        setResultSource({ image, placement: activePlacement });
+      }
+      pushUndo(before);
+      setVariants(newVariants);
+      showVariant(first);
+      const failedCount = newVariants.filter(variant => !variant.imageUrl).length;
+      setStatusMessage(failedCount > 0
+        ? t('status.variantsDone', { done: newVariants.length - failedCount, total: newVariants.length })
+        : t('status.success'));
+      // A single result is saved right away; from a batch the user keeps the ones they like.
+      if (!isMultiple) saveVariantToHistory(first);
+    } catch (err) {
+      if (!(err instanceof GenerationCancelledError)) {
+        setError(err instanceof Error ? err : t('error.unknown'));
+      }
+      setStatusMessage('');
+    } finally {
+      finishRequest(request);
+      setIsLoading(false);
+    }
+  };
+
+  const runTiledJob = async (state: TiledOutpaintState, parentId: number | null) => {
+    const before = captureWorkspace();
+    const details = {
+      prompt: resolvedPrompt,
+      provider: providerId,
+      model: getProviderModel(providerId),
+      templateOptions: activeTemplate,
+      sourceSha256: resultMetadata?.sourceSha256 ?? undefined,
+    };
+    setIsLoading(true);
+    setError(null);
+    setTiledJob(null);
+    setVariants([]);
+    setSelectedVariantId(null);
+    setActiveHistoryId(null);
+    const request = startRequest();
     try {
-      setTimeout(() => setStatusMessage('Анализ изображения и подсказки...'), 1500);
-      setTimeout(() => setStatusMessage('Расширение сцены до 16:9...'), 4000);
-      const result = await generatePanorama(base64Image, mimeType, prompt, apiKey);
-      setGeneratedImage(result.imageUrl);
-      setGeneratedText(result.text);
-      setStatusMessage('Панорама успешно создана!');
-
-      if (result.imageUrl) {
-        const newItem: HistoryItem = {
-          id: Date.now(),
-          prompt,
+      const imageUrl = await generateTiledPanorama(state, resolvedPrompt, createImageProvider(providerSettings), request, (tile, totalTiles) => {
+        setStatusMessage(t('status.tile', { tile, total: totalTiles }));
+      });
+      pushUndo(before);
+      // The source no longer sits where the template put it.
+      setResultSource(null);
+      const id = Date.now();
+      setGeneratedImage(imageUrl);
+      setGeneratedText(null);
+      setResultMetadata(getResultMetadata(details, id));
+      setStatusMessage(t('status.success'));
+      if (base64Image && mimeType) {
+        const saved = await addToHistory({
+          ...details,
+          id,
           templateImageBase64: base64Image,
           templateImageMimeType: mimeType,
-          generatedImageUrl: result.imageUrl,
-        };
-        updateHistory([newItem, ...history]);
+          generatedImageUrl: imageUrl,
+          parentId: parentId ?? undefined,
+          operation: 'tiled',
+        });
+        if (saved) setActiveHistoryId(id);
       }
     } catch (err) {
-      let errorMessage = 'Произошла неизвестная ошибка.';
-      if (err instanceof Error) {
-        errorMessage = err.message;
+      if (err instanceof TileGenerationError) {
+        pushUndo(before);
+        setTiledJob(err.state);
+        setTiledParentId(parentId);
+        setResultSource(null);
+        setGeneratedImage(err.state.imageUrl);
+        setResultMetadata(getResultMetadata(details, Date.now()));
+      }
+      if (!(err instanceof GenerationCancelledError)) {
+        setError(err instanceof Error ? err : t('error.unknown'));
       }
-      setError(errorMessage);
       setStatusMessage('');
     } finally {
+      finishRequest(request);
       setIsLoading(false);
     }
   };
 
-  const handleEnhance = async () => {
-    if (!generatedImage) {
-        setError('Нет изображения для улучшения.');
+  const handleTiledOutpaint = async (options: TiledOutpaintOptions) => {
+    if (!displayedImage || !prompt || !isProviderReady) {
+      setError(t('error.tiledMissing'));
+      return;
+    }
+    if (hasMissingVariables) {
+      setError(t('error.variablesMissing'));
+      return;
+    }
+    try {
+      const state = await planTiledOutpaint(displayedImage, options);
+      await runTiledJob(state, currentHistoryId);
+    } catch (err) {
+      setError(err instanceof Error ? err : t('error.prepareImage'));
+    }
+  };
+
+  const handleResumeTiled = () => {
+    if (tiledJob) runTiledJob(tiledJob, tiledParentId);
+  };
+
+  const handleEnhance = async (options: EnhanceOptions) => {
+    if (!displayedImage) {
+        setError(t('error.enhanceNoImage'));
         return;
     }
-     if (!apiKey) {
-      setError('Пожалуйста, введите ваш API ключ.');
+    // The local upscaler needs no provider at all.
+    if (options.mode !== 'local' && !isProviderReady) {
+      setError(t('error.providerMissing'));
       return;
     }
+    const before = captureWorkspace();
+    const parentId = currentHistoryId;
+    // The enhanced image keeps the prompt and source of the one it was made from.
+    const parentPrompt = resultMetadata?.prompt ?? resolvedPrompt;
+    const parentSourceSha256 = resultMetadata?.sourceSha256 ?? undefined;
     setIsEnhancing(true);
     setError(null);
     setGeneratedText(null); // Clear previous model text
+    setStatusMessage(options.mode === 'local' ? t('status.upscaling', { factor: options.factor }) : t('status.enhancing'));
+    const request = startRequest();
     try {
-        const parts = generatedImage.split(',');
-        if (parts.length !== 2) throw new Error('Неверный формат Data URL изображения');
-        const mimeType = parts[0].match(/:(.*?);/)?.[1] || 'image/png';
-        const base64Data = parts[1];
-        const result = await enhanceImage(base64Data, mimeType, apiKey);
+        let result: PanoramaResult;
+        if (options.mode === 'local') {
+            result = { imageUrl: await upscaleImage(displayedImage, options.factor, options.sharpen), text: null };
+            // Resampling cannot be interrupted midway, so a cancel discards its result instead.
+            if (request.signal?.aborted) throw new GenerationCancelledError();
+        } else if (options.mode === 'tiled') {
+            const provider = createImageProvider(providerSettings);
+            const imageUrl = await enhanceImageTiled(displayedImage, options.factor, provider, request, (tile, totalTiles) => {
+                setStatusMessage(t('status.enhanceTile', { tile, total: totalTiles }));
+            });
+            result = { imageUrl, text: null };
+        } else {
+            const parts = displayedImage.split(',');
+            if (parts.length !== 2) throw new Error(t('error.imageDataUrl'));
+            const mimeType = parts[0].match(/:(.*?);/)?.[1] || 'image/png';
+            const base64Data = parts[1];
+            const provider = createImageProvider(providerSettings);
+            result = await runWithRetry(signal => provider.enhance(base64Data, mimeType, signal), request);
+        }
+        // Resampling keeps a closed seam closed; only the model may redraw the edges apart.
+        if (options.mode !== 'local' && result.imageUrl && activeTemplate.projection === 'equirectangular') {
+            result.imageUrl = await closeEquirectangularSeam(result.imageUrl, parentPrompt, createImageProvider(providerSettings), request);
+        }
+        const id = Date.now();
+        const isLocal = options.mode === 'local';
+        const details = {
+          prompt: parentPrompt,
+          provider: isLocal ? undefined : providerId,
+          model: isLocal ? undefined : getProviderModel(providerId),
+          templateOptions: activeTemplate,
+          sourceSha256: parentSourceSha256,
+        };
+        pushUndo(before);
+        // The original pixels are already part of the enhanced image.
+        setResultSource(null);
         setGeneratedImage(result.imageUrl);
         setGeneratedText(result.text);
-        if (result.imageUrl && history.length > 0) {
-            const latestHistoryItem = history[0];
-            const updatedItem = { ...latestHistoryItem, generatedImageUrl: result.imageUrl };
-            const newHistory = [updatedItem, ...history.slice(1)];
-            updateHistory(newHistory);
+        setResultMetadata(result.imageUrl ? getResultMetadata(details, id) : null);
+        setSelectedVariantId(null);
+        setActiveHistoryId(null);
+        // Stored as a child of the enhanced image; the original entry is left untouched.
+        if (result.imageUrl && base64Image && mimeType) {
+            const saved = await addToHistory({
+              ...details,
+              id,
+              templateImageBase64: base64Image,
+              templateImageMimeType: mimeType,
+              generatedImageUrl: result.imageUrl,
+              parentId: parentId ?? undefined,
+              operation: isLocal ? 'upscale' : 'enhance',
+            });
+            if (saved) setActiveHistoryId(id);
         }
     } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Произошла неизвестная ошибка при улучшении.';
-        setError(errorMessage);
+        if (!(err instanceof GenerationCancelledError)) {
+            setError(err instanceof Error ? err : t('error.enhanceUnknown'));
+        }
     } finally {
+        finishRequest(request);
+        setStatusMessage('');
         setIsEnhancing(false);
     }
   };
 
-  const handleReuseItem = (item: HistoryItem) => {
+  const handleInpaint = async (mask: HTMLCanvasElement, regionPrompt: string, featherPx: number) => {
+    if (!displayedImage || !isProviderReady) {
+      setError(t('error.providerMissing'));
+      return;
+    }
+    const before = captureWorkspace();
+    const parentId = currentHistoryId;
+    setIsLoading(true);
+    setError(null);
+    setTiledJob(null);
+    setStatusMessage(t('status.inpainting'));
+    const request = startRequest();
+    try {
+      const imageUrl = await inpaintRegion(displayedImage, mask, regionPrompt, featherPx, createImageProvider(providerSettings), request);
+      const id = Date.now();
+      const details = {
+        prompt: regionPrompt,
+        provider: providerId,
+        model: getProviderModel(providerId),
+        templateOptions: activeTemplate,
+        sourceSha256: resultMetadata?.sourceSha256 ?? undefined,
+      };
+      pushUndo(before);
+      // The original pixels are already part of the edited image.
+      setResultSource(null);
+      setGeneratedImage(imageUrl);
+      setGeneratedText(null);
+      setResultMetadata(getResultMetadata(details, id));
+      setSelectedVariantId(null);
+      setActiveHistoryId(null);
+      setStatusMessage(t('status.inpainted'));
+      if (base64Image && mimeType) {
+        const saved = await addToHistory({
+          ...details,
+          id,
+          templateImageBase64: base64Image,
+          templateImageMimeType: mimeType,
+          generatedImageUrl: imageUrl,
+          parentId: parentId ?? undefined,
+          operation: 'edit',
+        });
+        if (saved) setActiveHistoryId(id);
+      }
+    } catch (err) {
+      if (!(err instanceof GenerationCancelledError)) {
+        setError(err instanceof Error ? err : t('error.inpaint'));
+      }
+      setStatusMessage('');
+    } finally {
+      finishRequest(request);
+      setIsLoading(false);
+    }
+  };
+
+  const handleReuseItem = async (item: HistoryItem) => {
+      let templateUrl: string;
+      let generatedUrl: string;
+      try {
+        templateUrl = await blobToDataUrl(item.templateImage);
+        generatedUrl = await blobToDataUrl(item.generatedImage);
+      } catch (err) {
+        setError(t('history.openFailed'));
+        console.error(err);
+        return;
+      }
+      const [header, templateBase64] = templateUrl.split(',');
+      pushUndo(captureWorkspace());
       setPrompt(item.prompt);
-      setBase64Image(item.templateImageBase64);
-      setMimeType(item.templateImageMimeType);
-      setImagePreview(`data:${item.templateImageMimeType};base64,${item.templateImageBase64}`);
-      setGeneratedImage(item.generatedImageUrl);
+      setBase64Image(templateBase64);
+      setMimeType(header.match(/:(.*?);/)?.[1] || 'image/png');
+      setImagePreview(templateUrl);
+      setSourceFile(null);
+      setStitchFiles([]);
+      setActiveTemplate(item.templateOptions ?? DEFAULT_TEMPLATE_OPTIONS);
+      setActivePlacement(item.sourcePlacement ?? null);
+      setResultSource(null);
+      setVariants([]);
+      setSelectedVariantId(null);
+      setActiveHistoryId(item.id);
+      // Regenerating from an extended template yields siblings under the same parent.
+      setLineageParentId(item.operation === 'extend' ? item.parentId ?? null : null);
+      setGeneratedImage(generatedUrl);
       setGeneratedText(null);
+      setResultMetadata(getResultMetadata(item, item.createdAt));
       setError(null);
       setSourceMode('upload');
+      if (item.sourcePlacement) {
+        try {
+          const image = await cropTemplateSource(templateUrl, item.sourcePlacement);
+          setResultSource({ image, placement: item.sourcePlacement });
+        } catch (err) {
+          console.error(err);
+        }
+      }
+  };
+
+  const handleDeleteItem = async (id: number) => {
+      try {
+        await deleteHistoryItem(id);
+        if (activeHistoryId === id) setActiveHistoryId(null);
+        setSavedVariantIds(ids => ids.filter(savedId => savedId !== id));
+        setHistoryRevision(revision => revision + 1);
+      } catch (err) {
+        setError(t('history.deleteFailed'));
+        console.error(err);
+      }
+  };
+
+  const handleClearHistory = async () => {
+      try {
+        await clearHistoryItems();
+        setActiveHistoryId(null);
+        setSavedVariantIds([]);
+        setHistoryRevision(revision => revision + 1);
+      } catch (err) {
+        setError(t('history.clearFailed'));
+        console.error(err);
+      }
+  };
+
+  const handleSavePreset = (name: string) => {
+    setPromptPresets(presets => [...presets, { id: `preset-${Date.now()}`, name, text: prompt }]);
+  };
+
+  const handleExportPresets = () => {
+    downloadBlob(createPromptPresetFile(promptPresets), 'nano-panorama-presets.json');
+  };
+
+  const handleImportPresets = async (file: File) => {
+    try {
+      setError(null);
+      setPresetNotice(null);
+      const { presets, added } = await importPromptPresets(file, promptPresets);
+      setPromptPresets(presets);
+      setPresetNotice(added > 0 ? t('presets.imported', { count: added }) : t('presets.nothingNew'));
+    } catch (err) {
+      setError(err instanceof Error ? err : t('presets.importFailed'));
+      console.error(err);
+    }
   };
 
-  const handleDeleteItem = (id: number) => {
-      updateHistory(history.filter(item => item.id !== id));
+  const handleExportHistory = async (ids: number[] | null, query: HistoryQuery | null) => {
+      setIsTransferringHistory(true);
+      try {
+        const items = ids
+          ? (await Promise.all(ids.map(id => getHistoryItem(id)))).filter((item): item is HistoryItem => !!item)
+          : query
+            ? await getMatchingHistoryItems(query)
+            : await getAllHistoryItems();
+        if (items.length === 0) {
+          setError(t('history.exportEmpty'));
+          return;
+        }
+        const bundle = await createHistoryBundle(items);
+        downloadBlob(bundle, `nano-panorama-${new Date().toISOString().slice(0, 10)}.zip`);
+      } catch (err) {
+        setError(err instanceof Error ? err : t('history.exportFailed'));
+        console.error(err);
+      } finally {
+        setIsTransferringHistory(false);
+      }
   };
 
-  const handleClearHistory = () => {
-      updateHistory([]);
+  const handleImportHistory = async (file: File) => {
+      setIsTransferringHistory(true);
+      setImportReport(null);
+      try {
+        const report = await importHistoryBundle(file);
+        setImportReport(report);
+        if (report.imported > 0) setHistoryRevision(revision => revision + 1);
+      } catch (err) {
+        setError(err instanceof Error ? err : t('history.importFailed'));
+        console.error(err);
+      } finally {
+        setIsTransferringHistory(false);
+      }
   };
 
-  const isGenerateDisabled = !base64Image || !prompt || isLoading || !apiKey;
+  const isGenerateDisabled = !base64Image || !prompt || hasMissingVariables || isLoading || isStitching || !isProviderReady;
 
   return (
     <div className="min-h-screen bg-slate-900 font-sans p-4 sm:p-6 lg:p-8">
       <div className="container mx-auto max-w-screen-xl">
         <header className="text-center mb-8">
-          <h1 className="text-4xl sm:text-5xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-500 pb-2">Генератор Панорам Nano Banana</h1>
-          <p className="text-slate-400 mt-2 max-w-2xl mx-auto">Создайте или загрузите изображение, и ИИ дорисует его до формата 16:9.</p>
+          <div className="flex justify-end">
+            <select
+              value={locale}
+              onChange={(e) => handleLocaleChange(e.target.value as Locale)}
+              aria-label={t('app.language')}
+              className="p-1.5 text-xs text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 transition-colors"
+            >
+              {LOCALES.map(option => (<option key={option} value={option}>{LOCALE_NAMES[option]}</option>))}
+            </select>
+          </div>
+          <h1 className="text-4xl sm:text-5xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-500 pb-2">{t('app.title')}</h1>
+          <p className="text-slate-400 mt-2 max-w-2xl mx-auto">{t('app.subtitle')}</p>
         </header>
         <main className="grid grid-cols-1 lg:grid-cols-12 gap-8">
           <div className="lg:col-span-4 bg-slate-800/50 p-6 rounded-2xl shadow-lg border border-slate-700 flex flex-col gap-6">
             <div>
-                <h2 className="text-2xl font-bold text-slate-100 mb-4">1. Источник</h2>
+                <h2 className="text-2xl font-bold text-slate-100 mb-4">{t('app.source')}</h2>
                 <div className="flex border-b border-slate-700">
-                    <TabButton active={sourceMode === 'upload'} onClick={() => setSourceMode('upload')}>Загрузить</TabButton>
-                    <TabButton active={sourceMode === 'generate'} onClick={() => setSourceMode('generate')}>Сгенерировать</TabButton>
+                    <TabButton active={sourceMode === 'upload'} onClick={() => setSourceMode('upload')}>{t('source.upload')}</TabButton>
+                    <TabButton active={sourceMode === 'generate'} onClick={() => setSourceMode('generate')}>{t('source.generate')}</TabButton>
+                    <TabButton active={sourceMode === 'batch'} onClick={() => setSourceMode('batch')}>{t('source.batch')}</TabButton>
                 </div>
-                <div className="pt-4">
+                {/* Kept mounted while hidden so a running queue survives switching tabs. */}
+                <div className={sourceMode === 'batch' ? 'pt-4' : 'hidden'}>
+                    <BatchPanel
+                        prompt={hasMissingVariables ? '' : resolvedPrompt}
+                        templateOptions={templateOptions}
+                        providerSettings={providerSettings}
+                        requestSettings={requestSettings}
+                        inputSettings={inputSettings}
+                        isProviderReady={isProviderReady}
+                        onResult={addToHistory}
+                        onError={setError}
+                    />
+                </div>
+                <div className={sourceMode === 'batch' ? 'hidden' : 'pt-4'}>
                     {sourceMode === 'upload' ? (
-                        <ImageUploader onImageUpload={handleImageUpload} previewUrl={imagePreview} />
+                        <>
+                        <ImageUploader onImageUpload={handleImageUpload} onImagesUpload={handleImagesUpload} previewUrl={imagePreview} acceptPaste={sourceMode === 'upload'} />
+                        {sourceFile && inputAdjustments.length > 0 && (
+                            <p className="mt-2 text-xs text-slate-400">{t('input.adjusted', { changes: inputAdjustments.join('; ') })}</p>
+                        )}
+                        {restoreOffer && (
+                            <div className="mt-3 p-3 text-sm bg-slate-900/50 rounded-lg border border-cyan-700/50 text-slate-300">
+                                <p>{t('metadata.found')}</p>
+                                <p className="mt-1 text-slate-400 italic truncate" title={restoreOffer.prompt}>"{restoreOffer.prompt}"</p>
+                                <p className="text-xs text-slate-500">
+                                    {t('metadata.details', { ratio: restoreOffer.ratio, model: restoreOffer.model ?? t('metadata.unknownModel') })}
+                                </p>
+                                <div className="flex gap-3 mt-2">
+                                    <button onClick={handleRestoreMetadata} disabled={isBusy} className="px-3 py-1.5 text-xs font-medium text-white bg-cyan-600 rounded-md hover:bg-cyan-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors">{t('metadata.restore')}</button>
+                                    <button onClick={() => setRestoreOffer(null)} className="px-3 py-1.5 text-xs text-slate-300 bg-slate-700 rounded-md hover:bg-slate-600 transition-colors">{t('metadata.dismiss')}</button>
+                                </div>
+                            </div>
+                        )}
+                        </>
                     ) : (
                         <div className="flex flex-col gap-4">
                             <div>
-                                <label htmlFor="initial-prompt" className="block mb-2 text-sm font-medium text-slate-300">Опишите исходное изображение</label>
+                                <label htmlFor="initial-prompt" className="block mb-2 text-sm font-medium text-slate-300">{t('source.describe')}</label>
                                 <textarea 
                                     id="initial-prompt" 
                                     rows={4} 
@@ -664,58 +9099,148 @@ const App: React.FC = () => {
                                     onChange={(e) => setInitialPrompt(e.target.value)} 
                                     disabled={isLoading || isGeneratingInitial} 
                                     className="block p-2.5 w-full text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 placeholder-slate-400 transition-colors" 
-                                    placeholder="Например: 'милый котенок в рыцарских доспехах'"
+                                    placeholder={t('source.placeholder')}
                                 />
                             </div>
                             <button 
                                 onClick={handleGenerateInitial} 
-                                disabled={isGeneratingInitial || isLoading || !initialPrompt || !apiKey} 
+                                disabled={isGeneratingInitial || isLoading || !initialPrompt || !isProviderReady} 
                                 className={`w-full flex items-center justify-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg shadow-md transition-colors duration-200 ease-in-out ${
-                                    (isGeneratingInitial || isLoading || !initialPrompt || !apiKey)
+                                    (isGeneratingInitial || isLoading || !initialPrompt || !isProviderReady)
                                         ? 'bg-slate-600 text-slate-400 cursor-not-allowed'
                                         : 'bg-teal-600 text-white hover:bg-teal-500'
                                 }`}
                             >
-                                {isGeneratingInitial ? <><Loader size="sm" /> Генерируется...</> : <><MagicWandIcon/>Сгенерировать</>}
+                                {isGeneratingInitial ? <><Loader size="sm" /> {statusMessage || t('source.generating')}</> : <><MagicWandIcon/>{t('source.generate')}</>}
                             </button>
+                            {isGeneratingInitial && (
+                                <button onClick={handleCancel} className="w-full px-4 py-2 text-sm bg-slate-700 text-slate-200 rounded-lg hover:bg-slate-600 transition-colors">
+                                    {t('common.abort')}
+                                </button>
+                            )}
                         </div>
                     )}
                 </div>
             </div>
 
-            <PromptInput value={prompt} onChange={(e) => setPrompt(e.target.value)} disabled={isLoading || !base64Image} />
+            {sourceMode !== 'generate' && (
+              <InputSettingsPanel value={inputSettings} onChange={setInputSettings} disabled={isBusy} />
+            )}
+
+            <TemplateSettings value={templateOptions} onChange={handleTemplateOptionsChange} disabled={isLoading || isGeneratingInitial} />
+
+            {sourceMode !== 'batch' && stitchFiles.length > 1 && (
+              <StitchSettings
+                files={stitchFiles}
+                value={stitchOptions}
+                alignedPairs={stitchAlignedPairs}
+                onFilesChange={handleStitchFilesChange}
+                onChange={(options) => applyStitch(stitchFiles, options)}
+                disabled={isLoading || isGeneratingInitial || isStitching}
+              />
+            )}
+
+            {sourceMode !== 'batch' && sourceFile && imagePreview && templateOptions.projection === 'flat' && (
+              <PlacementEditor imageUrl={imagePreview} options={templateOptions} onChange={handleLayoutChange} disabled={isLoading || isGeneratingInitial} />
+            )}
+
+            <div className="flex flex-col gap-2">
+              <PromptInput value={prompt} onChange={(e) => setPrompt(e.target.value)} disabled={isLoading || (!base64Image && sourceMode !== 'batch')} />
+              <PromptPresets
+                presets={promptPresets}
+                onApply={(preset) => setPrompt(preset.text)}
+                onSave={handleSavePreset}
+                onDelete={(id) => setPromptPresets(presets => presets.filter(preset => preset.id !== id))}
+                onExport={handleExportPresets}
+                onImport={handleImportPresets}
+                notice={presetNotice}
+                canSave={!!prompt.trim()}
+                disabled={isLoading}
+              />
+              <PromptVariables names={promptVariableNames} values={promptVariables} onChange={setPromptVariables} disabled={isLoading} />
+            </div>
             
             <div>
-              <label htmlFor="api-key" className="block mb-2 text-sm font-medium text-slate-300">
-                Ваш Gemini API Ключ
+              <label htmlFor="provider" className="block mb-2 text-sm font-medium text-slate-300">
+                {t('provider.label')}
+              </label>
+              <select
+                id="provider"
+                value={providerId}
+                onChange={(e) => setProviderId(e.target.value as ProviderId)}
+                disabled={isLoading || isGeneratingInitial || isEnhancing}
+                className="block p-2.5 w-full text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 transition-colors"
+              >
+                {PROVIDER_OPTIONS.map(option => (<option key={option.id} value={option.id}>{t(option.labelKey)}</option>))}
+              </select>
+              {providerId === 'mock' && (
+                <p className="text-xs text-slate-500 mt-1">{t('provider.mockHint')}</p>
+              )}
+            </div>
+
+            {providerId === 'automatic1111' && (
+            <div>
+              <label htmlFor="server-url" className="block mb-2 text-sm font-medium text-slate-300">
+                {t('provider.serverUrl')}
               </label>
               <input
-                type="password"
-                id="api-key"
-                value={apiKey}
-                onChange={(e) => setApiKey(e.target.value)}
+                type="url"
+                id="server-url"
+                value={serverUrl}
+                onChange={(e) => setServerUrl(e.target.value)}
                 disabled={isLoading || isGeneratingInitial || isEnhancing}
                 className="block p-2.5 w-full text-sm text-slate-200 bg-slate-700/50 rounded-lg border border-slate-600 focus:ring-cyan-500 focus:border-cyan-500 placeholder-slate-400 transition-colors"
-                placeholder="Вставьте ваш API ключ сюда"
+                placeholder={DEFAULT_A1111_URL}
               />
               <p className="text-xs text-slate-500 mt-1">
-                Ключ не сохраняется. Его можно получить в <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:underline">Google AI Studio</a>.
+                {t('provider.serverHint', { api: '--api', cors: '--cors-allow-origins' })}
               </p>
             </div>
+            )}
+
+            {providerId === 'gemini' && (
+              <ApiKeyManager value={apiKey} onChange={setApiKey} disabled={isLoading || isGeneratingInitial || isEnhancing} />
+            )}
 
+            <VariantSettings value={variantOptions} onChange={setVariantOptions} prompt={prompt} disabled={isLoading || isGeneratingInitial} />
+
+            <SystemPromptEditor
+              value={promptTemplates[promptLocale]}
+              onChange={(store) => setPromptTemplates({ ...promptTemplates, [promptLocale]: store })}
+              locale={promptLocale}
+              onLocaleChange={setPromptLocale}
+              disabled={isLoading || isGeneratingInitial || isEnhancing}
+            />
+
+            <RequestSettingsPanel value={requestSettings} onChange={setRequestSettings} disabled={isLoading || isGeneratingInitial || isEnhancing} />
+            <SeamCheckPanel value={seamCheckSettings} onChange={setSeamCheckSettings} disabled={isLoading} />
+
+            {sourceMode !== 'batch' && (
             <button onClick={handleGenerate} disabled={isGenerateDisabled} className={`w-full flex items-center justify-center gap-3 px-6 py-3 text-lg font-semibold rounded-lg shadow-md transition-all duration-300 ease-in-out ${isGenerateDisabled ? 'bg-slate-600 text-slate-400 cursor-not-allowed' : 'bg-gradient-to-r from-cyan-500 to-purple-600 text-white hover:from-cyan-400 hover:to-purple-500 transform hover:scale-105 focus:ring-4 focus:ring-cyan-300/50'}`}>
-              {isLoading ? (<><Loader />Генерация...</>) : (<><SparklesIcon />Создать Панораму</>)}
+              {isLoading ? (<><Loader />{t('app.generating')}</>) : (<><SparklesIcon />{t('app.create')}</>)}
             </button>
-            {error && <p className="text-red-400 text-center bg-red-900/50 p-3 rounded-lg">{error}</p>}
+            )}
+            {error && <ErrorMessage error={error} />}
+            {tiledJob && !isLoading && (
+              <button onClick={handleResumeTiled} className="w-full px-4 py-2 text-sm font-medium text-white bg-purple-600 rounded-lg hover:bg-purple-700 transition-colors">
+                {t('tiled.resume', { tile: tiledJob.completedTiles + 1, total: tiledJob.totalTiles })}
+              </button>
+            )}
           </div>
           <div className="lg:col-span-5 bg-slate-800/50 p-6 rounded-2xl shadow-lg border border-slate-700 flex flex-col">
-            <h2 className="text-2xl font-bold text-slate-100 border-b border-slate-700 pb-3 mb-6">2. Результат</h2>
+            <div className="flex justify-between items-center border-b border-slate-700 pb-3 mb-6">
+              <h2 className="text-2xl font-bold text-slate-100">{t('app.result')}</h2>
+              <div className="flex gap-1">
+                <button onClick={handleUndo} disabled={isBusy || undoStack.length === 0} title={t('app.undoShortcut')} aria-label={t('app.undo')} className="w-9 h-9 text-lg text-slate-200 bg-slate-700 rounded-lg hover:bg-slate-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors">↶</button>
+                <button onClick={handleRedo} disabled={isBusy || redoStack.length === 0} title={t('app.redoShortcut')} aria-label={t('app.redo')} className="w-9 h-9 text-lg text-slate-200 bg-slate-700 rounded-lg hover:bg-slate-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors">↷</button>
+              </div>
+            </div>
             <div className="flex-grow flex items-center justify-center">
-              <ResultDisplay imageUrl={generatedImage} text={generatedText} isLoading={isLoading} statusMessage={statusMessage} onEnhance={handleEnhance} isEnhancing={isEnhancing} />
+              <ResultDisplay imageUrl={displayedImage} metadata={resultMetadata} seamQuality={selectedVariant?.imageUrl === generatedImage ? selectedVariant.quality : null} seamThreshold={seamCheckSettings.threshold} templateUrl={resultSource && base64Image && mimeType ? `data:${mimeType};base64,${base64Image}` : null} placement={resultSource?.placement ?? null} text={generatedText} isLoading={isLoading} statusMessage={statusMessage} onEnhance={handleEnhance} isEnhancing={isEnhancing} onExtend={handleExtend} projection={activeTemplate.projection} onTiledOutpaint={handleTiledOutpaint} canRecompose={!!resultSource} recomposition={recomposition} onRecompositionChange={setRecomposition} startedAt={requestStartedAt} attemptStartedAt={attemptStartedAt} timeoutMs={requestSettings.timeoutMs} onCancel={handleCancel} variants={variants} selectedVariantId={selectedVariantId} savedVariantIds={savedVariantIds} onSelectVariant={handleSelectVariant} onSaveVariant={saveVariantToHistory} onInpaint={handleInpaint} />
             </div>
           </div>
           <div className="lg:col-span-3">
-             <HistoryPanel history={history} onReuse={handleReuseItem} onDelete={handleDeleteItem} onClear={handleClearHistory} />
+             <HistoryPanel revision={historyRevision} activeId={currentHistoryId} onReuse={handleReuseItem} onDelete={handleDeleteItem} onClear={handleClearHistory} onExport={handleExportHistory} onImport={handleImportHistory} isTransferring={isTransferringHistory} importReport={importReport} onDismissImportReport={() => setImportReport(null)} />
           </div>
         </main>
       </div>
@@ -727,7 +9252,7 @@ const App: React.FC = () => {
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
-  throw new Error("Не удалось найти корневой элемент для монтирования");
+  throw new Error(t('error.rootMissing'));
 }
 const root = ReactDOM.createRoot(rootElement);
 root.render(
@@ -0,0 +1,142 @@
+import { ApiError } from "@google/genai";
+import { formatNumber, t } from "../utils/i18n.ts";
+
+export type GenerationErrorCode =
+  | 'invalid_api_key'
+  | 'quota_exceeded'
+  | 'safety_blocked'
+  | 'no_image'
+  | 'network'
+  | 'timeout'
+  | 'input_too_large'
+  | 'server'
+  | 'unknown';
+
+/** Base class for every failure of an image-generation backend. */
+export class GenerationError extends Error {
+  code: GenerationErrorCode;
+  /** Raw backend information, shown in the expandable details panel. */
+  detail: string;
+
+  constructor(code: GenerationErrorCode, message: string, detail = '') {
+    super(message);
+    this.name = 'GenerationError';
+    this.code = code;
+    this.detail = detail;
+  }
+}
+
+export class InvalidApiKeyError extends GenerationError {
+  constructor(detail = '') {
+    super('invalid_api_key', t('generationError.invalidApiKey'), detail);
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+export class QuotaExceededError extends GenerationError {
+  constructor(detail = '') {
+    super('quota_exceeded', t('generationError.quotaExceeded'), detail);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class SafetyBlockError extends GenerationError {
+  finishReason: string | null;
+  blockReason: string | null;
+
+  constructor(finishReason: string | null, blockReason: string | null, detail = '') {
+    super('safety_blocked', t('generationError.safetyBlocked'), detail);
+    this.name = 'SafetyBlockError';
+    this.finishReason = finishReason;
+    this.blockReason = blockReason;
+  }
+}
+
+export class NoImageError extends GenerationError {
+  constructor(detail = '') {
+    super('no_image', t('generationError.noImage'), detail);
+    this.name = 'NoImageError';
+  }
+}
+
+export class NetworkError extends GenerationError {
+  constructor(detail = '') {
+    super('network', t('generationError.network'), detail);
+    this.name = 'NetworkError';
+  }
+}
+
+export class RequestTimeoutError extends GenerationError {
+  constructor(detail = '') {
+    super('timeout', t('generationError.timeout'), detail);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+export class InputTooLargeError extends GenerationError {
+  constructor(detail = '') {
+    super('input_too_large', t('generationError.inputTooLarge'), detail);
+    this.name = 'InputTooLargeError';
+  }
+}
+
+export class ServerError extends GenerationError {
+  constructor(detail = '') {
+    super('server', t('generationError.server'), detail);
+    this.name = 'ServerError';
+  }
+}
+
+// Gemini rejects requests whose inline data exceeds 20 MB.
+const MAX_INLINE_IMAGE_BYTES = 20 * 1024 * 1024;
+
+export const assertInlineImageSize = (base64ImageData: string) => {
+  const bytes = Math.floor(base64ImageData.length * 3 / 4);
+  if (bytes > MAX_INLINE_IMAGE_BYTES) {
+    const megabytes = (value: number) => formatNumber(value / 1024 / 1024, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+    throw new InputTooLargeError(t('generationError.sizeDetail', { size: megabytes(bytes), limit: megabytes(MAX_INLINE_IMAGE_BYTES) }));
+  }
+};
+
+export const errorFromHttpStatus = (status: number, detail: string): GenerationError => {
+  const lowered = detail.toLowerCase();
+  if (status === 401 || status === 403 || lowered.includes('api key not valid') || lowered.includes('api_key_invalid')) {
+    return new InvalidApiKeyError(detail);
+  }
+  if (status === 429 || lowered.includes('resource_exhausted')) {
+    return new QuotaExceededError(detail);
+  }
+  if (status === 413 || lowered.includes('payload size exceeds')) {
+    return new InputTooLargeError(detail);
+  }
+  if (status === 408 || status === 504) {
+    return new RequestTimeoutError(detail);
+  }
+  if (status >= 500) {
+    return new ServerError(detail);
+  }
+  return new GenerationError('unknown', t('generationError.rejected'), detail);
+};
+
+/** Maps anything thrown by a backend call onto the GenerationError taxonomy. */
+export const toGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) {
+    return error;
+  }
+  if (error instanceof ApiError) {
+    return errorFromHttpStatus(error.status, `${error.status}: ${error.message}`);
+  }
+  if (error instanceof Error) {
+    if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+      return new RequestTimeoutError(error.message);
+    }
+    if (error instanceof TypeError || /failed to fetch|networkerror|network request failed/i.test(error.message)) {
+      return new NetworkError(error.message);
+    }
+    if (error.message.includes('API_KEY') || error.message.includes('permission denied')) {
+      return new InvalidApiKeyError(error.message);
+    }
+    return new GenerationError('unknown', t('generationError.unknown'), error.message);
+  }
+  return new GenerationError('unknown', t('generationError.unknown'), String(error));
+};
@@ -1,24 +1,74 @@
 
 import { GoogleGenAI, Modality, GenerateContentResponse } from "@google/genai";
+import { assertInlineImageSize, InvalidApiKeyError, NoImageError, SafetyBlockError, toGenerationError } from "./errors.ts";
+import { DEFAULT_TEMPLATE_OPTIONS, formatAspectRatio, TemplateAnchor, TemplateOptions } from "../utils/fileUtils.ts";
+import { getActiveLocale, Locale, t } from "../utils/i18n.ts";
 
 interface PanoramaResult {
   imageUrl: string | null;
   text: string | null;
 }
 
+const SAFETY_FINISH_REASONS = [
+  'SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION',
+  'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT', 'IMAGE_RECITATION',
+];
+
+const ANCHOR_DESCRIPTIONS: Record<Locale, Record<TemplateAnchor, string>> = {
+  en: {
+    'center': 'The central image is the starting point; extend the scene in every direction.',
+    'left': 'The source image sits against the left edge of the canvas; continue the scene to the right.',
+    'right': 'The source image sits against the right edge of the canvas; continue the scene to the left.',
+    'top': 'The source image sits against the top edge of the canvas; continue the scene downwards.',
+    'bottom': 'The source image sits against the bottom edge of the canvas; continue the scene upwards.',
+    'top-left': 'The source image is in the top-left corner of the canvas; continue the scene to the right and downwards.',
+    'top-right': 'The source image is in the top-right corner of the canvas; continue the scene to the left and downwards.',
+    'bottom-left': 'The source image is in the bottom-left corner of the canvas; continue the scene to the right and upwards.',
+    'bottom-right': 'The source image is in the bottom-right corner of the canvas; continue the scene to the left and upwards.',
+  },
+  ru: {
+    'center': 'Центральное изображение — это отправная точка, расширьте сцену во все стороны.',
+    'left': 'Исходное изображение прижато к левому краю холста, продолжите сцену вправо.',
+    'right': 'Исходное изображение прижато к правому краю холста, продолжите сцену влево.',
+    'top': 'Исходное изображение прижато к верхнему краю холста, продолжите сцену вниз.',
+    'bottom': 'Исходное изображение прижато к нижнему краю холста, продолжите сцену вверх.',
+    'top-left': 'Исходное изображение находится в левом верхнем углу холста, продолжите сцену вправо и вниз.',
+    'top-right': 'Исходное изображение находится в правом верхнем углу холста, продолжите сцену влево и вниз.',
+    'bottom-left': 'Исходное изображение находится в левом нижнем углу холста, продолжите сцену вправо и вверх.',
+    'bottom-right': 'Исходное изображение находится в правом нижнем углу холста, продолжите сцену влево и вверх.',
+  },
+};
+
+// Model instructions per prompt language, which is chosen separately from the UI language.
+const buildPrompt = (userPrompt: string, template: TemplateOptions, locale: Locale): string => {
+  const aspectRatio = formatAspectRatio(template.width, template.height);
+  const anchor = ANCHOR_DESCRIPTIONS[locale][template.anchor];
+  if (locale === 'en') {
+    return template.projection === 'equirectangular'
+      ? `Your task is to turn this image into a full 360°×180° spherical panorama in equirectangular projection with a 2:1 aspect ratio. The central image is the view straight ahead. The top edge of the canvas is the zenith, the bottom edge is the nadir, and the horizon runs along the horizontal middle. The left and right edges of the canvas face the same direction and must join seamlessly, with no breaks in colour, lighting or geometry. Also take the user's wishes into account: ${userPrompt}`
+      : `Your task is to fill the transparent areas of this canvas to create a complete, seamless and coherent scene. ${anchor} Extend the scene naturally, keeping the style, lighting, perspective and details of the original image. The final result must be a complete image with a ${aspectRatio} aspect ratio. Also take the user's wishes into account: ${userPrompt}`;
+  }
+  return template.projection === 'equirectangular'
+    ? `Ваша задача — превратить это изображение в полную сферическую панораму 360°×180° в равнопромежуточной (equirectangular) проекции с соотношением сторон 2:1. Центральное изображение — это вид прямо вперёд. Верхний край холста — это зенит, нижний — надир, горизонт проходит по горизонтальной середине. Левый и правый края холста соответствуют одному и тому же направлению взгляда и должны бесшовно стыковаться друг с другом без разрывов в цвете, освещении и геометрии. Дополнительно учтите пожелание пользователя: ${userPrompt}`
+    : `Ваша задача — заполнить прозрачные области на этом холсте, чтобы создать полную, бесшовную и целостную сцену. ${anchor} Естественно расширьте сцену, сохраняя стиль, освещение, перспективу и детали оригинального изображения. Финальный результат должен быть полноценным изображением с соотношением сторон ${aspectRatio}. Дополнительно учтите пожелание пользователя: ${userPrompt}`;
+};
+
 export const generatePanorama = async (
   base64ImageData: string,
   mimeType: string,
   userPrompt: string,
-  apiKey: string
+  apiKey: string,
+  template: TemplateOptions = DEFAULT_TEMPLATE_OPTIONS,
+  locale: Locale = getActiveLocale()
 ): Promise<PanoramaResult> => {
   if (!apiKey) {
-    throw new Error("API ключ не предоставлен.");
+    throw new InvalidApiKeyError(t('error.apiKeyMissing'));
   }
   const ai = new GoogleGenAI({ apiKey: apiKey });
 
   try {
-    const fullPrompt = `Ваша задача — заполнить прозрачные области на этом холсте, чтобы создать полную, бесшовную и целостную сцену. Центральное изображение — это отправная точка. Естественно расширьте сцену, сохраняя стиль, освещение, перспективу и детали оригинального изображения. Финальный результат должен быть полноценным изображением с соотношением сторон 16:9. Дополнительно учтите пожелание пользователя: ${userPrompt}`;
+    assertInlineImageSize(base64ImageData);
+    const fullPrompt = buildPrompt(userPrompt, template, locale);
 
     const response: GenerateContentResponse = await ai.models.generateContent({
       model: 'gemini-2.5-flash-image-preview',
@@ -37,7 +87,7 @@ export const generatePanorama = async (
     let text: string | null = null;
     
     if (response.candidates && response.candidates.length > 0) {
-      for (const part of response.candidates[0].content.parts) {
+      for (const part of response.candidates[0].content?.parts ?? []) {
         if (part.inlineData && part.inlineData.data) {
           const base64Bytes = part.inlineData.data;
           const imageMimeType = part.inlineData.mimeType;
@@ -49,16 +99,20 @@ export const generatePanorama = async (
     }
 
     if (!imageUrl) {
-        throw new Error("Не удалось сгенерировать изображение. Модель не вернула изображение в ответе.");
+        const candidate = response.candidates?.[0];
+        const finishReason = candidate?.finishReason ?? null;
+        const blockReason = response.promptFeedback?.blockReason ?? null;
+        const detail = JSON.stringify({ finishReason, promptFeedback: response.promptFeedback, text }, null, 2);
+        if (blockReason || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason))) {
+            throw new SafetyBlockError(finishReason, blockReason, detail);
+        }
+        throw new NoImageError(detail);
     }
 
     return { imageUrl, text };
 
   } catch (error) {
-    console.error("Ошибка при вызове Gemini API:", error);
-    if (error instanceof Error && (error.message.includes('API_KEY') || error.message.includes('permission denied'))) {
-        throw new Error("Произошла ошибка конфигурации. Проверьте ваш API ключ.");
-    }
-    throw new Error("Не удалось сгенерировать панораму. Пожалуйста, попробуйте еще раз позже.");
+    console.error("Gemini API call failed:", error);
+    throw toGenerationError(error);
   }
 };
@@ -1,15 +1,135 @@
 
+import { MessageKey, t } from './i18n.ts';
+
+/** Where the source was drawn on the template, as fractions of the canvas size. */
+export interface SourcePlacement {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 interface FileConversionResult {
   base64: string;
   mimeType: string;
+  placement: SourcePlacement;
+}
+
+export type TemplateAnchor =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+export type ExtendDirection = 'left' | 'right' | 'up' | 'down';
+
+export type PanoramaProjection = 'flat' | 'equirectangular';
+
+export interface TemplateOptions {
+  width: number;
+  height: number;
+  anchor: TemplateAnchor;
+  projection: PanoramaProjection;
+}
+
+export interface AspectRatioPreset {
+  id: string;
+  labelKey: MessageKey;
+  width: number;
+  height: number;
 }
 
+export const ASPECT_RATIO_PRESETS: AspectRatioPreset[] = [
+  { id: '16:9', labelKey: 'aspect.wide', width: 1280, height: 720 },
+  { id: '21:9', labelKey: 'aspect.ultrawide', width: 1680, height: 720 },
+  { id: '2:1', labelKey: 'aspect.panorama', width: 1440, height: 720 },
+  { id: '3:1', labelKey: 'aspect.longPanorama', width: 2160, height: 720 },
+  { id: '9:16', labelKey: 'aspect.vertical', width: 720, height: 1280 },
+  { id: '1:1', labelKey: 'aspect.square', width: 1024, height: 1024 },
+];
+
+export const DEFAULT_TEMPLATE_OPTIONS: TemplateOptions = { width: 1280, height: 720, anchor: 'center', projection: 'flat' };
+export const EQUIRECTANGULAR_TEMPLATE_OPTIONS: TemplateOptions = { width: 2048, height: 1024, anchor: 'center', projection: 'equirectangular' };
+// Assumed horizontal field of view of an ordinary photo placed into a 360° template.
+const EQUIRECT_SOURCE_FOV_DEGREES = 90;
+
+export const MIN_TEMPLATE_SIDE = 256;
+export const MAX_TEMPLATE_SIDE = 4096;
+// Longest side of a template built by "Extend again"; larger canvases gain nothing from the model.
+const EXTEND_MAX_SIDE = 2048;
+// How much of the current result's size is added in the chosen direction.
+const EXTEND_FACTOR = 0.5;
+
+export const clampTemplateSide = (value: number): number =>
+  Math.min(MAX_TEMPLATE_SIDE, Math.max(MIN_TEMPLATE_SIDE, Math.round(value)));
+
+const greatestCommonDivisor = (a: number, b: number): number => (b === 0 ? a : greatestCommonDivisor(b, a % b));
+
+/**
+ * Formats a canvas size as a human-readable ratio: "21:9" for presets,
+ * "2.35:1" for custom sizes that don't reduce to small integers.
+ */
+export const formatAspectRatio = (width: number, height: number): string => {
+  const preset = ASPECT_RATIO_PRESETS.find(p => p.width * height === p.height * width);
+  if (preset) return preset.id;
+  const divisor = greatestCommonDivisor(width, height);
+  if (width / divisor <= 32 && height / divisor <= 32) {
+    return `${width / divisor}:${height / divisor}`;
+  }
+  return width >= height
+    ? `${(width / height).toFixed(2)}:1`
+    : `1:${(height / width).toFixed(2)}`;
+};
+
+/**
+ * Computes the top-left offset of a `drawWidth`×`drawHeight` box anchored inside the canvas.
+ */
+const getAnchorOffset = (
+  anchor: TemplateAnchor,
+  canvasWidth: number,
+  canvasHeight: number,
+  drawWidth: number,
+  drawHeight: number
+): { x: number; y: number } => {
+  const freeX = canvasWidth - drawWidth;
+  const freeY = canvasHeight - drawHeight;
+  const x = anchor.endsWith('left') ? 0 : anchor.endsWith('right') ? freeX : freeX / 2;
+  const y = anchor.startsWith('top') ? 0 : anchor.startsWith('bottom') ? freeY : freeY / 2;
+  return { x, y };
+};
+
+/**
+ * Builds template options for "Extend again": the canvas grows by EXTEND_FACTOR in the
+ * chosen direction and the current image is anchored to the opposite edge.
+ */
+export const getExtendTemplateOptions = (
+  imageWidth: number,
+  imageHeight: number,
+  direction: ExtendDirection
+): TemplateOptions => {
+  const horizontal = direction === 'left' || direction === 'right';
+  let width = horizontal ? imageWidth * (1 + EXTEND_FACTOR) : imageWidth;
+  let height = horizontal ? imageHeight : imageHeight * (1 + EXTEND_FACTOR);
+  const scale = Math.min(1, EXTEND_MAX_SIDE / Math.max(width, height));
+  width = clampTemplateSide(width * scale);
+  height = clampTemplateSide(height * scale);
+  const anchorByDirection: Record<ExtendDirection, TemplateAnchor> = {
+    left: 'right',
+    right: 'left',
+    up: 'bottom',
+    down: 'top',
+  };
+  return { width, height, anchor: anchorByDirection[direction], projection: 'flat' };
+};
+
 /**
- * Creates a 16:9 canvas, places the uploaded image in the center (scaled to fit),
- * and returns the result as a base64 PNG string.
+ * Creates a canvas of the requested size, places the uploaded image at the requested
+ * anchor (scaled to fit), and returns the result as a base64 PNG string.
  * This prepares the image for an "outpainting" task robustly for any aspect ratio.
  */
-export const createImageTemplate = (file: File): Promise<FileConversionResult> => {
+export const createImageTemplate = (
+  file: Blob,
+  options: TemplateOptions = DEFAULT_TEMPLATE_OPTIONS
+): Promise<FileConversionResult> => {
   return new Promise((resolve, reject) => {
     const img = new Image();
     img.src = URL.createObjectURL(file);
@@ -18,11 +138,11 @@ export const createImageTemplate = (file: File): Promise<FileConversionResult> =
       const canvas = document.createElement('canvas');
       const ctx = canvas.getContext('2d');
       if (!ctx) {
-        return reject(new Error('Не удалось получить контекст холста'));
+        return reject(new Error(t('error.canvasContext')));
       }
 
-      const TARGET_WIDTH = 1280;
-      const TARGET_HEIGHT = 720;
+      const TARGET_WIDTH = clampTemplateSide(options.width);
+      const TARGET_HEIGHT = clampTemplateSide(options.height);
       const TARGET_ASPECT_RATIO = TARGET_WIDTH / TARGET_HEIGHT;
 
       canvas.width = TARGET_WIDTH;
@@ -36,7 +156,15 @@ export const createImageTemplate = (file: File): Promise<FileConversionResult> =
       let drawHeight = originalHeight;
 
       // Fit image within target dimensions, preserving aspect ratio
-      if (originalAspectRatio > TARGET_ASPECT_RATIO) {
+      if (options.projection === 'equirectangular') {
+        // A regular photo covers only a slice of the full 360° sphere
+        drawWidth = TARGET_WIDTH * (EQUIRECT_SOURCE_FOV_DEGREES / 360);
+        drawHeight = drawWidth / originalAspectRatio;
+        if (drawHeight > TARGET_HEIGHT) {
+          drawHeight = TARGET_HEIGHT;
+          drawWidth = TARGET_HEIGHT * originalAspectRatio;
+        }
+      } else if (originalAspectRatio > TARGET_ASPECT_RATIO) {
         // Image is wider than target, so fit to width
         drawWidth = TARGET_WIDTH;
         drawHeight = TARGET_WIDTH / originalAspectRatio;
@@ -46,9 +174,9 @@ export const createImageTemplate = (file: File): Promise<FileConversionResult> =
         drawWidth = TARGET_HEIGHT * originalAspectRatio;
       }
 
-      // Center the image on the canvas
-      const offsetX = (TARGET_WIDTH - drawWidth) / 2;
-      const offsetY = (TARGET_HEIGHT - drawHeight) / 2;
+      // Place the image at the requested anchor
+      const anchor = options.projection === 'equirectangular' ? 'center' : options.anchor;
+      const { x: offsetX, y: offsetY } = getAnchorOffset(anchor, TARGET_WIDTH, TARGET_HEIGHT, drawWidth, drawHeight);
 
       // Draw the scaled image
       ctx.drawImage(img, offsetX, offsetY, drawWidth, drawHeight);
@@ -57,10 +185,19 @@ export const createImageTemplate = (file: File): Promise<FileConversionResult> =
       const dataUrl = canvas.toDataURL('image/png');
       const parts = dataUrl.split(',');
       if (parts.length !== 2) {
-        return reject(new Error('Неверный формат Data URL при создании шаблона'));
+        return reject(new Error(t('error.templateDataUrl')));
       }
       
-      resolve({ base64: parts[1], mimeType: 'image/png' });
+      resolve({
+        base64: parts[1],
+        mimeType: 'image/png',
+        placement: {
+          x: offsetX / TARGET_WIDTH,
+          y: offsetY / TARGET_HEIGHT,
+          width: drawWidth / TARGET_WIDTH,
+          height: drawHeight / TARGET_HEIGHT,
+        },
+      });
     };
     img.onerror = (error) => {
       URL.revokeObjectURL(img.src);
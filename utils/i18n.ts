@@ -0,0 +1,165 @@
+export type Locale = 'en' | 'ru';
+
+export const LOCALES: Locale[] = ['en', 'ru'];
+// Each language is named in itself, so the switcher stays readable whatever is selected.
+export const LOCALE_NAMES: Record<Locale, string> = { en: 'English', ru: 'Русский' };
+// BCP 47 tags used for number formatting.
+const LOCALE_TAGS: Record<Locale, string> = { en: 'en-US', ru: 'ru-RU' };
+export const LOCALE_KEY = 'nano-panorama-locale';
+export const PROMPT_LOCALE_KEY = 'nano-panorama-prompt-locale';
+
+const EN_MESSAGES = {
+  'app.title': 'Nano Banana Panorama Generator',
+  'app.subtitle': 'Upload an image and the AI will extend it to 16:9, creating a stunning panorama.',
+  'app.language': 'Interface language',
+  'app.promptLanguage': 'Prompt language',
+  'app.setup': '1. Setup',
+  'app.result': '2. Result',
+  'app.generating': 'Generating...',
+  'app.create': 'Create panorama',
+  'app.defaultPrompt': 'a beautiful sunny day with fluffy clouds',
+  'provider.apiKey': 'Your Gemini API key',
+  'provider.apiKeyPlaceholder': 'Paste your API key here',
+  'provider.apiKeyHint': 'The key is not stored. You can get one in',
+  'status.initializing': 'Initialising the Nano Banana model...',
+  'status.analyzing': 'Analysing the image and the prompt...',
+  'status.extending': 'Extending the scene to {ratio}...',
+  'status.success': 'Panorama created successfully!',
+  'error.processImage': 'Failed to process the image.',
+  'error.generateMissing': 'Please upload an image, enter a description and provide your API key.',
+  'error.unknown': 'An unknown error occurred.',
+  'error.apiKeyMissing': 'No API key provided.',
+  'error.canvasContext': 'Could not get a canvas context',
+  'error.templateDataUrl': 'Invalid data URL while building the template',
+  'upload.preview': 'Preview',
+  'upload.click': 'Click to upload',
+  'upload.orDrop': 'or drag and drop',
+  'upload.formats': 'PNG, JPG, WEBP (recommended)',
+  'upload.change': 'Choose another image',
+  'prompt.label': 'Describe how to extend the image',
+  'prompt.placeholder': "For example: 'turn this into an epic fantasy landscape with dragons in the sky'",
+  'result.duration': 'This may take up to a minute.',
+  'result.alt': 'Generated panorama',
+  'result.download': 'Download image',
+  'result.placeholder': 'Your generated panorama will appear here.',
+  'result.placeholderHint': 'Set the options on the left and press "Create panorama".',
+  'aspect.wide': '16:9 — wide',
+  'aspect.ultrawide': '21:9 — ultra-wide',
+  'aspect.panorama': '2:1 — panorama',
+  'aspect.longPanorama': '3:1 — long panorama',
+  'aspect.vertical': '9:16 — vertical',
+  'aspect.square': '1:1 — square',
+  'generationError.invalidApiKey': 'The API key is invalid or has no access to the model.',
+  'generationError.quotaExceeded': 'The request limit was exceeded or the quota is used up.',
+  'generationError.safetyBlocked': "The request was blocked by the model's safety filters.",
+  'generationError.noImage': 'The model returned no image in its response.',
+  'generationError.network': 'Could not reach the generation service.',
+  'generationError.timeout': 'The generation service did not respond in time.',
+  'generationError.inputTooLarge': 'The image is too large to send to the model.',
+  'generationError.server': 'The generation service returned an internal error.',
+  'generationError.sizeDetail': '{size} MB exceeds the {limit} MB limit',
+  'generationError.rejected': 'The generation service rejected the request.',
+  'generationError.unknown': 'Generation failed.',
+};
+
+export type MessageKey = keyof typeof EN_MESSAGES;
+
+const RU_MESSAGES: Record<MessageKey, string> = {
+  'app.title': 'Генератор Панорам Nano Banana',
+  'app.subtitle': 'Загрузите изображение, и ИИ дорисует его до формата 16:9, создавая потрясающую панораму.',
+  'app.language': 'Язык интерфейса',
+  'app.promptLanguage': 'Язык промптов',
+  'app.setup': '1. Настройка',
+  'app.result': '2. Результат',
+  'app.generating': 'Генерация...',
+  'app.create': 'Создать панораму',
+  'app.defaultPrompt': 'красивый солнечный день с пушистыми облаками',
+  'provider.apiKey': 'Ваш Gemini API-ключ',
+  'provider.apiKeyPlaceholder': 'Вставьте ваш API-ключ сюда',
+  'provider.apiKeyHint': 'Ключ не сохраняется. Его можно получить в',
+  'status.initializing': 'Инициализация модели Nano Banana...',
+  'status.analyzing': 'Анализ изображения и подсказки...',
+  'status.extending': 'Расширение сцены до {ratio}...',
+  'status.success': 'Панорама успешно создана!',
+  'error.processImage': 'Не удалось обработать изображение.',
+  'error.generateMissing': 'Пожалуйста, загрузите изображение, введите описание и укажите ваш API-ключ.',
+  'error.unknown': 'Произошла неизвестная ошибка.',
+  'error.apiKeyMissing': 'API-ключ не предоставлен.',
+  'error.canvasContext': 'Не удалось получить контекст холста',
+  'error.templateDataUrl': 'Неверный формат Data URL при создании шаблона',
+  'upload.preview': 'Предпросмотр',
+  'upload.click': 'Нажмите для загрузки',
+  'upload.orDrop': 'или перетащите',
+  'upload.formats': 'PNG, JPG, WEBP (рекомендуется)',
+  'upload.change': 'Выбрать другое изображение',
+  'prompt.label': 'Опишите, как расширить изображение',
+  'prompt.placeholder': "Например: 'преврати это в эпический фэнтезийный пейзаж с драконами в небе'",
+  'result.duration': 'Процесс может занять до минуты.',
+  'result.alt': 'Сгенерированная панорама',
+  'result.download': 'Скачать изображение',
+  'result.placeholder': 'Ваша сгенерированная панорама появится здесь.',
+  'result.placeholderHint': 'Настройте параметры слева и нажмите «Создать панораму».',
+  'aspect.wide': '16:9 — широкий',
+  'aspect.ultrawide': '21:9 — ультраширокий',
+  'aspect.panorama': '2:1 — панорама',
+  'aspect.longPanorama': '3:1 — длинная панорама',
+  'aspect.vertical': '9:16 — вертикальный',
+  'aspect.square': '1:1 — квадрат',
+  'generationError.invalidApiKey': 'API-ключ недействителен или не имеет доступа к модели.',
+  'generationError.quotaExceeded': 'Превышен лимит запросов или исчерпана квота.',
+  'generationError.safetyBlocked': 'Запрос заблокирован фильтрами безопасности модели.',
+  'generationError.noImage': 'Модель не вернула изображение в ответе.',
+  'generationError.network': 'Не удалось связаться с сервисом генерации.',
+  'generationError.timeout': 'Сервис генерации не ответил вовремя.',
+  'generationError.inputTooLarge': 'Изображение слишком большое для отправки в модель.',
+  'generationError.server': 'Сервис генерации вернул внутреннюю ошибку.',
+  'generationError.sizeDetail': '{size} МБ при лимите {limit} МБ',
+  'generationError.rejected': 'Сервис генерации отклонил запрос.',
+  'generationError.unknown': 'Не удалось выполнить генерацию.',
+};
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = { en: EN_MESSAGES, ru: RU_MESSAGES };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+/** The stored choice, otherwise the browser language; anything but Russian falls back to English. */
+export const loadLocale = (key: string): Locale => {
+  try {
+    const stored = localStorage.getItem(key);
+    if (isLocale(stored)) return stored;
+  } catch (e) {
+    console.error(`Failed to read ${key} from localStorage`, e);
+  }
+  return navigator.language.toLowerCase().startsWith('ru') ? 'ru' : 'en';
+};
+
+export const storeLocale = (key: string, locale: Locale) => {
+  try {
+    localStorage.setItem(key, locale);
+  } catch (e) {
+    console.error(`Failed to write ${key} to localStorage`, e);
+  }
+};
+
+// Module-level so that errors thrown outside React are translated too; the app re-renders on change.
+let activeLocale: Locale = loadLocale(LOCALE_KEY);
+
+export const getActiveLocale = (): Locale => activeLocale;
+
+export const setActiveLocale = (locale: Locale) => {
+  activeLocale = locale;
+};
+
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions): string =>
+  new Intl.NumberFormat(LOCALE_TAGS[activeLocale], options).format(value);
+
+/** Looks up a message in the active locale and fills its `{name}` placeholders; numbers follow the locale. */
+export const t = (key: MessageKey, params?: Record<string, string | number>): string => {
+  const text = MESSAGES[activeLocale][key];
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(value) : value;
+  });
+};
@@ -2,14 +2,33 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
+    const apiKey = env.GEMINI_API_KEY ?? '';
+    // Any build output can end up published, whatever --mode it was built with.
+    const isProductionBuild = command === 'build';
+    if (isProductionBuild && apiKey) {
+      console.warn(
+        '\n\x1b[33mWARNING: GEMINI_API_KEY from .env is embedded in this production build.\n' +
+        'Anyone who opens the page can read the key. Remove it from .env before publishing.\x1b[0m\n'
+      );
+    }
     return {
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [
+        react(),
+        {
+          // index.tsx is compiled in the browser by Babel, so `define` never reaches it;
+          // the .env key is handed over through the page instead.
+          name: 'nano-panorama-env-key',
+          transformIndexHtml: () => apiKey
+            ? [{
+                tag: 'script',
+                children: `window.__NANO_PANORAMA_ENV__ = ${JSON.stringify({ key: apiKey, production: isProductionBuild })};`,
+                injectTo: 'head-prepend',
+              }]
+            : [],
+        },
+      ],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),